@@ -1,6 +1,9 @@
 import React from 'react';
 import { ClauseType } from '@/types';
 import { ClauseStatusToggle } from './ClauseStatusToggle';
+import { LOW_OCR_CONFIDENCE, formatSection } from '@/lib/utils';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { riskLevel } from '@shared/riskModel';
 
 interface ClauseCardProps {
   clause: ClauseType;
@@ -8,9 +11,11 @@ interface ClauseCardProps {
 }
 
 const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onViewDetails }) => {
+  const riskModel = useRiskModel();
+
   // Determine risk level icon and color classes
   const getRiskData = (score: number) => {
-    if (score >= 7) {
+    if (riskLevel(score, riskModel) === 'high') {
       return {
         level: 'High Risk',
         icon: (
@@ -25,7 +30,7 @@ const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onViewDetails }) => {
         textClass: 'text-risk-high',
         gradientClass: 'from-risk-high/20 to-transparent'
       };
-    } else if (score >= 4) {
+    } else if (riskLevel(score, riskModel) === 'medium') {
       return {
         level: 'Medium Risk',
         icon: (
@@ -96,7 +101,7 @@ const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onViewDetails }) => {
       <div className={`bg-gradient-to-r ${riskData.gradientClass} px-5 py-3 flex justify-between items-center`}>
         <div className="flex items-center">
           {riskData.icon}
-          <h3 className="font-semibold text-neutral-800">Clause {clause.id}</h3>
+          <h3 className="font-semibold text-neutral-800">{clause.heading || `Clause ${clause.id}`}</h3>
         </div>
         <div className="flex items-center space-x-2">
           <div className={`px-2.5 py-1 rounded-full text-xs font-medium ${riskData.bgClass} ${riskData.textClass} flex items-center`}>
@@ -120,7 +125,7 @@ const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onViewDetails }) => {
                 <rect x="14" y="14" width="7" height="7"></rect>
                 <rect x="3" y="14" width="7" height="7"></rect>
               </svg>
-              <span>Section {clause.section}</span>
+              <span>{formatSection(clause.section)}</span>
             </div>
           )}
           {clause.category && (
@@ -141,6 +146,22 @@ const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onViewDetails }) => {
               <span>Page {clause.page}</span>
             </div>
           )}
+          {clause.ocr_confidence != null && (
+            <div
+              className={`px-2.5 py-1 rounded-md text-xs flex items-center ${
+                clause.ocr_confidence < LOW_OCR_CONFIDENCE
+                  ? 'bg-risk-medium/10 text-risk-medium'
+                  : 'bg-neutral-100 text-neutral-600'
+              }`}
+              title="This clause was read from a scanned page"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
+                <circle cx="12" cy="12" r="3"></circle>
+              </svg>
+              <span>OCR {clause.ocr_confidence}%</span>
+            </div>
+          )}
         </div>
         
         <div className="flex justify-between items-center">
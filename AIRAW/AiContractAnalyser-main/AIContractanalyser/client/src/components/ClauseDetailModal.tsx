@@ -1,18 +1,40 @@
-import React from 'react';
-import { ClauseType, ComplianceIssue, Recommendation } from '@/types';
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ClauseType, ComplianceIssue, LibraryClauseType, Recommendation } from '@/types';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { LOW_OCR_CONFIDENCE, formatSection } from "@/lib/utils";
+import { useRiskModel } from "@/hooks/use-risk-model";
+import { riskLevel } from "@shared/riskModel";
+import SimilarClauses from "./SimilarClauses";
+import DiffText from "./DiffText";
 
 interface ClauseDetailModalProps {
   isOpen: boolean;
   clause: ClauseType;
   onClose: () => void;
+  onSelectClause?: (clause: ClauseType) => void;
 }
 
-const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, onClose }) => {
+const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, onClose, onSelectClause }) => {
+  const [showSimilar, setShowSimilar] = useState(false);
+  const riskModel = useRiskModel();
+  const level = riskLevel(clause.risk_score, riskModel);
+
+  const { data: libraryClauses = [] } = useQuery<LibraryClauseType[]>({
+    queryKey: ['/api/clause-library'],
+    enabled: clause.library_clause_id != null,
+  });
+  const libraryClause = libraryClauses.find((libraryClause) => libraryClause.id === clause.library_clause_id);
+
+  // Start collapsed for each clause, since ranking the portfolio takes a moment
+  useEffect(() => {
+    setShowSimilar(false);
+  }, [clause.id]);
+
   // Helper to determine risk level text and color
   const getRiskData = (score: number) => {
-    if (score >= 7) {
+    if (riskLevel(score, riskModel) === 'high') {
       return {
         level: 'High Risk',
         textClass: 'text-risk-high',
@@ -25,7 +47,7 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
           </svg>
         )
       };
-    } else if (score >= 4) {
+    } else if (riskLevel(score, riskModel) === 'medium') {
       return {
         level: 'Medium Risk',
         textClass: 'text-risk-medium',
@@ -61,7 +83,7 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
   // Sample recommendations and issues based on clause content
   // In a real app, these would come from the backend analysis
   const getRecommendations = (): Recommendation[] => {
-    if (clause.risk_score >= 7) {
+    if (level === 'high') {
       return [
         {
           title: "Limit the scope of liability exclusions",
@@ -76,7 +98,7 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
           description: "Instead of exclusions, set reasonable financial limits"
         }
       ];
-    } else if (clause.risk_score >= 4) {
+    } else if (level === 'medium') {
       return [
         {
           title: "Clarify intellectual property ownership",
@@ -127,9 +149,9 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
 
   // Generate risk description based on score
   const getRiskDescription = () => {
-    if (clause.risk_score >= 7) {
+    if (level === 'high') {
       return "This clause presents significant risk due to the broad liability limitations and potential regulatory concerns.";
-    } else if (clause.risk_score >= 4) {
+    } else if (level === 'medium') {
       return "This clause contains moderate risk elements that should be reviewed by legal counsel.";
     } else {
       return "This clause presents minimal risk and follows standard contract practices.";
@@ -147,6 +169,11 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-xl font-medium">Clause Details</DialogTitle>
+          {(clause.section || clause.heading) && (
+            <DialogDescription>
+              {[clause.section && formatSection(clause.section), clause.heading].filter(Boolean).join(' – ')}
+            </DialogDescription>
+          )}
         </DialogHeader>
         
         <div className="mt-4 space-y-6">
@@ -164,6 +191,18 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
                 <div className={`${riskData.bgClass} h-2.5 rounded-full`} style={{ width: `${riskPercentage}%` }}></div>
               </div>
               <p className="text-neutral-700 text-sm">{getRiskDescription()}</p>
+              {clause.risk_factors && clause.risk_factors.length > 0 && (
+                <ul className="mt-3 pt-3 border-t border-neutral-200 space-y-1">
+                  {clause.risk_factors.map((factor, i) => (
+                    <li key={i} className="flex justify-between text-sm">
+                      <span className="text-neutral-600 truncate mr-2" title={factor.label}>{factor.label}</span>
+                      <span className={`font-medium flex-shrink-0 ${factor.points > 0 ? 'text-risk-high' : 'text-risk-low'}`}>
+                        {factor.points > 0 ? `+${factor.points}` : factor.points}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
           
@@ -203,6 +242,12 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
                         <p className="text-neutral-600 text-sm">
                           {issue.rule ? `Conflicts with rule: "${issue.rule}"` : issue.description}
                         </p>
+                        {issue.value && issue.limit && (
+                          <p className="text-xs mt-1">
+                            <span className="font-medium text-risk-high">Found: {issue.value}</span>
+                            <span className="text-neutral-500 ml-3">Limit: {issue.limit}</span>
+                          </p>
+                        )}
                       </div>
                     </li>
                   ))}
@@ -226,11 +271,16 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
             </div>
             <div className="bg-neutral-50 p-4 rounded-md">
               <p className="text-neutral-800">{clause.clause}</p>
+              {clause.ocr_confidence != null && clause.ocr_confidence < LOW_OCR_CONFIDENCE && (
+                <p className="mt-3 text-sm text-risk-medium">
+                  This text was recognized from a scanned page with {clause.ocr_confidence}% confidence. Check it against the original document before relying on it.
+                </p>
+              )}
               <div className="mt-3 pt-3 border-t border-neutral-200">
                 <div className="flex flex-wrap gap-2">
                   {clause.section && (
                     <div className="px-2 py-1 rounded-md text-xs bg-neutral-100 text-neutral-700">
-                      Section {clause.section}
+                      {formatSection(clause.section)}
                     </div>
                   )}
                   {clause.category && (
@@ -243,6 +293,11 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
                       Page {clause.page}
                     </div>
                   )}
+                  {clause.ocr_confidence != null && (
+                    <div className="px-2 py-1 rounded-md text-xs bg-neutral-100 text-neutral-700">
+                      OCR confidence {clause.ocr_confidence}%
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -280,6 +335,56 @@ const ClauseDetailModal: React.FC<ClauseDetailModalProps> = ({ isOpen, clause, o
           </div>
         </div>
 
+        {clause.library_clause_id != null && clause.library_diff && (
+          <div className="mt-6">
+            <div className="flex items-center mb-4">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-neutral-700 mr-2" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"></path>
+                <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"></path>
+              </svg>
+              <h4 className="font-medium text-lg">Deviation from Standard</h4>
+            </div>
+            <div className="bg-neutral-50 p-4 rounded-md">
+              <div className="flex justify-between items-center mb-3">
+                <span className="text-neutral-700 text-sm">
+                  Compared with <span className="font-medium">{libraryClause?.title ?? 'a library clause that has since been removed'}</span>
+                </span>
+                <span className="font-medium text-primary text-sm">
+                  {Math.round((clause.library_similarity ?? 0) * 100)}% match
+                </span>
+              </div>
+              <DiffText diff={clause.library_diff} />
+              <p className="text-xs text-neutral-500 mt-3">
+                Struck-through text is approved wording the counterparty removed; highlighted text is what they added.
+              </p>
+              {libraryClause?.notes && (
+                <p className="text-sm text-neutral-600 mt-2 italic">{libraryClause.notes}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-neutral-700 mr-2" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <rect x="3" y="3" width="7" height="7"></rect>
+                <rect x="14" y="14" width="7" height="7"></rect>
+                <path d="M10 6.5h4a3 3 0 0 1 3 3V14"></path>
+              </svg>
+              <h4 className="font-medium text-lg">Similar Clauses</h4>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowSimilar(!showSimilar)}>
+              {showSimilar ? 'Hide' : 'More like this'}
+            </Button>
+          </div>
+          {showSimilar && (
+            <div className="bg-neutral-50 p-4 rounded-md">
+              <SimilarClauses clause={clause} onSelectClause={onSelectClause} />
+            </div>
+          )}
+        </div>
+
         <DialogFooter className="mt-6 flex justify-end space-x-2">
           <Button variant="outline" onClick={onClose}>
             Close
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { LibraryClauseType } from '@/types';
+import { RULE_CATEGORIES } from './ComplianceRules';
+import { BookOpen, Pencil, Plus, Trash2 } from 'lucide-react';
+
+const emptyLibraryClause: LibraryClauseType = { category: '', title: '', text: '', notes: '' };
+
+const ClauseLibrary: React.FC = () => {
+  const { toast } = useToast();
+  // The clause being added or edited; no id means a new clause
+  const [editing, setEditing] = useState<LibraryClauseType | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: libraryClauses = [] } = useQuery<LibraryClauseType[]>({
+    queryKey: ['/api/clause-library'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (libraryClause: LibraryClauseType) => {
+      const { id, ...data } = libraryClause;
+      return id === undefined
+        ? await apiRequest('POST', '/api/clause-library', data)
+        : await apiRequest('PUT', `/api/clause-library/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/clause-library'] });
+      setEditing(null);
+      toast({
+        title: 'Library updated',
+        description: 'Contracts analyzed from now on will be compared against this wording.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error saving library clause',
+        description: error.message || 'Failed to save library clause',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest('DELETE', `/api/clause-library/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/clause-library'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error deleting library clause',
+        description: error.message || 'Failed to delete library clause',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const categories = Array.from(new Set(libraryClauses.map((libraryClause) => libraryClause.category)));
+  const canSave = !!editing && !!editing.category.trim() && !!editing.title.trim() && !!editing.text.trim();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-neutral-200 overflow-hidden">
+      <div className="bg-gradient-to-r from-neutral-50 to-white border-b border-neutral-200 p-5">
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-semibold text-neutral-900">Clause Library</h2>
+          <button
+            className="text-primary hover:text-primary-dark transition-colors"
+            onClick={() => setEditing(emptyLibraryClause)}
+            disabled={!!editing}
+            aria-label="Add library clause"
+          >
+            <Plus className="h-6 w-6" />
+          </button>
+        </div>
+        <p className="text-neutral-500 text-sm">
+          Approved standard wording that each analyzed clause is compared against
+        </p>
+      </div>
+
+      <div className="p-5 space-y-4">
+        {editing && (
+          <div className="space-y-2 border border-primary/30 rounded-lg p-3 bg-primary/5">
+            <Input
+              list="library-categories"
+              placeholder="Category"
+              value={editing.category}
+              onChange={(e) => setEditing({ ...editing, category: e.target.value })}
+            />
+            <datalist id="library-categories">
+              {RULE_CATEGORIES.map((category) => <option key={category} value={category} />)}
+            </datalist>
+            <Input
+              placeholder="Title, e.g. Mutual liability cap"
+              value={editing.title}
+              onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+            />
+            <Textarea
+              placeholder="Approved clause text"
+              rows={5}
+              value={editing.text}
+              onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+            />
+            <Textarea
+              placeholder="Notes for reviewers (optional)"
+              rows={2}
+              value={editing.notes ?? ''}
+              onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={!canSave || saveMutation.isPending}
+                onClick={() => saveMutation.mutate({ ...editing, notes: editing.notes?.trim() || null })}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {libraryClauses.length === 0 && !editing ? (
+          <div className="text-center py-6">
+            <BookOpen className="h-8 w-8 text-neutral-300 mx-auto mb-2" />
+            <p className="text-sm text-neutral-500">
+              Add your approved indemnity, liability and confidentiality wording to see how each contract deviates from it.
+            </p>
+          </div>
+        ) : (
+          categories.map((category) => (
+            <div key={category}>
+              <p className="text-xs font-medium text-neutral-500 uppercase tracking-wide mb-1">{category}</p>
+              <ul className="space-y-1">
+                {libraryClauses
+                  .filter((libraryClause) => libraryClause.category === category)
+                  .map((libraryClause) => (
+                    <li key={libraryClause.id} className="border border-neutral-200 rounded-md">
+                      <div className="flex items-center justify-between px-3 py-2">
+                        <button
+                          type="button"
+                          className="text-left text-sm font-medium text-neutral-800 hover:text-primary truncate"
+                          onClick={() => setExpandedId(expandedId === libraryClause.id ? null : libraryClause.id!)}
+                        >
+                          {libraryClause.title}
+                        </button>
+                        <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
+                          <button
+                            type="button"
+                            className="text-neutral-400 hover:text-primary transition-colors"
+                            title="Edit"
+                            disabled={!!editing}
+                            onClick={() => setEditing(libraryClause)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            className="text-neutral-400 hover:text-risk-high transition-colors"
+                            title="Delete"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => deleteMutation.mutate(libraryClause.id!)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                      {expandedId === libraryClause.id && (
+                        <div className="px-3 pb-3 text-sm text-neutral-600 space-y-2">
+                          <p className="whitespace-pre-wrap">{libraryClause.text}</p>
+                          {libraryClause.notes && <p className="text-xs text-neutral-500 italic">{libraryClause.notes}</p>}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClauseLibrary;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ClauseComparisonType } from '@/types';
+import { formatSection } from '@/lib/utils';
+import DiffText from './DiffText';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+interface ClauseRedlineProps {
+  comparison: ClauseComparisonType;
+}
+
+const changeClasses: Record<ClauseComparisonType['change'], { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: 'bg-neutral-100 text-neutral-600' },
+  modified: { label: 'Modified', className: 'bg-primary/10 text-primary' },
+  inserted: { label: 'Inserted', className: 'bg-risk-low/10 text-risk-low' },
+  deleted: { label: 'Deleted', className: 'bg-risk-high/10 text-risk-high' },
+};
+
+const ClauseRedline: React.FC<ClauseRedlineProps> = ({ comparison }) => {
+  const { base, revised, change, riskDelta, complianceChanged } = comparison;
+  const clause = revised ?? base!;
+  const changeStyle = changeClasses[change];
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-4">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${changeStyle.className}`}>
+          {changeStyle.label}
+        </span>
+        {clause.section && (
+          <span className="text-sm font-medium text-neutral-900">
+            {formatSection(clause.section)}
+            {base?.section && revised?.section && base.section !== revised.section && (
+              <span className="text-neutral-500 font-normal"> (was {base.section})</span>
+            )}
+          </span>
+        )}
+        {clause.heading && <span className="text-sm text-neutral-600">{clause.heading}</span>}
+
+        <div className="ml-auto flex items-center gap-2">
+          {riskDelta !== 0 && base && revised && (
+            <span
+              className={`flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                riskDelta > 0 ? 'bg-risk-high/10 text-risk-high' : 'bg-risk-low/10 text-risk-low'
+              }`}
+              title="Risk score change"
+            >
+              {riskDelta > 0 ? <ArrowUp className="h-3 w-3 mr-1" /> : <ArrowDown className="h-3 w-3 mr-1" />}
+              Risk {base.risk_score} → {revised.risk_score}
+            </span>
+          )}
+          {complianceChanged && base && revised && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-risk-medium/10 text-risk-medium">
+              {base.compliance_status} → {revised.compliance_status}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <DiffText diff={comparison.diff} />
+    </div>
+  );
+};
+
+export default ClauseRedline;
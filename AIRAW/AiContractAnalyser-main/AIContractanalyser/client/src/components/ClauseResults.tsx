@@ -1,6 +1,8 @@
 import React, { useState, useMemo } from 'react';
 import { ClauseType, FilterType, SortType } from '@/types';
 import ClauseCard from './ClauseCard';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { riskLevel } from '@shared/riskModel';
 
 interface ClauseResultsProps {
   clauses: ClauseType[];
@@ -15,6 +17,7 @@ const ClauseResults: React.FC<ClauseResultsProps> = ({
 }) => {
   const [filter, setFilter] = useState<FilterType>('all');
   const [sortBy, setSortBy] = useState<SortType>('risk');
+  const riskModel = useRiskModel();
   
   const filteredAndSortedClauses = useMemo(() => {
     // Apply filters
@@ -25,7 +28,7 @@ const ClauseResults: React.FC<ClauseResultsProps> = ({
     } else if (filter === 'non-compliant') {
       result = result.filter(clause => clause.compliance_status === 'Non-Compliant');
     } else if (filter === 'high-risk') {
-      result = result.filter(clause => clause.risk_score >= 7);
+      result = result.filter(clause => riskLevel(clause.risk_score, riskModel) === 'high');
     }
     
     // Apply sorting
@@ -37,25 +40,28 @@ const ClauseResults: React.FC<ClauseResultsProps> = ({
         return (order[a.compliance_status as keyof typeof order] ?? 0) - 
                (order[b.compliance_status as keyof typeof order] ?? 0);
       });
+    } else if (sortBy === 'document') {
+      // Clauses are stored in the order they appear in the contract
+      result.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
     }
     
     return result;
-  }, [clauses, filter, sortBy]);
+  }, [clauses, filter, sortBy, riskModel]);
 
   // Calculate summary stats
   const highRiskCount = useMemo(() => 
-    clauses.filter(clause => clause.risk_score >= 7).length, 
-    [clauses]
+    clauses.filter(clause => riskLevel(clause.risk_score, riskModel) === 'high').length, 
+    [clauses, riskModel]
   );
   
   const mediumRiskCount = useMemo(() => 
-    clauses.filter(clause => clause.risk_score >= 4 && clause.risk_score < 7).length, 
-    [clauses]
+    clauses.filter(clause => riskLevel(clause.risk_score, riskModel) === 'medium').length, 
+    [clauses, riskModel]
   );
   
   const lowRiskCount = useMemo(() => 
-    clauses.filter(clause => clause.risk_score < 4).length, 
-    [clauses]
+    clauses.filter(clause => riskLevel(clause.risk_score, riskModel) === 'low').length, 
+    [clauses, riskModel]
   );
   
   // Calculate compliance stats
@@ -116,6 +122,7 @@ const ClauseResults: React.FC<ClauseResultsProps> = ({
               >
                 <option value="risk">Sort by Risk Score</option>
                 <option value="compliance">Sort by Compliance</option>
+                <option value="document">Document Order</option>
               </select>
               <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-neutral-500">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -1,5 +1,28 @@
-import React, { useState } from 'react';
-import { ComplianceRuleType } from '@/types';
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { riskLevel, type RiskLevel } from '@shared/riskModel';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import RuleImportDialog from './RuleImportDialog';
+import RuleSandbox from './RuleSandbox';
+import { Download, FlaskConical, Upload } from 'lucide-react';
+import {
+  ComplianceRuleKind,
+  ComplianceRuleType,
+  RuleFileFormat,
+  RuleImportResultType,
+  RulesetType,
+  ThresholdOperator,
+  ThresholdUnit
+} from '@/types';
 
 interface ComplianceRulesProps {
   rules: ComplianceRuleType[];
@@ -10,7 +33,7 @@ interface ComplianceRulesProps {
 }
 
 // Predefined categories for compliance rules
-const RULE_CATEGORIES = [
+export const RULE_CATEGORIES = [
   "Payment Terms",
   "Liability",
   "Confidentiality",
@@ -23,23 +46,101 @@ const RULE_CATEGORIES = [
   "General Terms"
 ];
 
+// How each rule type reads its pattern
+const RULE_KINDS: Record<ComplianceRuleKind, { label: string; placeholder: string; help: string }> = {
+  keyword: {
+    label: 'Contains text',
+    placeholder: 'Enter keyword or phrase',
+    help: 'Matches the text anywhere, including inside longer words',
+  },
+  whole_word: {
+    label: 'Whole word or phrase',
+    placeholder: 'e.g. liability',
+    help: 'Matches whole words only, so "liability" does not match "non-liability". End a word with * to match any ending',
+  },
+  regex: {
+    label: 'Regular expression',
+    placeholder: 'e.g. net\s+(60|90)\s+days',
+    help: 'A case-insensitive JavaScript regular expression',
+  },
+  proximity: {
+    label: 'Words near each other',
+    placeholder: 'e.g. indemnif* NEAR/5 "gross negligence"',
+    help: 'Matches when the two terms are within the given number of words, in either order',
+  },
+  boolean: {
+    label: 'Boolean expression',
+    placeholder: 'e.g. indemnif* AND (negligence OR fraud) AND NOT mutual',
+    help: 'Combine words and "phrases" with AND, OR, NOT, NEAR/n and parentheses',
+  },
+  threshold: {
+    label: 'Numeric limit',
+    placeholder: 'e.g. payment OR payable OR invoice*',
+    help: 'Clauses matching this expression must state a value within the limit below',
+  },
+};
+
+const THRESHOLD_UNITS: Record<ThresholdUnit, string> = {
+  days: 'Days',
+  months: 'Months',
+  percent: 'Percent',
+  amount: 'Currency amount',
+};
+
+const RULE_FILE_FORMATS: Record<RuleFileFormat, string> = {
+  csv: 'CSV (spreadsheets)',
+  json: 'JSON',
+  yaml: 'YAML',
+};
+
+/**
+ * Send a rule file to the import endpoint
+ * @param file - The JSON, YAML or CSV file
+ * @param dryRun - Report what would change without saving anything
+ * @returns The import report; a rejected import still returns one, with applied false
+ */
+const importRuleFile = async (file: File, dryRun: boolean): Promise<RuleImportResultType> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('dryRun', String(dryRun));
+
+  const response = await fetch('/api/compliance-rules/import', {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok && !result.entries) {
+    throw new Error(result.message || response.statusText);
+  }
+  return result;
+};
+
+const THRESHOLD_OPERATORS: Record<ThresholdOperator, string> = {
+  '<=': 'at most',
+  '<': 'less than',
+  '>=': 'at least',
+  '>': 'more than',
+  '=': 'exactly',
+};
+
 // Helper functions for risk visualization
-const getRiskColorClass = (score: number): string => {
-  if (score <= 3) return 'bg-risk-low';
-  if (score <= 6) return 'bg-risk-medium';
-  return 'bg-risk-high';
+const riskColorClasses: Record<RiskLevel, string> = {
+  low: 'bg-risk-low',
+  medium: 'bg-risk-medium',
+  high: 'bg-risk-high',
 };
 
-const getRiskTextColorClass = (score: number): string => {
-  if (score <= 3) return 'text-risk-low';
-  if (score <= 6) return 'text-risk-medium';
-  return 'text-risk-high';
+const riskTextColorClasses: Record<RiskLevel, string> = {
+  low: 'text-risk-low',
+  medium: 'text-risk-medium',
+  high: 'text-risk-high',
 };
 
-const getRiskLabel = (score: number): string => {
-  if (score <= 3) return 'Low';
-  if (score <= 6) return 'Medium';
-  return 'High';
+const riskLabels: Record<RiskLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
 };
 
 const ComplianceRules: React.FC<ComplianceRulesProps> = ({ 
@@ -50,6 +151,78 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
   isLoading
 }) => {
   const [expandedRuleId, setExpandedRuleId] = useState<number | null>(null);
+  // The rule open in the test sandbox
+  const [testingRuleId, setTestingRuleId] = useState<number | null>(null);
+  // Patterns being typed, saved on blur so half-written expressions are not rejected mid-keystroke
+  const [draftPatterns, setDraftPatterns] = useState<Record<number, string>>({});
+  const riskModel = useRiskModel();
+
+  const { data: rulesets = [] } = useQuery<RulesetType[]>({
+    queryKey: ['/api/rulesets'],
+  });
+
+  const { toast } = useToast();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // The file being imported, and its dry-run report while waiting for confirmation
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<RuleImportResultType | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async ({ file, dryRun }: { file: File; dryRun: boolean }) => importRuleFile(file, dryRun),
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setImportPreview(result);
+        return;
+      }
+      closeImport();
+      queryClient.invalidateQueries({ queryKey: ['/api/compliance-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rulesets'] });
+      toast({
+        title: result.applied ? 'Rules imported' : 'Nothing was imported',
+        description: result.applied
+          ? `${result.counts.create} created, ${result.counts.update} updated.`
+          : `${result.counts.invalid} invalid rows and ${result.counts.conflict} conflicts.`,
+        variant: result.applied ? undefined : 'destructive',
+      });
+    },
+    onError: (error: any) => {
+      closeImport();
+      toast({
+        title: 'Error importing rules',
+        description: error.message || 'Failed to read the rule file',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setImportFile(file);
+      importMutation.mutate({ file, dryRun: true });
+    }
+  };
+
+  const closeImport = () => {
+    setImportFile(null);
+    setImportPreview(null);
+    if (importInputRef.current) {
+      importInputRef.current.value = '';
+    }
+  };
+
+  // Drop drafts once saved; a rejected pattern stays in the box so it can be corrected
+  useEffect(() => {
+    setDraftPatterns((drafts) => {
+      const remaining = { ...drafts };
+      rules.forEach((rule) => {
+        if (rule.id !== undefined && remaining[rule.id] === rule.keyword) {
+          delete remaining[rule.id];
+        }
+      });
+      return remaining;
+    });
+  }, [rules]);
 
   const toggleRuleExpansion = (id: number | undefined) => {
     if (id !== undefined) {
@@ -58,10 +231,37 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
   };
 
   const handleKeywordChange = (id: number | undefined, value: string) => {
+    if (id !== undefined) {
+      setDraftPatterns({ ...draftPatterns, [id]: value });
+    }
+  };
+
+  const handleKeywordCommit = (id: number | undefined) => {
+    if (id !== undefined && draftPatterns[id] !== undefined) {
+      const rule = rules.find(r => r.id === id);
+      if (rule && rule.keyword !== draftPatterns[id]) {
+        onUpdateRule({ ...rule, keyword: draftPatterns[id] });
+      }
+    }
+  };
+
+  const handleRuleTypeChange = (id: number | undefined, value: string) => {
     if (id !== undefined) {
       const rule = rules.find(r => r.id === id);
       if (rule) {
-        onUpdateRule({ ...rule, keyword: value });
+        const ruleType = value as ComplianceRuleKind;
+        onUpdateRule({
+          ...rule,
+          keyword: draftPatterns[id] ?? rule.keyword,
+          ruleType,
+          // A limit is checked clause by clause, and needs one to start from
+          ...(ruleType === 'threshold' ? {
+            scope: 'clause' as const,
+            thresholdUnit: rule.thresholdUnit ?? 'days',
+            thresholdOperator: rule.thresholdOperator ?? '<=',
+            thresholdValue: rule.thresholdValue ?? 30,
+          } : {}),
+        });
       }
     }
   };
@@ -70,7 +270,19 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
     if (id !== undefined) {
       const rule = rules.find(r => r.id === id);
       if (rule) {
-        onUpdateRule({ ...rule, allowed: value === 'true' });
+        // "Required" rules pass when any clause matches, so they are checked against the whole contract
+        onUpdateRule(value === 'required'
+          ? { ...rule, scope: 'document', allowed: true }
+          : { ...rule, scope: 'clause', allowed: value === 'true' });
+      }
+    }
+  };
+
+  const handleThresholdChange = (id: number | undefined, changes: Partial<ComplianceRuleType>) => {
+    if (id !== undefined) {
+      const rule = rules.find(r => r.id === id);
+      if (rule && (changes.thresholdValue === undefined || !isNaN(changes.thresholdValue as number))) {
+        onUpdateRule({ ...rule, ...changes });
       }
     }
   };
@@ -96,6 +308,15 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
     }
   };
 
+  const handleRulesetChange = (id: number | undefined, value: string) => {
+    if (id !== undefined) {
+      const rule = rules.find(r => r.id === id);
+      if (rule) {
+        onUpdateRule({ ...rule, rulesetId: value ? parseInt(value) : null });
+      }
+    }
+  };
+
   const handleDescriptionChange = (id: number | undefined, value: string) => {
     if (id !== undefined) {
       const rule = rules.find(r => r.id === id);
@@ -105,32 +326,74 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
     }
   };
 
+  const testingRule = rules.find((rule) => rule.id === testingRuleId);
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-neutral-200 overflow-hidden">
       <div className="bg-gradient-to-r from-neutral-50 to-white border-b border-neutral-200 p-5">
         <div className="flex justify-between items-center mb-1">
           <h2 className="text-xl font-semibold text-neutral-900">Compliance Rules</h2>
-          <button 
-            className="text-primary hover:text-primary-dark transition-colors"
-            onClick={onAddRule}
-            disabled={isLoading}
-            aria-label="Add new rule"
-          >
-            <svg 
-              xmlns="http://www.w3.org/2000/svg" 
-              className="h-6 w-6"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+          <div className="flex items-center space-x-3">
+            <input
+              type="file"
+              className="hidden"
+              ref={importInputRef}
+              onChange={handleImportFileChange}
+              accept=".json,.yaml,.yml,.csv"
+            />
+            <button
+              className="text-neutral-400 hover:text-primary transition-colors"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              title="Import rules from JSON, YAML or CSV"
+              aria-label="Import rules"
             >
-              <path 
-                strokeLinecap="round" 
-                strokeLinejoin="round" 
-                strokeWidth={2} 
-                d="M12 9v3m0 0v3m0-3h3m-3 0H9m12 0a9 9 0 11-18 0 9 9 0 0118 0z" 
-              />
-            </svg>
-          </button>
+              <Upload className="h-5 w-5" />
+            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="text-neutral-400 hover:text-primary transition-colors"
+                  disabled={rules.length === 0}
+                  title="Export rules"
+                  aria-label="Export rules"
+                >
+                  <Download className="h-5 w-5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Export rules as</DropdownMenuLabel>
+                {(Object.keys(RULE_FILE_FORMATS) as RuleFileFormat[]).map((format) => (
+                  <DropdownMenuItem key={format} asChild>
+                    <a href={`/api/compliance-rules/export?format=${format}`} download>
+                      {RULE_FILE_FORMATS[format]}
+                    </a>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <button 
+              className="text-primary hover:text-primary-dark transition-colors"
+              onClick={onAddRule}
+              disabled={isLoading}
+              aria-label="Add new rule"
+            >
+              <svg 
+                xmlns="http://www.w3.org/2000/svg" 
+                className="h-6 w-6"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path 
+                  strokeLinecap="round" 
+                  strokeLinejoin="round" 
+                  strokeWidth={2} 
+                  d="M12 9v3m0 0v3m0-3h3m-3 0H9m12 0a9 9 0 11-18 0 9 9 0 0118 0z" 
+                />
+              </svg>
+            </button>
+          </div>
         </div>
         <p className="text-neutral-500 text-sm">
           Define keywords and phrases to check in contracts
@@ -179,18 +442,44 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
             >
               <div className="flex justify-between items-center">
                 <div className="mb-3 flex-grow">
-                  <label className="block text-sm font-medium text-neutral-700 mb-1">
-                    Keyword or phrase
-                  </label>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-neutral-700">
+                      Match
+                    </label>
+                    <select
+                      className="text-xs p-1 rounded border border-neutral-300 bg-white text-neutral-700 outline-none focus:border-primary"
+                      value={rule.ruleType ?? 'keyword'}
+                      onChange={(e) => handleRuleTypeChange(rule.id, e.target.value)}
+                    >
+                      {(Object.keys(RULE_KINDS) as ComplianceRuleKind[]).map((kind) => (
+                        <option key={kind} value={kind}>{RULE_KINDS[kind].label}</option>
+                      ))}
+                    </select>
+                  </div>
                   <input 
                     type="text" 
-                    className="w-full p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all" 
-                    placeholder="Enter keyword or phrase" 
-                    value={rule.keyword}
+                    className={`w-full p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all ${
+                      rule.ruleType && rule.ruleType !== 'keyword' && rule.ruleType !== 'whole_word' ? 'font-mono text-sm' : ''
+                    }`} 
+                    placeholder={RULE_KINDS[rule.ruleType ?? 'keyword'].placeholder} 
+                    value={rule.id !== undefined && draftPatterns[rule.id] !== undefined ? draftPatterns[rule.id] : rule.keyword}
                     onChange={(e) => handleKeywordChange(rule.id, e.target.value)}
+                    onBlur={() => handleKeywordCommit(rule.id)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleKeywordCommit(rule.id)}
                   />
+                  <p className="text-xs text-neutral-500 mt-1">{RULE_KINDS[rule.ruleType ?? 'keyword'].help}</p>
                 </div>
                 <div className="ml-2 flex flex-col items-center">
+                  <button
+                    className={`w-8 h-8 rounded-full flex items-center justify-center hover:text-primary hover:bg-primary/5 transition-colors mb-1 ${
+                      testingRuleId === rule.id ? 'text-primary' : 'text-neutral-400'
+                    }`}
+                    onClick={() => setTestingRuleId(testingRuleId === rule.id ? null : rule.id ?? null)}
+                    title="Test this rule"
+                    aria-label="Test rule"
+                  >
+                    <FlaskConical className="h-5 w-5" />
+                  </button>
                   <button 
                     className="w-8 h-8 rounded-full flex items-center justify-center text-neutral-400 hover:text-primary hover:bg-primary/5 transition-colors mb-1"
                     onClick={() => toggleRuleExpansion(rule.id)}
@@ -237,19 +526,55 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
                 </div>
               </div>
               
-              <div className="mb-3">
-                <label className="block text-sm font-medium text-neutral-700 mb-1">
-                  Status
-                </label>
-                <select 
-                  className="w-full p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all bg-white"
-                  value={rule.allowed.toString()}
-                  onChange={(e) => handleAllowedChange(rule.id, e.target.value)}
-                >
-                  <option value="true">Allowed</option>
-                  <option value="false">Not Allowed</option>
-                </select>
-              </div>
+              {rule.ruleType === 'threshold' ? (
+                <div className="mb-3">
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">
+                    Limit
+                  </label>
+                  <div className="flex space-x-2">
+                    <select
+                      className="p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary outline-none bg-white text-sm"
+                      value={rule.thresholdOperator ?? '<='}
+                      onChange={(e) => handleThresholdChange(rule.id, { thresholdOperator: e.target.value as ThresholdOperator })}
+                    >
+                      {(Object.keys(THRESHOLD_OPERATORS) as ThresholdOperator[]).map((operator) => (
+                        <option key={operator} value={operator}>{THRESHOLD_OPERATORS[operator]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      className="w-24 p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary outline-none text-sm"
+                      value={rule.thresholdValue ?? ''}
+                      onChange={(e) => handleThresholdChange(rule.id, { thresholdValue: parseFloat(e.target.value) })}
+                    />
+                    <select
+                      className="flex-grow p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary outline-none bg-white text-sm"
+                      value={rule.thresholdUnit ?? 'days'}
+                      onChange={(e) => handleThresholdChange(rule.id, { thresholdUnit: e.target.value as ThresholdUnit })}
+                    >
+                      {(Object.keys(THRESHOLD_UNITS) as ThresholdUnit[]).map((unit) => (
+                        <option key={unit} value={unit}>{THRESHOLD_UNITS[unit]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              ) : (
+                <div className="mb-3">
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">
+                    Status
+                  </label>
+                  <select 
+                    className="w-full p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all bg-white"
+                    value={rule.scope === 'document' ? 'required' : rule.allowed.toString()}
+                    onChange={(e) => handleAllowedChange(rule.id, e.target.value)}
+                  >
+                    <option value="true">Allowed</option>
+                    <option value="false">Not Allowed</option>
+                    <option value="required">Required (contract must contain)</option>
+                  </select>
+                </div>
+              )}
               
               {/* Advanced settings (expanded view) */}
               {expandedRuleId === rule.id && (
@@ -273,12 +598,12 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
                     <div className="mt-1 flex items-center">
                       <div className="w-full bg-neutral-200 rounded-full h-2 mr-2">
                         <div 
-                          className={`h-2 rounded-full ${getRiskColorClass(rule.riskScore || 5)}`}
+                          className={`h-2 rounded-full ${riskColorClasses[riskLevel(rule.riskScore || 5, riskModel)]}`}
                           style={{ width: `${((rule.riskScore || 5) / 10) * 100}%` }}
                         ></div>
                       </div>
-                      <span className={`text-xs font-medium ${getRiskTextColorClass(rule.riskScore || 5)}`}>
-                        {getRiskLabel(rule.riskScore || 5)}
+                      <span className={`text-xs font-medium ${riskTextColorClasses[riskLevel(rule.riskScore || 5, riskModel)]}`}>
+                        {riskLabels[riskLevel(rule.riskScore || 5, riskModel)]}
                       </span>
                     </div>
                   </div>
@@ -299,13 +624,31 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
                     </select>
                   </div>
                   
+                  <div>
+                    <label className="block text-sm font-medium text-neutral-700 mb-1">
+                      Ruleset
+                    </label>
+                    <select
+                      className="w-full p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all bg-white"
+                      value={rule.rulesetId ?? ""}
+                      onChange={(e) => handleRulesetChange(rule.id, e.target.value)}
+                    >
+                      <option value="">All contracts</option>
+                      {rulesets.map((ruleset) => (
+                        <option key={ruleset.id} value={ruleset.id}>{ruleset.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  
                   <div>
                     <label className="block text-sm font-medium text-neutral-700 mb-1">
                       Description
                     </label>
                     <textarea
                       className="w-full p-2.5 rounded-md border border-neutral-300 shadow-sm focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none transition-all resize-none"
-                      placeholder="Description of this compliance rule"
+                      placeholder={rule.scope === 'document'
+                        ? 'Finding shown when missing, e.g. No cap on liability found'
+                        : 'Description of this compliance rule'}
                       rows={2}
                       value={rule.description || ""}
                       onChange={(e) => handleDescriptionChange(rule.id, e.target.value)}
@@ -314,24 +657,45 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
                 </div>
               )}
               
-              <div className={`mt-3 pt-3 border-t border-neutral-100 text-xs text-neutral-500 flex ${rule.category ? 'justify-between' : ''} items-center`}>
+              <div className={`mt-3 pt-3 border-t border-neutral-100 text-xs text-neutral-500 flex ${rule.category || rule.rulesetId ? 'justify-between' : ''} items-center`}>
                 <span>
-                  {rule.allowed 
-                    ? <span className="text-risk-low">✓ This content is allowed in contracts</span>
-                    : <span className="text-risk-high">⨯ This content will flag as non-compliant</span>
+                  {rule.ruleType === 'threshold'
+                    ? <span className="text-risk-high">⨯ Values outside the limit will flag as non-compliant</span>
+                    : rule.scope === 'document'
+                      ? <span className="text-risk-medium">! Contracts without a matching clause get a finding</span>
+                      : rule.allowed 
+                        ? <span className="text-risk-low">✓ This content is allowed in contracts</span>
+                        : <span className="text-risk-high">⨯ This content will flag as non-compliant</span>
                   }
                 </span>
                 
-                {rule.category && (
-                  <span className="bg-neutral-100 px-2 py-0.5 rounded text-neutral-600">
-                    {rule.category}
-                  </span>
-                )}
+                <span className="flex items-center space-x-1">
+                  {rule.rulesetId && (
+                    <span className="bg-primary/10 px-2 py-0.5 rounded text-primary">
+                      {rulesets.find((ruleset) => ruleset.id === rule.rulesetId)?.name ?? 'Ruleset'}
+                    </span>
+                  )}
+                  {rule.category && (
+                    <span className="bg-neutral-100 px-2 py-0.5 rounded text-neutral-600">
+                      {rule.category}
+                    </span>
+                  )}
+                </span>
               </div>
             </div>
           ))}
         </div>
         
+        {testingRule && (
+          <div className="mt-4">
+            <RuleSandbox
+              key={testingRule.id}
+              rule={{ ...testingRule, keyword: draftPatterns[testingRule.id!] ?? testingRule.keyword }}
+              onClose={() => setTestingRuleId(null)}
+            />
+          </div>
+        )}
+        
         <div className="mt-5 pt-4 border-t border-neutral-200">
           <button 
             className="w-full bg-gradient-to-r from-primary/90 to-blue-600/90 text-white py-2.5 rounded-lg hover:from-primary hover:to-blue-600 transition-all font-medium flex items-center justify-center shadow-sm"
@@ -356,10 +720,18 @@ const ComplianceRules: React.FC<ComplianceRulesProps> = ({
           </button>
           
           <p className="text-xs text-neutral-500 mt-4 text-center">
-            Rules define what content is allowed or disallowed in your contracts
+            Rules define what content is allowed, disallowed or required in your contracts
           </p>
         </div>
       </div>
+      
+      <RuleImportDialog
+        filename={importFile?.name ?? null}
+        result={importPreview}
+        isApplying={importMutation.isPending}
+        onConfirm={() => importFile && importMutation.mutate({ file: importFile, dryRun: false })}
+        onCancel={closeImport}
+      />
     </div>
   );
 };
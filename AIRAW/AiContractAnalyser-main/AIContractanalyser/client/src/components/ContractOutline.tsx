@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { ClauseType } from '@/types';
+import { formatSection } from '@/lib/utils';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { riskLevel, type RiskLevel } from '@shared/riskModel';
+
+interface ContractOutlineProps {
+  clauses: ClauseType[];
+  onViewDetails: (clause: ClauseType) => void;
+}
+
+interface OutlineNode {
+  section?: string | null;
+  clause?: ClauseType;
+  children: OutlineNode[];
+}
+
+/**
+ * Nest clauses under their parent sections, in document order.
+ * Sections that were only headings have no clause of their own, so they
+ * appear as plain group entries.
+ */
+function buildOutline(clauses: ClauseType[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  // Numbering can restart (e.g. inside a schedule), so a parent is the most recent node with its number
+  const latest = new Map<string, OutlineNode>();
+
+  const ordered = [...clauses].sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  ordered.forEach(clause => {
+    const node: OutlineNode = { section: clause.section, clause, children: [] };
+
+    let parent = clause.parent_section ? latest.get(clause.parent_section) : undefined;
+    if (clause.parent_section && !parent) {
+      parent = { section: clause.parent_section, children: [] };
+      latest.set(clause.parent_section, parent);
+      roots.push(parent);
+    }
+
+    (parent ? parent.children : roots).push(node);
+    if (clause.section) {
+      latest.set(clause.section, node);
+    }
+  });
+
+  return roots;
+}
+
+const riskDotClasses: Record<RiskLevel, string> = {
+  high: 'bg-risk-high',
+  medium: 'bg-risk-medium',
+  low: 'bg-risk-low',
+};
+
+const ContractOutline: React.FC<ContractOutlineProps> = ({ clauses, onViewDetails }) => {
+  const outline = useMemo(() => buildOutline(clauses), [clauses]);
+  const riskModel = useRiskModel();
+
+  const renderNode = (node: OutlineNode, key: string): React.ReactNode => {
+    const { clause } = node;
+    const label = clause?.heading || (clause ? `${clause.clause.slice(0, 60)}${clause.clause.length > 60 ? '...' : ''}` : '');
+
+    return (
+      <li key={key}>
+        {clause ? (
+          <button
+            type="button"
+            className="w-full text-left flex items-start py-1 px-2 rounded hover:bg-neutral-100 transition-colors"
+            onClick={() => onViewDetails(clause)}
+          >
+            <span className={`w-2 h-2 rounded-full mt-1.5 mr-2 flex-shrink-0 ${riskDotClasses[riskLevel(clause.risk_score, riskModel)]}`}></span>
+            <span className="text-sm text-neutral-700">
+              {node.section && <span className="font-medium text-neutral-900 mr-1">{formatSection(node.section)}</span>}
+              {label}
+            </span>
+          </button>
+        ) : (
+          <p className="py-1 px-2 text-sm font-medium text-neutral-900">
+            {node.section && formatSection(node.section)}
+          </p>
+        )}
+        {node.children.length > 0 && (
+          <ul className="pl-4 border-l border-neutral-200 ml-3">
+            {node.children.map((child, i) => renderNode(child, `${key}-${i}`))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  if (clauses.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 border border-neutral-200">
+      <h2 className="text-xl font-medium text-neutral-900 mb-4">Contract Outline</h2>
+      <ul className="space-y-0.5 max-h-96 overflow-y-auto">
+        {outline.map((node, i) => renderNode(node, `${i}`))}
+      </ul>
+    </div>
+  );
+};
+
+export default ContractOutline;
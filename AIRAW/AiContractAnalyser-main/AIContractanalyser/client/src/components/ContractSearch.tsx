@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ClauseType, ContractDocumentType, SearchResultsType, SnippetSegmentType } from '@/types';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { formatSection } from '@/lib/utils';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { RISK_LEVELS, riskLabel, riskRange, type RiskLevel } from '@shared/riskModel';
+import { FileText, Search } from 'lucide-react';
+
+interface ContractSearchProps {
+  documents: ContractDocumentType[];
+  currentDocumentId: string | null;
+  onSelectDocument: (documentId: string) => void;
+  onViewClause: (clause: ClauseType) => void;
+}
+
+// Risk filter options: any score, or one of the risk model's bands
+const riskFilters: ('any' | RiskLevel)[] = ['any', ...RISK_LEVELS];
+
+const complianceStatuses: ClauseType['compliance_status'][] = ['Compliant', 'Non-Compliant', 'Review Needed'];
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+const Snippet: React.FC<{ segments: SnippetSegmentType[] }> = ({ segments }) => (
+  <p className="text-sm text-neutral-600 mt-1">
+    {segments.map((segment, i) =>
+      segment.highlight
+        ? <mark key={i} className="bg-yellow-100 text-neutral-900 rounded px-0.5">{segment.text}</mark>
+        : <span key={i}>{segment.text}</span>
+    )}
+  </p>
+);
+
+const ContractSearch: React.FC<ContractSearchProps> = ({ documents, currentDocumentId, onSelectDocument, onViewClause }) => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [category, setCategory] = useState('');
+  const [risk, setRisk] = useState<'any' | RiskLevel>('any');
+  const [complianceStatus, setComplianceStatus] = useState('any');
+  const [currentOnly, setCurrentOnly] = useState(false);
+  const riskModel = useRiskModel();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (category.trim()) params.set('category', category.trim());
+  if (risk !== 'any') {
+    const range = riskRange(risk, riskModel);
+    params.set('minRisk', String(range.min));
+    params.set('maxRisk', String(range.max));
+  }
+  if (complianceStatus !== 'any') params.set('complianceStatus', complianceStatus);
+  if (currentOnly && currentDocumentId) params.set('documentId', currentDocumentId);
+  const searchParams = params.toString();
+
+  const { data: results, isFetching } = useQuery<SearchResultsType>({
+    queryKey: ['/api/search', searchParams],
+    queryFn: async () => {
+      const response = await fetch(`/api/search?${searchParams}`);
+      if (!response.ok) {
+        throw new Error(`Search failed: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: debouncedQuery.length > 0,
+  });
+
+  const filenameOf = (documentId: string) =>
+    documents.find((document) => document.id === documentId)?.filename ?? 'Deleted document';
+
+  const handleClauseClick = (clause: ClauseType) => {
+    onSelectDocument(clause.document_id);
+    onViewClause(clause);
+  };
+
+  const resultCount = results ? results.clauses.length + results.summaries.length : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 border border-neutral-200 mb-6">
+      <div className="relative">
+        <Search className="h-4 w-4 text-neutral-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <Input
+          className="pl-9"
+          placeholder='Search every contract, e.g. "limitation of liability" or indemnity -mutual'
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-3">
+        <Input
+          className="w-44"
+          placeholder="Any category"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+        />
+        <Select value={risk} onValueChange={(value) => setRisk(value as 'any' | RiskLevel)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {riskFilters.map((value) => (
+              <SelectItem key={value} value={value}>{value === 'any' ? 'Any risk' : riskLabel(value, riskModel)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={complianceStatus} onValueChange={setComplianceStatus}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any status</SelectItem>
+            {complianceStatuses.map((status) => (
+              <SelectItem key={status} value={status}>{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex items-center text-sm text-neutral-600">
+          <Switch
+            className="mr-2"
+            checked={currentOnly}
+            disabled={!currentDocumentId}
+            onCheckedChange={setCurrentOnly}
+          />
+          This contract only
+        </label>
+      </div>
+
+      {debouncedQuery && (
+        <div className="mt-4 border-t border-neutral-200 pt-4">
+          {isFetching && !results ? (
+            <p className="text-sm text-neutral-500">Searching...</p>
+          ) : resultCount === 0 ? (
+            <p className="text-sm text-neutral-500">No matches for "{debouncedQuery}".</p>
+          ) : (
+            <ul className="space-y-3 max-h-96 overflow-y-auto">
+              {results!.summaries.map((hit) => (
+                <li key={`summary-${hit.documentId}`}>
+                  <button
+                    type="button"
+                    className="text-left w-full hover:bg-neutral-50 rounded p-2 transition-colors"
+                    onClick={() => onSelectDocument(hit.documentId)}
+                  >
+                    <div className="flex items-center text-xs text-neutral-500">
+                      <FileText className="h-3.5 w-3.5 mr-1" />
+                      <span className="font-medium text-neutral-700">{filenameOf(hit.documentId)}</span>
+                      <span className="ml-2">Contract summary{hit.title ? ` — ${hit.title}` : ''}</span>
+                    </div>
+                    <Snippet segments={hit.snippet} />
+                  </button>
+                </li>
+              ))}
+              {results!.clauses.map((hit) => (
+                <li key={`clause-${hit.clause.id}`}>
+                  <button
+                    type="button"
+                    className="text-left w-full hover:bg-neutral-50 rounded p-2 transition-colors"
+                    onClick={() => handleClauseClick(hit.clause)}
+                  >
+                    <div className="flex items-center text-xs text-neutral-500">
+                      <FileText className="h-3.5 w-3.5 mr-1" />
+                      <span className="font-medium text-neutral-700">{filenameOf(hit.clause.document_id)}</span>
+                      {hit.clause.section && <span className="ml-2">{formatSection(hit.clause.section)}</span>}
+                      {hit.clause.heading && <span className="ml-1">— {hit.clause.heading}</span>}
+                      <span className="ml-auto">Risk {hit.clause.risk_score}/10 · {hit.clause.compliance_status}</span>
+                    </div>
+                    <Snippet segments={hit.snippet} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContractSearch;
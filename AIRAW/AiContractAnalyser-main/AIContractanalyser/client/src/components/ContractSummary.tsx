@@ -2,6 +2,9 @@ import React from 'react';
 import { Fee } from './FeeTable';
 import FeeDialog from './FeeDialog';
 import FinancialExtractButtons from './FinancialExtractButtons';
+import { CategoryRiskType, MissingClauseType } from '@/types';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { riskLevel, type RiskLevel } from '@shared/riskModel';
 import { 
   FileText, 
   Calendar, 
@@ -37,14 +40,38 @@ export interface ContractSummaryProps {
     keyObligations?: string[];
     confidentialityTerms?: string;
     terminationClauses?: string[];
+    missingClauses?: MissingClauseType[];
+    riskScore?: number | null; // Overall contract risk, from the document
+    riskCategories?: CategoryRiskType[] | null;
   };
+  heading?: string;
+  description?: React.ReactNode;
+  // Off for consolidated terms, which are not extracted from a single document
+  showFinancialExtraction?: boolean;
 }
 
+const riskBadgeClasses: Record<RiskLevel, string> = {
+  high: 'bg-risk-high/10 text-risk-high',
+  medium: 'bg-risk-medium/10 text-risk-medium',
+  low: 'bg-risk-low/10 text-risk-low',
+};
+
+const riskTextClasses: Record<RiskLevel, string> = {
+  high: 'text-risk-high',
+  medium: 'text-risk-medium',
+  low: 'text-risk-low',
+};
+
 const ContractSummary: React.FC<ContractSummaryProps> = ({ 
   documentId, 
   isLoading,
-  summary
+  summary,
+  heading = 'Contract Summary',
+  description = 'AI-powered analysis and extraction of key contract details',
+  showFinancialExtraction = true
 }) => {
+  const riskModel = useRiskModel();
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-neutral-200 overflow-hidden">
       <div className="bg-gradient-to-r from-blue-50 to-white border-b border-neutral-200 p-6">
@@ -54,10 +81,10 @@ const ContractSummary: React.FC<ContractSummaryProps> = ({
           </div>
           <div>
             <h2 className="text-2xl font-bold text-neutral-900 bg-gradient-to-r from-blue-700 to-purple-700 bg-clip-text text-transparent">
-              Contract Summary
+              {heading}
             </h2>
             <p className="text-neutral-500">
-              AI-powered analysis and extraction of key contract details
+              {description}
             </p>
           </div>
         </div>
@@ -88,7 +115,7 @@ const ContractSummary: React.FC<ContractSummaryProps> = ({
         ) : (
           <div className="space-y-8">
             {/* Add financial extraction buttons at the top */}
-            <FinancialExtractButtons documentId={documentId} />
+            {showFinancialExtraction && <FinancialExtractButtons documentId={documentId} />}
             
             {/* Contract title with badge */}
             {summary.title && (
@@ -103,6 +130,47 @@ const ContractSummary: React.FC<ContractSummaryProps> = ({
               </div>
             )}
             
+            {/* Overall contract risk and the categories driving it */}
+            {summary.riskScore != null && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`px-3 py-1 rounded-full text-sm font-semibold ${riskBadgeClasses[riskLevel(summary.riskScore, riskModel)]}`}>
+                  Contract risk {summary.riskScore.toFixed(1)}/10
+                </span>
+                {summary.riskCategories?.slice(0, 3).map((category) => (
+                  <span
+                    key={category.category}
+                    className="px-2 py-0.5 rounded-full text-xs bg-neutral-100 text-neutral-600"
+                    title={`${category.clauses} clauses, ${category.findings} findings`}
+                  >
+                    {category.category} {category.score.toFixed(1)}
+                  </span>
+                ))}
+              </div>
+            )}
+            
+            {/* Required clauses the contract does not contain */}
+            {summary.missingClauses && summary.missingClauses.length > 0 && (
+              <div className="bg-risk-high/5 rounded-xl p-5 border border-risk-high/30">
+                <h4 className="text-base font-semibold text-neutral-800 mb-3 flex items-center">
+                  <ShieldAlert className="h-5 w-5 text-risk-high mr-2" />
+                  Missing Required Clauses
+                </h4>
+                <ul className="space-y-2">
+                  {summary.missingClauses.map((finding) => (
+                    <li key={finding.ruleId} className="flex items-start justify-between">
+                      <div>
+                        <p className="text-neutral-800 font-medium">{finding.message}</p>
+                        <p className="text-xs text-neutral-500">Looked for {finding.rule}</p>
+                      </div>
+                      <span className={`ml-3 shrink-0 text-xs font-medium ${riskTextClasses[riskLevel(finding.riskScore, riskModel)]}`}>
+                        Risk {finding.riskScore}/10
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
             {/* Parties with improved design */}
             {summary.parties && (
               <div className="bg-gradient-to-br from-white to-neutral-50 rounded-xl p-1">
@@ -0,0 +1,23 @@
+import React from 'react';
+import { DiffSegmentType } from '@/types';
+
+interface DiffTextProps {
+  diff: DiffSegmentType[];
+}
+
+// Word-level redline: insertions underlined in green, deletions struck through in red
+const DiffText: React.FC<DiffTextProps> = ({ diff }) => (
+  <p className="text-sm text-neutral-700 whitespace-pre-wrap leading-relaxed">
+    {diff.map((segment, i) => {
+      if (segment.type === 'insert') {
+        return <ins key={i} className="bg-risk-low/15 text-risk-low no-underline">{segment.text}</ins>;
+      }
+      if (segment.type === 'delete') {
+        return <del key={i} className="bg-risk-high/10 text-risk-high">{segment.text}</del>;
+      }
+      return <span key={i}>{segment.text}</span>;
+    })}
+  </p>
+);
+
+export default DiffText;
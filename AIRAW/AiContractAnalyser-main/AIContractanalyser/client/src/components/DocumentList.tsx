@@ -0,0 +1,235 @@
+import React from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { ContractDocumentType, RulesetType } from '@/types';
+import { Link } from 'wouter';
+import { Download, Eye, GitCompare, RefreshCw, Trash2 } from 'lucide-react';
+
+interface DocumentListProps {
+  documents: ContractDocumentType[];
+  currentDocumentId: string | null;
+  onSelectDocument: (documentId: string | null) => void;
+  // Called with the jobs queued to re-check documents against the current rules
+  onReanalyze: (jobs: { documentId: string; jobId: number }[]) => void;
+}
+
+const statusClasses: Record<ContractDocumentType['status'], string> = {
+  processing: 'bg-primary/10 text-primary',
+  analyzed: 'bg-risk-low/10 text-risk-low',
+  failed: 'bg-risk-high/10 text-risk-high',
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const DocumentList: React.FC<DocumentListProps> = ({ documents, currentDocumentId, onSelectDocument, onReanalyze }) => {
+  const { toast } = useToast();
+
+  const { data: rulesets = [] } = useQuery<RulesetType[]>({
+    queryKey: ['/api/rulesets'],
+  });
+
+  const deleteDocumentMutation = useMutation({
+    mutationFn: async (documentId: string) => {
+      await apiRequest('DELETE', `/api/documents/${documentId}`);
+      return documentId;
+    },
+    onSuccess: (documentId) => {
+      if (documentId === currentDocumentId) {
+        onSelectDocument(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/clauses'] });
+      // Links to the deleted document are removed with it
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).match(/^\/api\/documents\/[^/]+\/(relations|effective-terms)$/) !== null,
+      });
+      toast({
+        title: 'Document deleted',
+        description: 'The contract and its analysis have been removed.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error deleting document',
+        description: error.message || 'Failed to delete document',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Re-check one analyzed document, or all of them when no ID is given
+  const reanalyzeMutation = useMutation({
+    mutationFn: async (documentId?: string) => {
+      const res = documentId
+        ? await apiRequest('POST', `/api/documents/${documentId}/reanalyze`)
+        : await apiRequest('POST', '/api/documents/reanalyze');
+      const data = await res.json();
+      return documentId
+        ? [{ documentId, jobId: data.jobId as number }]
+        : data.jobs as { documentId: string; jobId: number }[];
+    },
+    onSuccess: (jobs) => {
+      if (jobs.length === 0) {
+        toast({
+          title: 'Nothing to re-check',
+          description: 'No contracts have finished analysis yet.',
+        });
+        return;
+      }
+      onReanalyze(jobs);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error re-checking contracts',
+        description: error.message || 'Failed to queue re-analysis',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // The version just before a document, for a quick comparison with the last draft
+  const previousVersion = (document: ContractDocumentType) => {
+    if (document.version <= 1) {
+      return undefined;
+    }
+    const rootId = document.versionOf ?? document.id;
+    return documents
+      .filter((other) => (other.id === rootId || other.versionOf === rootId) && other.version < document.version)
+      .sort((a, b) => b.version - a.version)[0];
+  };
+
+  // The ruleset and version a document was analyzed with, e.g. "SaaS playbook v3"
+  const appliedRuleset = (document: ContractDocumentType) => {
+    if (!document.appliedRulesetId) {
+      return undefined;
+    }
+    const name = rulesets.find((ruleset) => ruleset.id === document.appliedRulesetId)?.name ?? 'Deleted ruleset';
+    return `${name} v${document.appliedRulesetVersion ?? 1}`;
+  };
+
+  if (documents.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 border border-neutral-200">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-medium text-neutral-900">Contracts</h2>
+        <button
+          type="button"
+          className="flex items-center text-sm text-primary hover:text-primary-dark transition-colors disabled:opacity-50"
+          title="Re-check every analyzed contract against the current rules"
+          disabled={reanalyzeMutation.isPending || !documents.some((document) => document.status === 'analyzed')}
+          onClick={() => reanalyzeMutation.mutate(undefined)}
+        >
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Re-check all
+        </button>
+      </div>
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {documents.map((document) => (
+          <li
+            key={document.id}
+            className={`flex items-center justify-between rounded-md border px-3 py-2 cursor-pointer transition-colors ${
+              document.id === currentDocumentId
+                ? 'border-primary bg-primary/5'
+                : 'border-neutral-200 hover:bg-neutral-50'
+            }`}
+            onClick={() => onSelectDocument(document.id)}
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-neutral-800 truncate" title={document.filename}>
+                {document.filename}
+                {document.version > 1 && (
+                  <span className="ml-1 text-xs font-normal text-neutral-500">v{document.version}</span>
+                )}
+              </p>
+              <p className="text-xs text-neutral-500">
+                {new Date(document.uploadedAt).toLocaleDateString()} • {formatSize(document.size)}
+                {document.pageCount ? ` • ${document.pageCount} pages` : ''}
+              </p>
+              {(document.contractType || appliedRuleset(document)) && (
+                <p className="text-xs text-neutral-500 truncate">
+                  {[document.contractType, appliedRuleset(document)].filter(Boolean).join(' • ')}
+                </p>
+              )}
+              {document.status === 'failed' && document.error && (
+                <p className="text-xs text-risk-high truncate" title={document.error}>{document.error}</p>
+              )}
+            </div>
+            <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusClasses[document.status]}`}>
+                {document.status}
+              </span>
+              {previousVersion(document) && (
+                <Link
+                  href={`/compare/${previousVersion(document)!.id}/${document.id}`}
+                  className="text-neutral-400 hover:text-primary transition-colors"
+                  title="Compare with previous version"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <GitCompare className="h-4 w-4" />
+                </Link>
+              )}
+              {document.status === 'analyzed' && (
+                <button
+                  type="button"
+                  className="text-neutral-400 hover:text-primary transition-colors"
+                  title="Re-check against current rules"
+                  disabled={reanalyzeMutation.isPending}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    reanalyzeMutation.mutate(document.id);
+                  }}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </button>
+              )}
+              {document.storageKey && (
+                <>
+                  <a
+                    href={`/api/documents/${document.id}/view`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-neutral-400 hover:text-primary transition-colors"
+                    title="View original"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Eye className="h-4 w-4" />
+                  </a>
+                  <a
+                    href={`/api/documents/${document.id}/download`}
+                    className="text-neutral-400 hover:text-primary transition-colors"
+                    title="Download original"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Download className="h-4 w-4" />
+                  </a>
+                </>
+              )}
+              <button
+                type="button"
+                className="text-neutral-400 hover:text-risk-high transition-colors"
+                title="Delete document"
+                disabled={deleteDocumentMutation.isPending}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteDocumentMutation.mutate(document.id);
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DocumentList;
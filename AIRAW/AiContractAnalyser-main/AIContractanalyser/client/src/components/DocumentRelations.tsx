@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ContractDocumentType, DocumentRelationKind, DocumentRelationType } from '@/types';
+import { Link2, X } from 'lucide-react';
+
+interface DocumentRelationsProps {
+  document: ContractDocumentType;
+  documents: ContractDocumentType[];
+  onSelectDocument: (documentId: string) => void;
+}
+
+// How a relation reads from each end
+const relationLabels: Record<DocumentRelationKind, { outgoing: string; incoming: string; option: string }> = {
+  'amendment-of': { outgoing: 'Amends', incoming: 'Amended by', option: 'An amendment of' },
+  'sow-under': { outgoing: 'SOW under', incoming: 'Statement of work', option: 'A statement of work under' },
+  'supersedes': { outgoing: 'Supersedes', incoming: 'Superseded by', option: 'A replacement for' },
+};
+
+const DocumentRelations: React.FC<DocumentRelationsProps> = ({ document, documents, onSelectDocument }) => {
+  const { toast } = useToast();
+  const [relationType, setRelationType] = useState<DocumentRelationKind>('amendment-of');
+  const [relatedDocumentId, setRelatedDocumentId] = useState<string>('');
+  // Left empty, an amendment is numbered after those already linked
+  const [sequence, setSequence] = useState<string>('');
+
+  const { data: relations = [] } = useQuery<DocumentRelationType[]>({
+    queryKey: [`/api/documents/${document.id}/relations`],
+  });
+
+  const invalidateRelations = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).match(/^\/api\/documents\/[^/]+\/(relations|effective-terms)$/) !== null,
+    });
+  };
+
+  const addRelationMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/documents/${document.id}/relations`, {
+        relatedDocumentId,
+        relationType,
+        sequence: relationType === 'amendment-of' && sequence ? parseInt(sequence) : undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidateRelations();
+      setRelatedDocumentId('');
+      setSequence('');
+      toast({
+        title: 'Documents linked',
+        description: 'The relationship has been saved.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error linking documents',
+        description: error.message || 'Failed to link documents',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteRelationMutation = useMutation({
+    mutationFn: async (relationId: number) => {
+      return await apiRequest('DELETE', `/api/document-relations/${relationId}`);
+    },
+    onSuccess: () => {
+      invalidateRelations();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error removing link',
+        description: error.message || 'Failed to remove link',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const filenameOf = (documentId: string) =>
+    documents.find((other) => other.id === documentId)?.filename ?? 'Deleted document';
+
+  const otherDocuments = documents.filter((other) => other.id !== document.id);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 border border-neutral-200">
+      <h2 className="text-xl font-medium text-neutral-900 mb-4">Related Documents</h2>
+
+      {relations.length > 0 ? (
+        <ul className="space-y-2 mb-4">
+          {relations.map((relation) => {
+            const outgoing = relation.documentId === document.id;
+            const otherId = outgoing ? relation.relatedDocumentId : relation.documentId;
+            const labels = relationLabels[relation.relationType];
+            return (
+              <li key={relation.id} className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  className="text-left min-w-0 hover:text-primary transition-colors"
+                  onClick={() => onSelectDocument(otherId)}
+                >
+                  <span className="text-neutral-500 mr-1">{outgoing ? labels.outgoing : labels.incoming}</span>
+                  <span className="font-medium text-neutral-800 truncate">{filenameOf(otherId)}</span>
+                  {relation.sequence != null && (
+                    <span className="text-neutral-500 ml-1">(No. {relation.sequence})</span>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  className="text-neutral-400 hover:text-risk-high transition-colors ml-2 flex-shrink-0"
+                  title="Remove link"
+                  disabled={deleteRelationMutation.isPending}
+                  onClick={() => deleteRelationMutation.mutate(relation.id)}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-neutral-500 mb-4">
+          Link amendments and statements of work to their master agreement to see the terms currently in force.
+        </p>
+      )}
+
+      {otherDocuments.length > 0 && (
+        <div className="space-y-2 border-t border-neutral-200 pt-4">
+          <p className="text-xs font-medium text-neutral-500">This document is</p>
+          <Select value={relationType} onValueChange={(value) => setRelationType(value as DocumentRelationKind)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(relationLabels) as DocumentRelationKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>{relationLabels[kind].option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={relatedDocumentId} onValueChange={setRelatedDocumentId}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select a document" />
+            </SelectTrigger>
+            <SelectContent>
+              {otherDocuments.map((other) => (
+                <SelectItem key={other.id} value={other.id}>{other.filename}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {relationType === 'amendment-of' && (
+            <Input
+              type="number"
+              min={1}
+              placeholder="Amendment number (next if empty)"
+              value={sequence}
+              onChange={(e) => setSequence(e.target.value)}
+            />
+          )}
+          <Button
+            className="w-full"
+            variant="outline"
+            disabled={!relatedDocumentId || addRelationMutation.isPending}
+            onClick={() => addRelationMutation.mutate()}
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            Link Documents
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentRelations;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy } from 'lucide-react';
+import { DuplicateAction, DuplicateMatchType } from '@/types';
+
+interface DuplicateUploadDialogProps {
+  filename: string | null;
+  duplicate: DuplicateMatchType | null;
+  onChoose: (action: DuplicateAction) => void;
+  onCancel: () => void;
+}
+
+const describeMatch = (duplicate: DuplicateMatchType) => {
+  switch (duplicate.match) {
+    case 'exact':
+      return 'is the same file as';
+    case 'text':
+      return 'has the same text as';
+    case 'near':
+      return `is ${Math.round(duplicate.similarity * 100)}% similar to`;
+  }
+};
+
+export default function DuplicateUploadDialog({ filename, duplicate, onChoose, onCancel }: DuplicateUploadDialogProps) {
+  return (
+    <AlertDialog open={!!duplicate} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <div className="flex items-center">
+            <div className="mr-2 h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
+              <Copy className="text-primary h-5 w-5" />
+            </div>
+            <AlertDialogTitle>Contract Already Uploaded</AlertDialogTitle>
+          </div>
+          {duplicate && (
+            <AlertDialogDescription>
+              {filename} {describeMatch(duplicate)} {duplicate.document.filename}, uploaded
+              on {new Date(duplicate.document.uploadedAt).toLocaleDateString()}.
+              You can open the existing analysis, analyze this upload again in its place,
+              or keep both as separate versions of the contract.
+            </AlertDialogDescription>
+          )}
+        </AlertDialogHeader>
+        <AlertDialogFooter className="gap-2">
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={() => onChoose('version')}>
+            Upload as New Version
+          </Button>
+          <Button variant="outline" onClick={() => onChoose('reanalyze')}>
+            Re-analyze
+          </Button>
+          <Button onClick={() => onChoose('reuse')}>
+            Use Existing Analysis
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
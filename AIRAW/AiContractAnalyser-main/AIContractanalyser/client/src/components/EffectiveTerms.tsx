@@ -0,0 +1,66 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { EffectiveTermsType } from '@/types';
+import ContractSummary from './ContractSummary';
+import { Scale } from 'lucide-react';
+
+interface EffectiveTermsProps {
+  documentId: string;
+}
+
+const roleLabels: Record<EffectiveTermsType['applied'][number]['role'], string> = {
+  master: 'master agreement',
+  amendment: 'amendment',
+  sow: 'statement of work',
+  document: 'agreement',
+};
+
+const EffectiveTerms: React.FC<EffectiveTermsProps> = ({ documentId }) => {
+  const { data: effectiveTerms, isLoading } = useQuery<EffectiveTermsType>({
+    queryKey: [`/api/documents/${documentId}/effective-terms`],
+  });
+
+  const description = effectiveTerms ? (
+    <>
+      Consolidated from{' '}
+      {effectiveTerms.applied.map((applied, i) => (
+        <span key={applied.documentId}>
+          {i > 0 && (i === effectiveTerms.applied.length - 1 ? ' and ' : ', ')}
+          <span className="font-medium text-neutral-700">{applied.filename}</span> ({roleLabels[applied.role]})
+        </span>
+      ))}
+      , later entries taking precedence
+    </>
+  ) : 'Terms in force once amendments and statements of work are applied';
+
+  return (
+    <div className="space-y-4">
+      {effectiveTerms?.precedence && (
+        <div className="flex items-start bg-blue-50 border border-blue-100 rounded-lg p-4 text-sm text-neutral-700">
+          <Scale className="h-4 w-4 text-primary mr-2 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">
+              The {effectiveTerms.precedence.prevails === 'sow' ? 'statement of work' : 'master agreement'} prevails where the two conflict
+            </p>
+            <p className="text-neutral-500 mt-1">
+              {effectiveTerms.precedence.clause
+                ? `"${effectiveTerms.precedence.clause}"`
+                : 'No order-of-precedence clause was found, so the more specific statement of work is applied last.'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <ContractSummary
+        documentId={documentId}
+        isLoading={isLoading}
+        summary={effectiveTerms?.summary}
+        heading="Effective Terms"
+        description={description}
+        showFinancialExtraction={false}
+      />
+    </div>
+  );
+};
+
+export default EffectiveTerms;
@@ -1,14 +1,72 @@
 import React, { useState, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AnalysisJobType, ContractDocumentType, RulesetType } from '@/types';
 
 interface FileUploaderProps {
-  onUpload: (file: File) => void;
+  onUpload: (file: File, versionOf?: string, rulesetId?: number) => void;
   isLoading: boolean;
+  job?: AnalysisJobType | null;
+  // Contracts the upload can be attached to as a new version
+  documents?: ContractDocumentType[];
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading }) => {
+// Select value for uploading a standalone contract
+const NEW_CONTRACT = 'new';
+// Select value for letting the server pick the ruleset by contract type
+const AUTO_RULESET = 'auto';
+
+/**
+ * Describe where an analysis job has got to
+ */
+const describeJob = (job: AnalysisJobType): string => {
+  switch (job.status) {
+    case 'queued':
+      return 'Waiting to start...';
+    case 'extracting':
+      return 'Extracting clauses...';
+    case 'analyzing':
+      return job.total > 0 ? `Analyzing clause ${job.progress} of ${job.total}...` : 'Analyzing clauses...';
+    case 'summarizing':
+      return 'Summarizing contract...';
+    case 'done':
+      return 'Analysis complete';
+    case 'failed':
+      return 'Analysis failed';
+    case 'cancelled':
+      return 'Analysis cancelled: the document was deleted';
+  }
+};
+
+/**
+ * Overall completion of a job (0-100), with clause analysis taking up most of the bar
+ */
+const jobPercent = (job: AnalysisJobType): number => {
+  switch (job.status) {
+    case 'queued':
+      return 0;
+    case 'extracting':
+      return 5;
+    case 'analyzing':
+      return 10 + (job.total > 0 ? Math.round((job.progress / job.total) * 80) : 0);
+    case 'summarizing':
+      return 90;
+    default:
+      return 100;
+  }
+};
+
+const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading, job, documents = [] }) => {
   const [file, setFile] = useState<File | null>(null);
+  const [versionOf, setVersionOf] = useState<string>(NEW_CONTRACT);
+  const [rulesetId, setRulesetId] = useState<string>(AUTO_RULESET);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const { data: rulesets = [] } = useQuery<RulesetType[]>({
+    queryKey: ['/api/rulesets'],
+  });
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setFile(e.target.files[0]);
@@ -18,6 +76,8 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading }) => {
 
   const handleRemoveFile = () => {
     setFile(null);
+    setVersionOf(NEW_CONTRACT);
+    setRulesetId(AUTO_RULESET);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -26,7 +86,11 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading }) => {
   const handleUpload = () => {
     if (file) {
       console.log("Starting upload of file:", file.name);
-      onUpload(file);
+      onUpload(
+        file,
+        versionOf === NEW_CONTRACT ? undefined : versionOf,
+        rulesetId === AUTO_RULESET ? undefined : parseInt(rulesetId)
+      );
     }
   };
 
@@ -47,7 +111,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading }) => {
         className="hidden" 
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept=".pdf,.doc,.docx" 
+        accept=".pdf,.doc,.docx,.odt,.rtf,.html,.htm,.md,.markdown,.txt" 
       />
 
       {!file ? (
@@ -71,7 +135,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading }) => {
             />
           </svg>
           <p className="text-neutral-600 mb-1">Click to select or drop your contract here</p>
-          <p className="text-neutral-500 text-sm mb-4">Supports PDF, DOC, DOCX</p>
+          <p className="text-neutral-500 text-sm mb-4">Supports PDF, DOC, DOCX, ODT, RTF, HTML, Markdown, TXT</p>
           
           <button 
             className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark transition-colors"
@@ -129,6 +193,46 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading }) => {
             <p>File selected successfully. Click the button below to start analysis.</p>
           </div>
           
+          {documents.length > 0 && (
+            <div className="mb-4">
+              <p className="text-xs font-medium text-neutral-500 mb-1">Upload as</p>
+              <Select value={versionOf} onValueChange={setVersionOf} disabled={isLoading}>
+                <SelectTrigger className="w-full bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_CONTRACT}>A new contract</SelectItem>
+                  {documents.map((document) => (
+                    <SelectItem key={document.id} value={document.id}>
+                      New version of {document.filename}{document.version > 1 ? ` (v${document.version})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          
+          {rulesets.length > 0 && (
+            <div className="mb-4">
+              <p className="text-xs font-medium text-neutral-500 mb-1">Check against</p>
+              <Select value={rulesetId} onValueChange={setRulesetId} disabled={isLoading}>
+                <SelectTrigger className="w-full bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_RULESET}>
+                    {versionOf === NEW_CONTRACT ? 'Auto-detect by contract type' : 'Same ruleset as the previous version'}
+                  </SelectItem>
+                  {rulesets.map((ruleset) => (
+                    <SelectItem key={ruleset.id} value={ruleset.id!.toString()}>
+                      {ruleset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          
           <button 
             className={`w-full py-3 rounded-md shadow-sm font-medium flex items-center justify-center
                       ${isLoading 
@@ -166,6 +270,16 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading }) => {
               </>
             )}
           </button>
+          
+          {job && job.status !== 'done' && (
+            <div className="mt-4">
+              <div className={`flex justify-between text-sm mb-1 ${job.status === 'failed' ? 'text-risk-high' : 'text-neutral-600'}`}>
+                <span>{describeJob(job)}</span>
+                {job.status !== 'failed' && <span>{jobPercent(job)}%</span>}
+              </div>
+              <Progress value={jobPercent(job)} className="h-2" />
+            </div>
+          )}
         </div>
       )}
       
@@ -173,7 +287,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, isLoading }) => {
       <div className="text-sm text-neutral-500 border-t border-neutral-200 pt-4 mt-2">
         <p className="mb-2">How it works:</p>
         <ol className="list-decimal pl-5 space-y-1">
-          <li>Upload your contract document (PDF, DOC, or DOCX)</li>
+          <li>Upload your contract document (PDF, Word, ODT, RTF, HTML, Markdown or plain text)</li>
           <li>Our AI will extract and analyze all clauses</li>
           <li>Review compliance issues and risk assessment</li>
         </ol>
@@ -0,0 +1,152 @@
+import React, { useEffect } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { formatSection } from '@/lib/utils';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AnalysisJobType, ClauseChangeType, ClauseType, ContractDocumentType, ReanalysisReportType } from '@/types';
+import { ArrowRight, RefreshCw } from 'lucide-react';
+
+interface ReanalysisDialogProps {
+  // The re-check jobs to follow; the dialog is open while there are any
+  jobs: { documentId: string; jobId: number }[];
+  documents: ContractDocumentType[];
+  onClose: () => void;
+}
+
+const statusClasses: Record<ClauseType['compliance_status'], string> = {
+  'Compliant': 'bg-risk-low/10 text-risk-low',
+  'Non-Compliant': 'bg-risk-high/10 text-risk-high',
+  'Review Needed': 'bg-risk-medium/10 text-risk-medium',
+};
+
+const isFinished = (job?: AnalysisJobType) => job?.status === 'done' || job?.status === 'failed' || job?.status === 'cancelled';
+
+const ClauseChange: React.FC<{ change: ClauseChangeType }> = ({ change }) => (
+  <li className="px-3 py-2 space-y-1">
+    <p className="text-xs text-neutral-500 truncate">
+      {change.section ? formatSection(change.section) : `Clause ${change.clauseId}`}
+      {change.heading && ` ${change.heading}`}
+    </p>
+    <div className="flex items-center text-xs space-x-1">
+      <span className={`px-2 py-0.5 rounded-full font-medium ${statusClasses[change.before.compliance_status]}`}>
+        {change.before.compliance_status} · {change.before.risk_score}
+      </span>
+      <ArrowRight className="h-3 w-3 text-neutral-400" />
+      <span className={`px-2 py-0.5 rounded-full font-medium ${statusClasses[change.after.compliance_status]}`}>
+        {change.after.compliance_status} · {change.after.risk_score}
+      </span>
+    </div>
+    {change.addedIssues.map((issue, i) => (
+      <p key={`a${i}`} className="text-xs text-risk-high">+ {issue}</p>
+    ))}
+    {change.resolvedIssues.map((issue, i) => (
+      <p key={`r${i}`} className="text-xs text-risk-low line-through">{issue}</p>
+    ))}
+  </li>
+);
+
+const DocumentReport: React.FC<{ filename: string; report: ReanalysisReportType }> = ({ filename, report }) => {
+  const unchanged = report.changedCount === 0 && report.missingAdded.length === 0 && report.missingResolved.length === 0;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-neutral-800 truncate">{filename}</p>
+      <p className="text-xs text-neutral-500">
+        {unchanged
+          ? `No changes in ${report.clauseCount} clauses`
+          : `${report.changedCount} of ${report.clauseCount} clauses changed`}
+        {Object.entries(report.transitions).map(([transition, count]) => ` · ${transition}: ${count}`).join('')}
+      </p>
+      {report.missingAdded.map((missing) => (
+        <p key={`added-${missing.ruleId}`} className="text-xs text-risk-high">Now missing: {missing.message}</p>
+      ))}
+      {report.missingResolved.map((missing) => (
+        <p key={`resolved-${missing.ruleId}`} className="text-xs text-risk-low">No longer missing: {missing.message}</p>
+      ))}
+      {report.clauses.length > 0 && (
+        <ul className="divide-y divide-neutral-100 border border-neutral-200 rounded-md">
+          {report.clauses.map((change) => (
+            <ClauseChange key={change.clauseId} change={change} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Follows re-checks of stored clauses against the current rules and lists what changed
+ */
+export default function ReanalysisDialog({ jobs, documents, onClose }: ReanalysisDialogProps) {
+  const results = useQueries({
+    queries: jobs.map(({ jobId }) => ({
+      queryKey: [`/api/jobs/${jobId}`],
+      staleTime: 0,
+      // Re-checks run one after another on the server, so poll until each is finished
+      refetchInterval: (query: { state: { data?: AnalysisJobType } }) => isFinished(query.state.data) ? false as const : 1000,
+    })),
+  });
+
+  const finishedJobs = results.filter((result) => isFinished(result.data as AnalysisJobType | undefined)).length;
+  const allFinished = jobs.length > 0 && finishedJobs === jobs.length;
+
+  // Show the new statuses once every document has been re-checked
+  useEffect(() => {
+    if (allFinished) {
+      queryClient.invalidateQueries({ queryKey: ['/api/clauses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/contract-summary'] });
+    }
+  }, [allFinished]);
+
+  const filename = (documentId: string) =>
+    documents.find((document) => document.id === documentId)?.filename ?? 'Deleted document';
+
+  return (
+    <AlertDialog open={jobs.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <div className="flex items-center">
+            <div className="mr-2 h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
+              <RefreshCw className={`text-primary h-5 w-5 ${allFinished ? '' : 'animate-spin'}`} />
+            </div>
+            <AlertDialogTitle>Re-check Against Current Rules</AlertDialogTitle>
+          </div>
+          <AlertDialogDescription>
+            {allFinished
+              ? `Re-checked ${jobs.length} contract${jobs.length === 1 ? '' : 's'}. Clause text and completed checklist items are kept.`
+              : `Re-checking ${finishedJobs + 1} of ${jobs.length} contract${jobs.length === 1 ? '' : 's'}...`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-4">
+          {results.map((result, i) => {
+            const job = result.data as AnalysisJobType | undefined;
+            if (job?.status === 'failed') {
+              return (
+                <p key={jobs[i].jobId} className="text-xs text-risk-high">
+                  {filename(jobs[i].documentId)}: {job.error || 'Re-check failed'}
+                </p>
+              );
+            }
+            return job?.status === 'done' && job.result?.changes ? (
+              <DocumentReport key={jobs[i].jobId} filename={filename(jobs[i].documentId)} report={job.result.changes} />
+            ) : null;
+          })}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Close</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
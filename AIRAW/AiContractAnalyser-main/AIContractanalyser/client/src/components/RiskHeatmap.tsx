@@ -0,0 +1,153 @@
+import React from 'react';
+import { Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip } from '@/components/ui/chart';
+import { ContractDocumentType } from '@/types';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { riskLabel, riskLevel, type RiskLevel } from '@shared/riskModel';
+
+interface RiskHeatmapProps {
+  documents: ContractDocumentType[];
+  onSelectDocument: (documentId: string) => void;
+}
+
+// One cell: a contract's score in one category, or overall
+interface HeatmapCell {
+  documentId: string;
+  category: string;
+  score: number;
+  level: RiskLevel;
+  clauses?: number;
+  findings?: number;
+}
+
+const OVERALL = 'Overall';
+const ROW_HEIGHT = 32;
+const CELL_WIDTH = 44;
+const CELL_HEIGHT = 24;
+
+// Matches the risk colours in the Tailwind theme
+const riskColors = { low: '#22c55e', medium: '#f97316', high: '#ef4444' };
+
+/**
+ * A tile centred on the cell's point, shaded by its risk band and darker the higher the score
+ */
+const HeatmapTile = (props: { cx?: number; cy?: number; payload?: HeatmapCell }) => {
+  const { cx = 0, cy = 0, payload } = props;
+  if (!payload) return <g />;
+  return (
+    <g className="cursor-pointer">
+      <rect
+        x={cx - CELL_WIDTH / 2}
+        y={cy - CELL_HEIGHT / 2}
+        width={CELL_WIDTH}
+        height={CELL_HEIGHT}
+        rx={4}
+        fill={`var(--color-${payload.level})`}
+        fillOpacity={0.3 + 0.07 * payload.score}
+      />
+      <text x={cx} y={cy} dy={4} textAnchor="middle" className="fill-neutral-900 text-[11px] font-medium">
+        {payload.score.toFixed(1)}
+      </text>
+    </g>
+  );
+};
+
+/**
+ * Analyzed contracts against clause categories, coloured by risk, to spot where the portfolio is exposed
+ */
+const RiskHeatmap: React.FC<RiskHeatmapProps> = ({ documents, onSelectDocument }) => {
+  const riskModel = useRiskModel();
+  const chartConfig = {
+    low: { label: riskLabel('low', riskModel), color: riskColors.low },
+    medium: { label: riskLabel('medium', riskModel), color: riskColors.medium },
+    high: { label: riskLabel('high', riskModel), color: riskColors.high },
+  } satisfies ChartConfig;
+
+  const scored = documents.filter((document) => document.riskScore != null);
+  if (scored.length === 0) {
+    return null;
+  }
+
+  const categories = Array.from(new Set(scored.flatMap((document) => (document.riskCategories ?? []).map((risk) => risk.category)))).sort();
+  const cells: HeatmapCell[] = scored.flatMap((document) => [
+    { documentId: document.id, category: OVERALL, score: document.riskScore! },
+    ...(document.riskCategories ?? []).map((risk) => ({ documentId: document.id, ...risk })),
+  ].map((cell) => ({ ...cell, level: riskLevel(cell.score, riskModel) })));
+
+  const label = (documentId: string) => {
+    const document = scored.find((document) => document.id === documentId);
+    if (!document) return '';
+    const name = document.filename.length > 22 ? `${document.filename.slice(0, 21)}…` : document.filename;
+    return document.version > 1 ? `${name} v${document.version}` : name;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 border border-neutral-200 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-medium text-neutral-900">Portfolio Risk</h2>
+        <div className="flex items-center space-x-3 text-xs text-neutral-500">
+          {Object.entries(chartConfig).map(([band, config]) => (
+            <span key={band} className="flex items-center">
+              <span className="h-2.5 w-2.5 rounded-sm mr-1" style={{ backgroundColor: config.color }} />
+              {config.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <ChartContainer
+        config={chartConfig}
+        className="aspect-auto w-full"
+        style={{ height: scored.length * ROW_HEIGHT + 48 }}
+      >
+        <ScatterChart margin={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+          <XAxis
+            type="category"
+            dataKey="category"
+            allowDuplicatedCategory={false}
+            ticks={[OVERALL, ...categories]}
+            domain={[OVERALL, ...categories]}
+            orientation="top"
+            tickLine={false}
+            axisLine={false}
+            interval={0}
+          />
+          <YAxis
+            type="category"
+            dataKey="documentId"
+            allowDuplicatedCategory={false}
+            domain={scored.map((document) => document.id)}
+            tickFormatter={label}
+            tickLine={false}
+            axisLine={false}
+            width={160}
+            interval={0}
+          />
+          <ChartTooltip
+            cursor={false}
+            content={({ active, payload }) => {
+              const cell = payload?.[0]?.payload as HeatmapCell | undefined;
+              if (!active || !cell) return null;
+              return (
+                <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                  <p className="font-medium">{label(cell.documentId)}</p>
+                  <p className="text-muted-foreground">
+                    {cell.category}: {cell.score.toFixed(1)}/10
+                    {cell.clauses !== undefined && ` · ${cell.clauses} clauses, ${cell.findings} findings`}
+                  </p>
+                </div>
+              );
+            }}
+          />
+          <Scatter
+            data={cells}
+            shape={HeatmapTile}
+            isAnimationActive={false}
+            onClick={(point) => onSelectDocument((point.payload as HeatmapCell).documentId)}
+          />
+        </ScatterChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default RiskHeatmap;
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { RISK_LEVELS, riskLabel, riskModelSchema, type RiskModel } from '@shared/riskModel';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface RiskModelSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Weights are edited as rows so a category can be renamed without losing its place
+type WeightRow = { category: string; weight: number };
+
+const toRows = (model: RiskModel): WeightRow[] =>
+  Object.entries(model.categoryWeights).map(([category, weight]) => ({ category, weight }));
+
+const RiskModelSettings: React.FC<RiskModelSettingsProps> = ({ isOpen, onClose }) => {
+  const { toast } = useToast();
+  const riskModel = useRiskModel();
+  const [bands, setBands] = useState(riskModel.bands);
+  const [weights, setWeights] = useState<WeightRow[]>(toRows(riskModel));
+
+  // Start from the saved model each time the settings are opened
+  useEffect(() => {
+    if (isOpen) {
+      setBands(riskModel.bands);
+      setWeights(toRows(riskModel));
+    }
+  }, [isOpen, riskModel]);
+
+  const draft: RiskModel = {
+    bands,
+    categoryWeights: Object.fromEntries(
+      weights.filter((row) => row.category.trim()).map((row) => [row.category.trim(), row.weight])
+    ),
+  };
+  const validation = riskModelSchema.safeParse(draft);
+
+  const onSaved = (model: RiskModel, title: string) => {
+    queryClient.setQueryData(['/api/risk-model'], model);
+    toast({
+      title,
+      description: 'Risk colours and filters use the new bands now. Category weights apply when contracts are next analyzed or re-checked.',
+    });
+    onClose();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (model: RiskModel) => {
+      const res = await apiRequest('PUT', '/api/risk-model', model);
+      return await res.json() as RiskModel;
+    },
+    onSuccess: (model) => onSaved(model, 'Risk model saved'),
+    onError: (error: any) => {
+      toast({
+        title: 'Error saving risk model',
+        description: error.message || 'Failed to save risk model',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', '/api/risk-model');
+      return await res.json() as RiskModel;
+    },
+    onSuccess: (model) => onSaved(model, 'Risk model reset to defaults'),
+    onError: (error: any) => {
+      toast({
+        title: 'Error resetting risk model',
+        description: error.message || 'Failed to reset risk model',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateWeight = (index: number, row: Partial<WeightRow>) => {
+    setWeights(weights.map((existing, i) => (i === index ? { ...existing, ...row } : existing)));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Risk Model</DialogTitle>
+          <DialogDescription>
+            How risk scores (0-10) are grouped into bands, and how much each clause category adds to a score.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div>
+            <h4 className="text-sm font-medium text-neutral-800 mb-2">Risk bands</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs text-neutral-500">
+                Medium risk from
+                <Input
+                  type="number"
+                  min={1}
+                  max={9}
+                  value={bands.medium}
+                  onChange={(e) => setBands({ ...bands, medium: parseInt(e.target.value) || 0 })}
+                />
+              </label>
+              <label className="text-xs text-neutral-500">
+                High risk from
+                <Input
+                  type="number"
+                  min={2}
+                  max={10}
+                  value={bands.high}
+                  onChange={(e) => setBands({ ...bands, high: parseInt(e.target.value) || 0 })}
+                />
+              </label>
+            </div>
+            {validation.success ? (
+              <p className="text-xs text-neutral-500 mt-2">
+                {RISK_LEVELS.map((level) => riskLabel(level, draft)).join(' • ')}
+              </p>
+            ) : (
+              <p className="text-xs text-risk-high mt-2">{validation.error.issues[0]?.message}</p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-neutral-800">Category weights</h4>
+              <button
+                type="button"
+                className="text-primary hover:text-primary-dark transition-colors"
+                onClick={() => setWeights([...weights, { category: '', weight: 1 }])}
+                aria-label="Add category weight"
+              >
+                <Plus className="h-5 w-5" />
+              </button>
+            </div>
+            <ul className="space-y-2 max-h-60 overflow-y-auto">
+              {weights.map((row, i) => (
+                <li key={i} className="flex items-center space-x-2">
+                  <Input
+                    placeholder="Category, e.g. Liability"
+                    value={row.category}
+                    onChange={(e) => updateWeight(i, { category: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={-5}
+                    max={5}
+                    className="w-20"
+                    value={row.weight}
+                    onChange={(e) => updateWeight(i, { weight: parseInt(e.target.value) || 0 })}
+                  />
+                  <button
+                    type="button"
+                    className="text-neutral-400 hover:text-risk-high transition-colors"
+                    title="Remove"
+                    onClick={() => setWeights(weights.filter((_, index) => index !== i))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-neutral-500 mt-2">
+              Points from -5 to 5. Categories not listed add nothing.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            disabled={resetMutation.isPending}
+            onClick={() => resetMutation.mutate()}
+          >
+            Reset to Defaults
+          </Button>
+          <Button
+            disabled={!validation.success || saveMutation.isPending}
+            onClick={() => validation.success && saveMutation.mutate(validation.data)}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RiskModelSettings;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileUp } from 'lucide-react';
+import { RuleImportEntryType, RuleImportResultType } from '@/types';
+
+interface RuleImportDialogProps {
+  filename: string | null;
+  // The dry-run report; the dialog is open while there is one
+  result: RuleImportResultType | null;
+  isApplying: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const actionClasses: Record<RuleImportEntryType['action'], string> = {
+  create: 'bg-risk-low/10 text-risk-low',
+  update: 'bg-primary/10 text-primary',
+  unchanged: 'bg-neutral-100 text-neutral-500',
+  conflict: 'bg-risk-medium/10 text-risk-medium',
+  invalid: 'bg-risk-high/10 text-risk-high',
+};
+
+const describeEntry = (entry: RuleImportEntryType) => {
+  if (entry.message) return entry.message;
+  if (entry.action === 'update') return `Changes ${entry.changes?.join(', ')}`;
+  return null;
+};
+
+export default function RuleImportDialog({ filename, result, isApplying, onConfirm, onCancel }: RuleImportDialogProps) {
+  const problems = result ? result.counts.conflict + result.counts.invalid : 0;
+  const changes = result ? result.counts.create + result.counts.update : 0;
+  // Unchanged rows are left out so the rows that need attention are easy to find
+  const entries = result?.entries.filter((entry) => entry.action !== 'unchanged') ?? [];
+
+  return (
+    <AlertDialog open={!!result} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <div className="flex items-center">
+            <div className="mr-2 h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
+              <FileUp className="text-primary h-5 w-5" />
+            </div>
+            <AlertDialogTitle>Import Compliance Rules</AlertDialogTitle>
+          </div>
+          {result && (
+            <AlertDialogDescription>
+              {filename}: {result.counts.create} to create, {result.counts.update} to update,{' '}
+              {result.counts.unchanged} unchanged, {result.counts.conflict} conflicts and {result.counts.invalid} invalid.
+              {problems > 0 && ' Fix the rows below and choose the file again; nothing is imported while any row has a problem.'}
+            </AlertDialogDescription>
+          )}
+        </AlertDialogHeader>
+
+        {entries.length > 0 && (
+          <ul className="max-h-72 overflow-y-auto divide-y divide-neutral-100 border border-neutral-200 rounded-md text-sm">
+            {entries.map((entry) => (
+              <li key={entry.row} className="px-3 py-2 flex items-start">
+                <span className="text-xs text-neutral-400 w-10 flex-shrink-0 pt-0.5">#{entry.row}</span>
+                <div className="min-w-0 flex-grow">
+                  <p className="font-mono text-xs text-neutral-800 truncate" title={entry.keyword}>
+                    {entry.keyword || '(no pattern)'}
+                    {entry.ruleset && <span className="ml-2 font-sans text-neutral-500">{entry.ruleset}</span>}
+                  </p>
+                  {describeEntry(entry) && <p className="text-xs text-neutral-500">{describeEntry(entry)}</p>}
+                </div>
+                <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium capitalize flex-shrink-0 ${actionClasses[entry.action]}`}>
+                  {entry.action}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <AlertDialogFooter className="gap-2">
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button onClick={onConfirm} disabled={problems > 0 || changes === 0 || isApplying}>
+            {changes === 0 && problems === 0 ? 'Nothing to Import' : `Import ${changes} Rule${changes === 1 ? '' : 's'}`}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
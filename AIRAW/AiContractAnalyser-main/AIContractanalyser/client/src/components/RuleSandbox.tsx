@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { formatSection } from '@/lib/utils';
+import {
+  ClauseType,
+  ComplianceRuleType,
+  RuleTestClausesResultType,
+  RuleTestOutcomeType,
+  RuleTestTextResultType
+} from '@/types';
+import { ArrowRight, FlaskConical, X } from 'lucide-react';
+
+interface RuleSandboxProps {
+  // The rule as currently edited, including a pattern not yet saved
+  rule: ComplianceRuleType;
+  onClose: () => void;
+}
+
+const statusClasses: Record<ClauseType['compliance_status'], string> = {
+  'Compliant': 'bg-risk-low/10 text-risk-low',
+  'Non-Compliant': 'bg-risk-high/10 text-risk-high',
+  'Review Needed': 'bg-risk-medium/10 text-risk-medium',
+};
+
+/**
+ * Text with the stretches a rule matched highlighted
+ */
+const HighlightedText: React.FC<{ text: string; spans: { start: number; end: number }[] }> = ({ text, spans }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  [...spans].sort((a, b) => a.start - b.start).forEach((span, i) => {
+    if (span.start < position) return;
+    parts.push(<span key={`t${i}`}>{text.slice(position, span.start)}</span>);
+    parts.push(<mark key={`m${i}`} className="bg-yellow-100 text-neutral-900 rounded px-0.5">{text.slice(span.start, span.end)}</mark>);
+    position = span.end;
+  });
+  parts.push(<span key="rest">{text.slice(position)}</span>);
+  return <p className="text-sm text-neutral-600 whitespace-pre-wrap">{parts}</p>;
+};
+
+const StatusChange: React.FC<{ before: RuleTestOutcomeType; after: RuleTestOutcomeType }> = ({ before, after }) => (
+  <div className="flex items-center text-xs space-x-1">
+    <span className={`px-2 py-0.5 rounded-full font-medium ${statusClasses[before.compliance_status]}`}>
+      {before.compliance_status} · {before.risk_score}
+    </span>
+    <ArrowRight className="h-3 w-3 text-neutral-400" />
+    <span className={`px-2 py-0.5 rounded-full font-medium ${statusClasses[after.compliance_status]}`}>
+      {after.compliance_status} · {after.risk_score}
+    </span>
+  </div>
+);
+
+const describeMatch = (result: RuleTestTextResultType) => {
+  if (!result.matched) return 'No match';
+  // Expressions that match only through NOT have nothing to highlight
+  if (result.spans.length === 0) return 'Matched';
+  return `Matched ${result.spans.length} time${result.spans.length === 1 ? '' : 's'}`;
+};
+
+const RuleSandbox: React.FC<RuleSandboxProps> = ({ rule, onClose }) => {
+  const [text, setText] = useState('');
+
+  const testMutation = useMutation({
+    mutationFn: async (text?: string) => {
+      const { id, ...draft } = rule;
+      const res = await apiRequest('POST', '/api/compliance-rules/test', { rule: draft, ruleId: id, text });
+      return await res.json() as RuleTestTextResultType | RuleTestClausesResultType;
+    },
+  });
+
+  const result = testMutation.data;
+
+  return (
+    <div className="border border-primary/30 rounded-lg p-4 bg-primary/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-neutral-800 flex items-center">
+          <FlaskConical className="h-4 w-4 mr-1 text-primary" />
+          Test rule <span className="ml-1 font-mono text-xs text-neutral-600 truncate max-w-[12rem]">{rule.keyword || '(no pattern)'}</span>
+        </h3>
+        <button type="button" className="text-neutral-400 hover:text-neutral-700" onClick={onClose} aria-label="Close rule test">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <Textarea
+        placeholder="Paste clause text to test against"
+        rows={3}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="bg-white"
+      />
+      <div className="flex space-x-2">
+        <Button size="sm" disabled={!text.trim() || testMutation.isPending} onClick={() => testMutation.mutate(text)}>
+          Test Text
+        </Button>
+        <Button size="sm" variant="outline" disabled={testMutation.isPending} onClick={() => testMutation.mutate(undefined)}>
+          Test Analyzed Clauses
+        </Button>
+      </div>
+
+      {testMutation.isError && (
+        <p className="text-xs text-risk-high">{(testMutation.error as Error).message}</p>
+      )}
+
+      {result?.mode === 'text' && (
+        <div className="bg-white rounded-md border border-neutral-200 p-3 space-y-2">
+          <p className="text-xs font-medium text-neutral-500">
+            {describeMatch(result)}
+            {result.threshold && ` · found ${result.threshold.value}, limit ${result.threshold.limit}`}
+          </p>
+          {/* The text as tested, which may have been edited since */}
+          <HighlightedText text={testMutation.variables ?? ''} spans={result.spans} />
+          <StatusChange before={result.before} after={result.after} />
+          {result.after.compliance_issues.map((issue, i) => (
+            <p key={i} className="text-xs text-risk-high">{issue.issue}</p>
+          ))}
+        </div>
+      )}
+
+      {result?.mode === 'clauses' && (
+        <div className="space-y-2">
+          <p className="text-xs text-neutral-600">
+            Matches {result.matched} of {result.scanned} analyzed clauses; {result.changed} would change status.
+          </p>
+          {Object.entries(result.transitions).map(([transition, count]) => (
+            <p key={transition} className="text-xs text-neutral-500">{transition}: {count}</p>
+          ))}
+          {result.documents && result.documents.length > 0 && (
+            <ul className="text-xs text-neutral-600 space-y-0.5">
+              {result.documents.map((document) => (
+                <li key={document.documentId}>
+                  {document.filename}: {document.missingAfter ? 'would be missing this clause' : 'no longer missing this clause'}
+                </li>
+              ))}
+            </ul>
+          )}
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {result.clauses.map((clause) => (
+              <li key={clause.clauseId} className="bg-white rounded-md border border-neutral-200 p-3 space-y-2">
+                <p className="text-xs text-neutral-500 truncate">
+                  {clause.filename}
+                  {clause.section && ` · ${formatSection(clause.section)}`}
+                  {clause.heading && ` ${clause.heading}`}
+                </p>
+                <HighlightedText text={clause.clause} spans={clause.spans} />
+                <StatusChange before={clause.before} after={clause.after} />
+              </li>
+            ))}
+          </ul>
+          {result.truncated && (
+            <p className="text-xs text-neutral-500">Showing the first {result.clauses.length} clauses.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RuleSandbox;
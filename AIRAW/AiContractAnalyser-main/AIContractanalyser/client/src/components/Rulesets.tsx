@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ContractType, RulesetType } from '@/types';
+import { Layers, Pencil, Plus, Trash2 } from 'lucide-react';
+
+// Contract types a ruleset can be picked for automatically
+export const CONTRACT_TYPES: ContractType[] = ["NDA", "MSA", "SOW", "SaaS", "DPA", "Employment", "Lease", "License"];
+
+const emptyRuleset: RulesetType = { name: '', description: '', baseRulesetId: null, contractTypes: [] };
+
+const Rulesets: React.FC = () => {
+  const { toast } = useToast();
+  // The ruleset being added or edited; no id means a new ruleset
+  const [editing, setEditing] = useState<RulesetType | null>(null);
+
+  const { data: rulesets = [] } = useQuery<RulesetType[]>({
+    queryKey: ['/api/rulesets'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (ruleset: RulesetType) => {
+      const { id, version, ...data } = ruleset;
+      return id === undefined
+        ? await apiRequest('POST', '/api/rulesets', data)
+        : await apiRequest('PUT', `/api/rulesets/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rulesets'] });
+      setEditing(null);
+      toast({
+        title: 'Ruleset saved',
+        description: 'Contracts analyzed from now on will use this version of the ruleset.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error saving ruleset',
+        description: error.message || 'Failed to save ruleset',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest('DELETE', `/api/rulesets/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rulesets'] });
+      // The ruleset's rules are deleted with it
+      queryClient.invalidateQueries({ queryKey: ['/api/compliance-rules'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error deleting ruleset',
+        description: error.message || 'Failed to delete ruleset',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleContractType = (contractType: ContractType) => {
+    if (editing) {
+      const contractTypes = editing.contractTypes.includes(contractType)
+        ? editing.contractTypes.filter((type) => type !== contractType)
+        : [...editing.contractTypes, contractType];
+      setEditing({ ...editing, contractTypes });
+    }
+  };
+
+  const rulesetName = (id: number | null | undefined) => rulesets.find((ruleset) => ruleset.id === id)?.name;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-neutral-200 overflow-hidden">
+      <div className="bg-gradient-to-r from-neutral-50 to-white border-b border-neutral-200 p-5">
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-semibold text-neutral-900">Rulesets</h2>
+          <button
+            className="text-primary hover:text-primary-dark transition-colors"
+            onClick={() => setEditing(emptyRuleset)}
+            disabled={!!editing}
+            aria-label="Add ruleset"
+          >
+            <Plus className="h-6 w-6" />
+          </button>
+        </div>
+        <p className="text-neutral-500 text-sm">
+          Playbooks of rules for particular kinds of contract, picked at upload or by detected contract type
+        </p>
+      </div>
+
+      <div className="p-5 space-y-4">
+        {editing && (
+          <div className="space-y-2 border border-primary/30 rounded-lg p-3 bg-primary/5">
+            <Input
+              placeholder="Name, e.g. SaaS playbook"
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            />
+            <Textarea
+              placeholder="Description (optional)"
+              rows={2}
+              value={editing.description ?? ''}
+              onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+            />
+            <div>
+              <p className="text-xs font-medium text-neutral-500 mb-1">Inherits rules from</p>
+              <select
+                className="w-full p-2 rounded-md border border-neutral-300 bg-white text-sm outline-none focus:border-primary"
+                value={editing.baseRulesetId ?? ''}
+                onChange={(e) => setEditing({ ...editing, baseRulesetId: e.target.value ? parseInt(e.target.value) : null })}
+              >
+                <option value="">No base ruleset</option>
+                {rulesets
+                  .filter((ruleset) => ruleset.id !== editing.id)
+                  .map((ruleset) => (
+                    <option key={ruleset.id} value={ruleset.id}>{ruleset.name}</option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-neutral-500 mb-1">Use automatically for</p>
+              <div className="flex flex-wrap gap-1">
+                {CONTRACT_TYPES.map((contractType) => (
+                  <button
+                    key={contractType}
+                    type="button"
+                    className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                      editing.contractTypes.includes(contractType)
+                        ? 'bg-primary text-white border-primary'
+                        : 'bg-white text-neutral-600 border-neutral-300 hover:border-primary'
+                    }`}
+                    onClick={() => toggleContractType(contractType)}
+                  >
+                    {contractType}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={!editing.name.trim() || saveMutation.isPending}
+                onClick={() => saveMutation.mutate({ ...editing, description: editing.description?.trim() || null })}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {rulesets.length === 0 && !editing ? (
+          <div className="text-center py-6">
+            <Layers className="h-8 w-8 text-neutral-300 mx-auto mb-2" />
+            <p className="text-sm text-neutral-500">
+              Every rule currently applies to every contract. Add a ruleset to keep, say, NDA rules away from SaaS agreements.
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {rulesets.map((ruleset) => (
+              <li key={ruleset.id} className="border border-neutral-200 rounded-md px-3 py-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-neutral-800 truncate">
+                    {ruleset.name}
+                    <span className="ml-1 text-xs font-normal text-neutral-500">v{ruleset.version ?? 1}</span>
+                  </p>
+                  <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
+                    <button
+                      type="button"
+                      className="text-neutral-400 hover:text-primary transition-colors"
+                      title="Edit"
+                      disabled={!!editing}
+                      onClick={() => setEditing(ruleset)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      className="text-neutral-400 hover:text-risk-high transition-colors"
+                      title="Delete ruleset and its rules"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(ruleset.id!)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                {(ruleset.baseRulesetId || ruleset.contractTypes.length > 0) && (
+                  <p className="text-xs text-neutral-500 mt-0.5">
+                    {[
+                      ruleset.baseRulesetId ? `Based on ${rulesetName(ruleset.baseRulesetId) ?? 'a deleted ruleset'}` : null,
+                      ruleset.contractTypes.length > 0 ? `Used for ${ruleset.contractTypes.join(', ')}` : null,
+                    ].filter(Boolean).join(' • ')}
+                  </p>
+                )}
+                {ruleset.description && <p className="text-xs text-neutral-500 italic mt-0.5">{ruleset.description}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Rulesets;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ClauseType, ContractDocumentType, SimilarClauseType } from '@/types';
+import { formatSection } from '@/lib/utils';
+import { useRiskModel } from '@/hooks/use-risk-model';
+import { riskLevel, type RiskLevel } from '@shared/riskModel';
+
+interface SimilarClausesProps {
+  clause: ClauseType;
+  onSelectClause?: (clause: ClauseType) => void;
+}
+
+const riskClasses: Record<RiskLevel, string> = {
+  high: 'text-risk-high',
+  medium: 'text-risk-medium',
+  low: 'text-risk-low',
+};
+
+const SimilarClauses: React.FC<SimilarClausesProps> = ({ clause, onSelectClause }) => {
+  const riskModel = useRiskModel();
+  const { data: similar = [], isLoading, error } = useQuery<SimilarClauseType[]>({
+    queryKey: [`/api/clauses/${clause.id}/similar`],
+  });
+
+  const { data: documents = [] } = useQuery<ContractDocumentType[]>({
+    queryKey: ['/api/documents'],
+  });
+
+  const filenameOf = (documentId: string) =>
+    documents.find((document) => document.id === documentId)?.filename ?? 'Deleted document';
+
+  if (isLoading) {
+    return <p className="text-neutral-500 text-sm">Finding clauses with the same meaning...</p>;
+  }
+
+  if (error) {
+    return <p className="text-risk-high text-sm">{(error as Error).message}</p>;
+  }
+
+  if (similar.length === 0) {
+    return <p className="text-neutral-600 text-sm">No other clauses have been analyzed yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {similar.map(({ clause: match, similarity }) => (
+        <li key={match.id}>
+          <button
+            type="button"
+            className="text-left w-full bg-white border border-neutral-200 rounded-md p-3 hover:border-primary transition-colors disabled:hover:border-neutral-200"
+            disabled={!onSelectClause}
+            onClick={() => onSelectClause?.(match)}
+          >
+            <div className="flex items-center text-xs text-neutral-500 mb-1">
+              <span className="font-medium text-neutral-700 truncate">{filenameOf(match.document_id)}</span>
+              {match.section && <span className="ml-2 flex-shrink-0">{formatSection(match.section)}</span>}
+              <span className={`ml-auto pl-2 flex-shrink-0 ${riskClasses[riskLevel(match.risk_score, riskModel)]}`}>Risk {match.risk_score}/10</span>
+              <span className="ml-2 flex-shrink-0 font-medium text-primary">{Math.round(similarity * 100)}% similar</span>
+            </div>
+            <p className="text-sm text-neutral-700 line-clamp-3">{match.clause}</p>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SimilarClauses;
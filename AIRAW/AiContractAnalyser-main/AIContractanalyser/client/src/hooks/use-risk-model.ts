@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query"
+import { DEFAULT_RISK_MODEL, type RiskModel } from "@shared/riskModel"
+
+/**
+ * The workspace's risk model, or the default one until it has loaded
+ */
+export function useRiskModel(): RiskModel {
+  const { data } = useQuery<RiskModel>({
+    queryKey: ["/api/risk-model"],
+  })
+
+  return data ?? DEFAULT_RISK_MODEL
+}
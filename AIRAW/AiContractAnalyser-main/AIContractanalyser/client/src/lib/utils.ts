@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// OCR confidence (0-100) below which a scanned clause should be checked against the original
+export const LOW_OCR_CONFIDENCE = 80
+
+// Label a section number for display: "4.2(a)" reads as "Section 4.2(a)", named divisions stand alone
+export function formatSection(section: string) {
+  return /^[\d(]/.test(section) ? `Section ${section}` : section
+}
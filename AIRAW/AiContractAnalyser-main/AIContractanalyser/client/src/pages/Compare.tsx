@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, type RouteComponentProps } from "wouter";
+import { ContractDocumentType, VersionComparisonType } from "@/types";
+import ClauseRedline from "@/components/ClauseRedline";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft } from "lucide-react";
+
+type ChangeFilter = "changes" | "all";
+
+export default function Compare({ params }: RouteComponentProps<{ baseId: string; revisedId: string }>) {
+  const { baseId, revisedId } = params;
+  const [, navigate] = useLocation();
+  const [filter, setFilter] = useState<ChangeFilter>("changes");
+
+  // Every version of the contract, for choosing which two to compare
+  const { data: versions = [] } = useQuery<ContractDocumentType[]>({
+    queryKey: [`/api/documents/${revisedId}/versions`],
+  });
+
+  const { data: comparison, isLoading, error } = useQuery<VersionComparisonType>({
+    queryKey: ["/api/compare", baseId, revisedId],
+    queryFn: async () => {
+      const response = await fetch(`/api/compare?base=${encodeURIComponent(baseId)}&revised=${encodeURIComponent(revisedId)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to compare versions: ${response.statusText}`);
+      }
+      return response.json();
+    },
+  });
+
+  const visibleClauses = (comparison?.clauses ?? []).filter(
+    (clause) => filter === "all" || clause.change !== "unchanged" || clause.riskDelta !== 0 || clause.complianceChanged
+  );
+
+  const versionLabel = (document: ContractDocumentType) =>
+    `v${document.version} — ${document.filename} (${new Date(document.uploadedAt).toLocaleDateString()})`;
+
+  const renderVersionSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            {versionLabel(version)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <header className="mb-6 p-5 bg-white/80 backdrop-blur-sm border border-gray-200 shadow-sm rounded-xl">
+          <Link href="/" className="inline-flex items-center text-sm text-neutral-500 hover:text-primary mb-3">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to contracts
+          </Link>
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">Compare Versions</h1>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs font-medium text-neutral-500 mb-1">Earlier version</p>
+              {renderVersionSelect(baseId, (id) => navigate(`/compare/${id}/${revisedId}`))}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-neutral-500 mb-1">Later version</p>
+              {renderVersionSelect(revisedId, (id) => navigate(`/compare/${baseId}/${id}`))}
+            </div>
+          </div>
+        </header>
+
+        {isLoading && (
+          <div className="text-center text-neutral-500 py-12">Comparing versions...</div>
+        )}
+
+        {error && (
+          <div className="bg-risk-high/10 text-risk-high rounded-lg p-4">{(error as Error).message}</div>
+        )}
+
+        {comparison && (
+          <>
+            <div className="bg-white rounded-lg shadow-sm p-4 border border-neutral-200 mb-4 flex flex-wrap items-center gap-3 text-sm">
+              <span className="text-neutral-700"><strong>{comparison.summary.modified}</strong> modified</span>
+              <span className="text-risk-low"><strong>{comparison.summary.inserted}</strong> inserted</span>
+              <span className="text-risk-high"><strong>{comparison.summary.deleted}</strong> deleted</span>
+              <span className="text-neutral-500"><strong>{comparison.summary.unchanged}</strong> unchanged</span>
+              <span className="text-neutral-300">|</span>
+              <span className="text-risk-high"><strong>{comparison.summary.riskIncreased}</strong> riskier</span>
+              <span className="text-risk-low"><strong>{comparison.summary.riskDecreased}</strong> less risky</span>
+              <span className="text-risk-medium"><strong>{comparison.summary.complianceChanged}</strong> compliance changes</span>
+
+              <div className="ml-auto">
+                <Select value={filter} onValueChange={(value) => setFilter(value as ChangeFilter)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="changes">Changes only</SelectItem>
+                    <SelectItem value="all">All clauses</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {visibleClauses.map((clause, i) => (
+                <ClauseRedline key={`${clause.base?.id ?? ""}-${clause.revised?.id ?? ""}-${i}`} comparison={clause} />
+              ))}
+              {visibleClauses.length === 0 && (
+                <div className="text-center text-neutral-500 py-12">No differences between these versions.</div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,31 @@ import React, { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
-import { ClauseType, ComplianceRuleType } from "@/types";
+import {
+  AnalysisJobType,
+  ClauseType,
+  ComplianceRuleType,
+  ContractDocumentType,
+  DocumentRelationType,
+  DuplicateAction,
+  DuplicateMatchType
+} from "@/types";
 import FileUploader from "@/components/FileUploader";
 import ComplianceRules from "@/components/ComplianceRules";
+import ClauseLibrary from "@/components/ClauseLibrary";
+import Rulesets from "@/components/Rulesets";
 import ClauseResults from "@/components/ClauseResults";
 import ClauseDetailModal from "@/components/ClauseDetailModal";
+import ContractOutline from "@/components/ContractOutline";
+import DocumentList from "@/components/DocumentList";
+import ReanalysisDialog from "@/components/ReanalysisDialog";
+import RiskModelSettings from "@/components/RiskModelSettings";
+import DuplicateUploadDialog from "@/components/DuplicateUploadDialog";
+import DocumentRelations from "@/components/DocumentRelations";
+import EffectiveTerms from "@/components/EffectiveTerms";
+import ContractSearch from "@/components/ContractSearch";
+import RiskHeatmap from "@/components/RiskHeatmap";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ContractSummary, { ContractSummaryProps } from "@/components/ContractSummary";
 import BulletSummary from "@/components/BulletSummary";
 import ResetClausesButton from "@/components/ResetClausesButton";
@@ -15,6 +35,7 @@ import { useToast } from "@/hooks/use-toast";
 export default function Home() {
   const [selectedClause, setSelectedClause] = useState<ClauseType | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const { toast } = useToast();
 
   // Fetch compliance rules
@@ -22,14 +43,52 @@ export default function Home() {
     queryKey: ["/api/compliance-rules"],
   });
 
-  // Fetch clauses if they exist
-  const { data: clauses = [], isLoading: isClausesLoading } = useQuery<ClauseType[]>({
-    queryKey: ["/api/clauses"],
-  });
-  
   // State to track the current document ID
   const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(null);
   
+  // The analysis job of the most recent upload, kept up to date from its progress stream
+  const [analysisJob, setAnalysisJob] = useState<AnalysisJobType | null>(null);
+  const isAnalyzing = !!analysisJob && analysisJob.status !== "done" && analysisJob.status !== "failed" && analysisJob.status !== "cancelled";
+  
+  // Jobs re-checking stored clauses against the current rules, followed in the re-check report
+  const [reanalysisJobs, setReanalysisJobs] = useState<{ documentId: string; jobId: number }[]>([]);
+  
+  // An upload the server matched to an existing document, waiting for the user to decide what to do
+  const [pendingDuplicate, setPendingDuplicate] = useState<{ file: File; rulesetId?: string; duplicate: DuplicateMatchType } | null>(null);
+  
+  // Fetch the documents in the workspace
+  const { data: documents = [] } = useQuery<ContractDocumentType[]>({
+    queryKey: ["/api/documents"],
+  });
+  
+  // Open the most recent contract when the workspace loads
+  useEffect(() => {
+    if (!currentDocumentId && documents.length > 0) {
+      setCurrentDocumentId(documents[0].id);
+    }
+  }, [documents, currentDocumentId]);
+  
+  const currentDocument = documents.find((document) => document.id === currentDocumentId);
+  
+  // Amendment, SOW and supersedes links of the current document
+  const { data: relations = [] } = useQuery<DocumentRelationType[]>({
+    queryKey: [`/api/documents/${currentDocumentId}/relations`],
+    enabled: !!currentDocumentId,
+  });
+  
+  // Fetch the clauses of the current document
+  const { data: clauses = [], isLoading: isClausesLoading } = useQuery<ClauseType[]>({
+    queryKey: ["/api/clauses", currentDocumentId],
+    queryFn: async () => {
+      const response = await fetch(`/api/clauses?documentId=${encodeURIComponent(currentDocumentId!)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch clauses: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: !!currentDocumentId,
+  });
+  
   // Fetch contract summary if a document is selected
   const { data: contractSummary, isLoading: isSummaryLoading } = useQuery<ContractSummaryProps['summary']>({
     queryKey: ["/api/contract-summary", currentDocumentId],
@@ -117,6 +176,8 @@ export default function Home() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/compliance-rules"] });
+      // Rule changes give the ruleset a new version
+      queryClient.invalidateQueries({ queryKey: ["/api/rulesets"] });
       toast({
         title: "Rule added",
         description: "New compliance rule has been added successfully.",
@@ -138,6 +199,8 @@ export default function Home() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/compliance-rules"] });
+      // Rule changes give the ruleset a new version
+      queryClient.invalidateQueries({ queryKey: ["/api/rulesets"] });
       toast({
         title: "Rule updated",
         description: "Compliance rule has been updated successfully.",
@@ -159,6 +222,8 @@ export default function Home() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/compliance-rules"] });
+      // Rule changes give the ruleset a new version
+      queryClient.invalidateQueries({ queryKey: ["/api/rulesets"] });
       toast({
         title: "Rule deleted",
         description: "Compliance rule has been deleted successfully.",
@@ -187,6 +252,12 @@ export default function Home() {
       
       console.log("Upload response status:", response.status);
       
+      // The contract is already in the workspace; ask before analyzing it again
+      if (response.status === 409) {
+        const conflict = await response.json();
+        return { duplicate: conflict.duplicate as DuplicateMatchType };
+      }
+      
       if (!response.ok) {
         const errorText = await response.text();
         console.error("Upload error:", errorText);
@@ -194,32 +265,111 @@ export default function Home() {
       }
       
       const result = await response.json();
-      console.log("Upload success, received clauses:", result.clauses?.length || 0);
+      console.log("Upload accepted, analysis job:", result.jobId);
       return result;
     },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/clauses"] });
+    onSuccess: (data, formData) => {
+      if (data?.duplicate) {
+        setPendingDuplicate({
+          file: formData.get("file") as File,
+          rulesetId: (formData.get("rulesetId") as string | null) ?? undefined,
+          duplicate: data.duplicate
+        });
+        return;
+      }
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       
-      // Set current document ID to trigger summary fetching
       if (data && data.document_id) {
         setCurrentDocumentId(data.document_id);
-        queryClient.invalidateQueries({ queryKey: ["/api/contract-summary", data.document_id] });
       }
-      
-      toast({
-        title: "Contract analyzed",
-        description: "Contract has been uploaded and analyzed successfully.",
-      });
+      if (data?.reused) {
+        toast({
+          title: "Using existing analysis",
+          description: "This contract was already analyzed, so the existing results are shown.",
+        });
+      }
+      if (data && data.jobId) {
+        setAnalysisJob({
+          id: data.jobId,
+          documentId: data.document_id,
+          status: "queued",
+          progress: 0,
+          total: 0,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        });
+      }
     },
     onError: (error) => {
+      // The failed upload is still listed, marked as failed
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       toast({
-        title: "Error analyzing contract",
+        title: "Error uploading contract",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 
+  // Follow the analysis job until it finishes
+  const analysisJobId = isAnalyzing ? analysisJob.id : null;
+  useEffect(() => {
+    if (analysisJobId === null) {
+      return;
+    }
+    
+    const events = new EventSource(`/api/jobs/${analysisJobId}/events`);
+    events.onmessage = (event) => {
+      const job: AnalysisJobType = JSON.parse(event.data);
+      setAnalysisJob(job);
+      
+      if (job.status === "done") {
+        events.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/clauses"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/contract-summary", job.documentId] });
+        
+        // Very long contracts may be cut off at the per-document analysis limit
+        const coverage = job.result?.coverage;
+        // A scan can only be compared once OCR has read it, so it is analyzed before a duplicate shows up;
+        // only one toast is shown at a time, so the notice goes in whichever one is shown
+        const duplicate = job.result?.duplicate;
+        const duplicateNotice = duplicate
+          ? ` It ${duplicate.match === "near" ? `is ${Math.round(duplicate.similarity * 100)}% similar to` : "has the same text as"} ${duplicate.document.filename}, which is already in the workspace.`
+          : "";
+        if (coverage && coverage.ratio < 1) {
+          toast({
+            title: "Contract partially analyzed",
+            description: (coverage.failedChunks
+              ? `Only ${Math.round(coverage.ratio * 100)}% of the contract text could be analyzed. ${coverage.failedChunks} part(s) failed and were split into clauses by paragraph instead${coverage.skippedChunks ? "; clauses past the analysis limit are not included" : ""}.`
+              : `Only ${Math.round(coverage.ratio * 100)}% of the contract text could be analyzed. Clauses past that point are not included.`) + duplicateNotice,
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: duplicate ? "Contract analyzed: possible duplicate" : "Contract analyzed",
+            description: "Contract has been uploaded and analyzed successfully." + duplicateNotice,
+          });
+        }
+      } else if (job.status === "failed") {
+        events.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+        toast({
+          title: "Error analyzing contract",
+          description: job.error || "Analysis failed",
+          variant: "destructive",
+        });
+      } else if (job.status === "cancelled") {
+        // The document was deleted while it was being analyzed
+        events.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      }
+    };
+    
+    return () => events.close();
+  }, [analysisJobId, toast]);
+
   const handleAddRule = () => {
     const newRule = { keyword: "", allowed: true };
     addRuleMutation.mutate(newRule);
@@ -233,14 +383,17 @@ export default function Home() {
     deleteRuleMutation.mutate(ruleId);
   };
 
-  const handleUploadContract = (file: File) => {
+  const handleUploadContract = (file: File, versionOf?: string, rulesetId?: number) => {
     console.log("Uploading file:", file.name);
     
-    // Clear existing clauses before starting new analysis
-    queryClient.setQueryData(["/api/clauses"], []);
-    
     const formData = new FormData();
     formData.append("file", file);
+    if (versionOf) {
+      formData.append("versionOf", versionOf);
+    }
+    if (rulesetId) {
+      formData.append("rulesetId", rulesetId.toString());
+    }
     
     // Log the FormData content to verify
     console.log("FormData created with file:", file.name, file.type, file.size);
@@ -248,11 +401,33 @@ export default function Home() {
     uploadContractMutation.mutate(formData);
   };
 
+  const handleResolveDuplicate = (action: DuplicateAction) => {
+    if (!pendingDuplicate) {
+      return;
+    }
+    
+    const formData = new FormData();
+    formData.append("file", pendingDuplicate.file);
+    formData.append("duplicateAction", action);
+    if (pendingDuplicate.rulesetId) {
+      formData.append("rulesetId", pendingDuplicate.rulesetId);
+    }
+    setPendingDuplicate(null);
+    
+    uploadContractMutation.mutate(formData);
+  };
+
   const handleOpenClauseDetails = (clause: ClauseType) => {
     setSelectedClause(clause);
     setIsDetailModalOpen(true);
   };
 
+  // Jump to a clause found by "more like this", which may belong to another contract
+  const handleOpenSimilarClause = (clause: ClauseType) => {
+    setCurrentDocumentId(clause.document_id);
+    setSelectedClause(clause);
+  };
+
   const handleCloseClauseDetails = () => {
     setIsDetailModalOpen(false);
   };
@@ -297,7 +472,10 @@ export default function Home() {
                 </svg>
                 <span>Help</span>
               </button>
-              <button className="bg-gradient-to-r from-primary to-blue-700 text-white px-3 py-2 rounded-lg shadow-sm flex items-center space-x-2 hover:from-primary-dark hover:to-blue-800 transition-all">
+              <button 
+                className="bg-gradient-to-r from-primary to-blue-700 text-white px-3 py-2 rounded-lg shadow-sm flex items-center space-x-2 hover:from-primary-dark hover:to-blue-800 transition-all"
+                onClick={() => setIsSettingsOpen(true)}
+              >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                   <circle cx="12" cy="12" r="3"></circle>
                   <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z"></path>
@@ -308,12 +486,52 @@ export default function Home() {
           </div>
         </header>
 
+        <ContractSearch 
+          documents={documents}
+          currentDocumentId={currentDocumentId}
+          onSelectDocument={setCurrentDocumentId}
+          onViewClause={handleOpenClauseDetails}
+        />
+
+        <RiskHeatmap 
+          documents={documents}
+          onSelectDocument={setCurrentDocumentId}
+        />
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
           {/* Left column - Upload and Rules */}
           <div className="lg:col-span-4 space-y-6">
             <FileUploader 
               onUpload={handleUploadContract} 
-              isLoading={uploadContractMutation.isPending} 
+              isLoading={uploadContractMutation.isPending || isAnalyzing} 
+              job={analysisJob}
+              documents={documents}
+            />
+            
+            <DocumentList 
+              documents={documents}
+              currentDocumentId={currentDocumentId}
+              onSelectDocument={setCurrentDocumentId}
+              onReanalyze={setReanalysisJobs}
+            />
+            
+            <ReanalysisDialog 
+              jobs={reanalysisJobs}
+              documents={documents}
+              onClose={() => setReanalysisJobs([])}
+            />
+            
+            {currentDocument && (
+              <DocumentRelations 
+                document={currentDocument}
+                documents={documents}
+                onSelectDocument={setCurrentDocumentId}
+              />
+            )}
+            
+            <ContractOutline 
+              clauses={clauses}
+              onViewDetails={handleOpenClauseDetails}
             />
             
             <ComplianceRules 
@@ -323,6 +541,10 @@ export default function Home() {
               onDeleteRule={handleDeleteRule}
               isLoading={addRuleMutation.isPending || updateRuleMutation.isPending || deleteRuleMutation.isPending}
             />
+            
+            <Rulesets />
+            
+            <ClauseLibrary />
           </div>
           
           {/* Right column - Extracted Clauses and Summary */}
@@ -330,11 +552,31 @@ export default function Home() {
             {/* Contract Summary Section (conditionally displayed) */}
             {currentDocumentId && (
               <>
-                <ContractSummary 
-                  documentId={currentDocumentId}
-                  isLoading={isSummaryLoading}
-                  summary={contractSummary}
-                />
+                {relations.length > 0 ? (
+                  // Linked documents also get the consolidated terms in force
+                  <Tabs defaultValue="document">
+                    <TabsList className="mb-2">
+                      <TabsTrigger value="document">This Document</TabsTrigger>
+                      <TabsTrigger value="effective">Effective Terms</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="document">
+                      <ContractSummary 
+                        documentId={currentDocumentId}
+                        isLoading={isSummaryLoading}
+                        summary={contractSummary}
+                      />
+                    </TabsContent>
+                    <TabsContent value="effective">
+                      <EffectiveTerms documentId={currentDocumentId} />
+                    </TabsContent>
+                  </Tabs>
+                ) : (
+                  <ContractSummary 
+                    documentId={currentDocumentId}
+                    isLoading={isSummaryLoading}
+                    summary={contractSummary}
+                  />
+                )}
                 
                 {/* Bullet Summary */}
                 <BulletSummary documentId={currentDocumentId} />
@@ -350,7 +592,7 @@ export default function Home() {
               
               <ClauseResults 
                 clauses={clauses} 
-                isLoading={isClausesLoading || uploadContractMutation.isPending}
+                isLoading={isClausesLoading || uploadContractMutation.isPending || (isAnalyzing && analysisJob.documentId === currentDocumentId)}
                 onViewDetails={handleOpenClauseDetails}
               />
             </div>
@@ -363,9 +605,24 @@ export default function Home() {
             isOpen={isDetailModalOpen} 
             clause={selectedClause}
             onClose={handleCloseClauseDetails}
+            onSelectClause={handleOpenSimilarClause}
           />
         )}
         
+        {/* Risk bands and category weights */}
+        <RiskModelSettings 
+          isOpen={isSettingsOpen}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+        
+        {/* Choice for an upload that duplicates an existing contract */}
+        <DuplicateUploadDialog 
+          filename={pendingDuplicate?.file.name ?? null}
+          duplicate={pendingDuplicate?.duplicate ?? null}
+          onChoose={handleResolveDuplicate}
+          onCancel={() => setPendingDuplicate(null)}
+        />
+        
         {/* Footer */}
         <footer className="mt-12 text-center text-sm text-neutral-500">
           <p>
@@ -1,25 +1,317 @@
+import type { ContractSummaryProps } from '@/components/ContractSummary';
+
 export interface ClauseType {
   id?: number;
   clause: string;
-  section?: string;
+  section?: string | null;
+  heading?: string | null;
+  parent_section?: string | null; // Section number of the enclosing section, used to build the outline
   page?: number;
   category?: string;
   risk_score: number;
   compliance_status: "Compliant" | "Non-Compliant" | "Review Needed";
   document_id: string;
   completed?: boolean;
+  ocr_confidence?: number | null; // Average OCR word confidence (0-100) when the clause was read from a scan
+  library_clause_id?: number | null; // Closest approved clause in the library
+  library_similarity?: number | null; // Word overlap with that library clause (0-1)
+  library_diff?: DiffSegmentType[] | null; // Edits that turn the library text into this clause
   tags?: string[];
   recommendations?: Recommendation[];
   compliance_issues?: ComplianceIssue[];
+  risk_factors?: RiskFactorType[] | null; // What the risk score is made of; absent when scored by AI
+}
+
+// One contribution to a clause's risk score
+export interface RiskFactorType {
+  kind: "rule" | "category" | "indicator";
+  label: string;
+  points: number; // Negative for wording that lowers the risk
+}
+
+export interface ContractDocumentType {
+  id: string;
+  filename: string;
+  mimetype: string;
+  size: number;
+  contentHash: string;
+  storageKey?: string | null; // Set once the original file has been stored
+  uploadedAt: string;
+  status: "processing" | "analyzed" | "failed";
+  pageCount?: number | null;
+  error?: string | null; // Why analysis failed
+  versionOf?: string | null; // ID of the first version of this contract
+  version: number;
+  rulesetId?: number | null; // Ruleset chosen at upload; null to pick by contract type
+  contractType?: ContractType | null; // Detected when the document was analyzed
+  appliedRulesetId?: number | null; // Ruleset the analysis used
+  appliedRulesetVersion?: number | null; // Its version at the time
+  riskScore?: number | null; // Overall contract risk (0-10), set by analysis
+  riskCategories?: CategoryRiskType[] | null;
+}
+
+// How risky one category of a contract's clauses is
+export interface CategoryRiskType {
+  category: string;
+  score: number;
+  clauses: number;
+  findings: number; // Compliance issues and missing required clauses
+}
+
+export type DuplicateAction = "reuse" | "reanalyze" | "version";
+
+// Returned with a 409 when an upload is a file already in the workspace, or with the analysis job's result
+// when its text matches one
+export interface DuplicateMatchType {
+  document: ContractDocumentType;
+  match: "exact" | "text" | "near";
+  similarity: number;
+}
+
+// "cancelled" arrives on the progress stream when the document is deleted mid-analysis
+export type AnalysisJobStatus = "queued" | "extracting" | "analyzing" | "summarizing" | "done" | "failed" | "cancelled";
+
+export interface AnalysisJobType {
+  id: number;
+  documentId: string;
+  kind?: "full" | "rules"; // Full analysis, or stored clauses re-checked against the current rules
+  status: AnalysisJobStatus;
+  progress: number; // Clauses analyzed so far
+  total: number; // Clauses to analyze
+  error?: string | null;
+  result?: {
+    clauseCount: number;
+    coverage?: {
+      analyzedChars: number;
+      totalChars: number;
+      ratio: number;
+      chunks: number;
+      skippedChunks: number; // Past the per-document limit, not analyzed at all
+      failedChunks?: number; // The model failed on these, so they were split into clauses without it
+    };
+    changes?: ReanalysisReportType;
+    duplicate?: DuplicateMatchType; // A scan matching a document already in the workspace, found once OCR had read it
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DocumentRelationKind = "amendment-of" | "sow-under" | "supersedes";
+
+export interface DocumentRelationType {
+  id: number;
+  documentId: string; // The amendment, SOW or superseding document
+  relatedDocumentId: string; // The document it amends, sits under or supersedes
+  relationType: DocumentRelationKind;
+  sequence?: number | null; // Amendments: the order they apply in, e.g. 2 for Amendment No. 2
+  createdAt: string;
+}
+
+export interface EffectiveTermsType {
+  documentId: string;
+  summary: NonNullable<ContractSummaryProps['summary']> & { documentId: string };
+  // The document each summary field's current value came from
+  sources: Partial<Record<keyof NonNullable<ContractSummaryProps['summary']>, string>>;
+  // Documents whose terms were applied, lowest precedence first
+  applied: { documentId: string; filename: string; role: "master" | "amendment" | "sow" | "document" }[];
+  superseded: string[];
+  precedence?: {
+    prevails: "master" | "sow";
+    clause?: string;
+    documentId?: string;
+  };
+}
+
+export interface DiffSegmentType {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface ClauseComparisonType {
+  change: "unchanged" | "modified" | "inserted" | "deleted";
+  base?: ClauseType;
+  revised?: ClauseType;
+  similarity: number;
+  diff: DiffSegmentType[];
+  riskDelta: number; // Revised risk score minus base risk score
+  complianceChanged: boolean;
+}
+
+export interface VersionComparisonType {
+  base: ContractDocumentType;
+  revised: ContractDocumentType;
+  summary: {
+    unchanged: number;
+    modified: number;
+    inserted: number;
+    deleted: number;
+    riskIncreased: number;
+    riskDecreased: number;
+    complianceChanged: number;
+  };
+  clauses: ClauseComparisonType[];
+}
+
+// A clause from anywhere in the portfolio, ranked by closeness of meaning
+export interface SimilarClauseType {
+  clause: ClauseType;
+  similarity: number; // Cosine similarity, 1 for identical meaning
+}
+
+// A run of search snippet text, highlighted where it matched the query
+export interface SnippetSegmentType {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResultsType {
+  clauses: {
+    clause: ClauseType;
+    rank: number;
+    snippet: SnippetSegmentType[];
+  }[];
+  summaries: {
+    documentId: string;
+    title: string | null;
+    rank: number;
+    snippet: SnippetSegmentType[];
+  }[];
+}
+
+// Approved standard language that analyzed clauses are compared against
+export interface LibraryClauseType {
+  id?: number;
+  category: string;
+  title: string;
+  text: string;
+  notes?: string | null;
 }
 
+// How a rule's keyword is matched: plain substring, whole words, a regular expression,
+// words within n of each other (a NEAR/5 b) or an AND/OR/NOT expression
+export type ComplianceRuleKind = "keyword" | "whole_word" | "regex" | "proximity" | "boolean" | "threshold";
+
+// What a threshold rule reads from a clause, and how it compares the value to its limit
+export type ThresholdUnit = "days" | "months" | "percent" | "amount";
+export type ThresholdOperator = "<" | "<=" | ">" | ">=" | "=";
+
+// "document" rules are "must contain" rules checked once against the whole contract
+export type ComplianceRuleScope = "clause" | "document";
+
 export interface ComplianceRuleType {
   id?: number;
-  keyword: string;
+  keyword: string; // The keyword, regular expression or expression, depending on ruleType
+  ruleType?: ComplianceRuleKind;
+  scope?: ComplianceRuleScope;
   allowed: boolean;
   riskScore?: number; // Risk score assigned to violations of this rule (1-10)
   category?: string; // Category of the rule (e.g., "Payment Terms", "Liability", "Confidentiality")
   description?: string; // Detailed description of the rule
+  thresholdUnit?: ThresholdUnit | null; // Threshold rules only: the value read from matching clauses
+  thresholdOperator?: ThresholdOperator | null;
+  thresholdValue?: number | null; // The limit, in thresholdUnit
+  rulesetId?: number | null; // The ruleset the rule belongs to; null applies it to every contract
+}
+
+export type ContractType = "NDA" | "MSA" | "SOW" | "SaaS" | "DPA" | "Employment" | "Lease" | "License";
+
+// A playbook of rules, optionally built on a base ruleset and used for the contract types it lists
+export interface RulesetType {
+  id?: number;
+  name: string;
+  description?: string | null;
+  baseRulesetId?: number | null;
+  contractTypes: ContractType[];
+  version?: number; // Goes up whenever the ruleset or one of its rules changes
+}
+
+export type RuleFileFormat = "json" | "yaml" | "csv";
+
+// What importing one row of a rule file does, or would do on a dry run
+export interface RuleImportEntryType {
+  row: number; // 1-based, counting data rows only
+  action: "create" | "update" | "unchanged" | "conflict" | "invalid";
+  keyword: string;
+  ruleset: string | null; // Ruleset name, null for rules shared by every contract
+  ruleId?: number;
+  changes?: string[]; // Fields an update changes
+  message?: string; // Why the row is a conflict or invalid
+}
+
+export interface RuleImportResultType {
+  dryRun: boolean;
+  applied: boolean;
+  entries: RuleImportEntryType[];
+  counts: Record<RuleImportEntryType["action"], number>;
+}
+
+// Basic analysis of a clause in the rule sandbox
+export interface RuleTestOutcomeType {
+  compliance_status: ClauseType["compliance_status"];
+  risk_score: number;
+  compliance_issues: ComplianceIssue[];
+}
+
+// A draft rule tried on pasted text: where it matched, and the analysis with the current rules and with the draft
+export interface RuleTestTextResultType {
+  mode: "text";
+  matched: boolean;
+  spans: { start: number; end: number; text: string }[];
+  threshold?: { value: string; limit: string; passed: boolean };
+  before: RuleTestOutcomeType;
+  after: RuleTestOutcomeType;
+}
+
+export interface RuleTestClauseType extends Omit<RuleTestTextResultType, "mode"> {
+  clauseId: number;
+  documentId: string;
+  filename: string;
+  section: string | null;
+  heading: string | null;
+  clause: string;
+}
+
+// A draft rule tried on every analyzed clause
+export interface RuleTestClausesResultType {
+  mode: "clauses";
+  scanned: number;
+  matched: number;
+  changed: number; // Clauses whose status would change
+  transitions: Record<string, number>; // e.g. { "Compliant → Non-Compliant": 3 }
+  clauses: RuleTestClauseType[];
+  truncated: boolean;
+  documents?: { documentId: string; filename: string; missingBefore: boolean; missingAfter: boolean }[];
+}
+
+// A required clause the contract does not contain
+export interface MissingClauseType {
+  ruleId: number;
+  rule: string; // What the rule looks for
+  category?: string;
+  riskScore: number;
+  message: string; // e.g. "No cap on liability found"
+}
+
+// How one clause's analysis changed when it was re-checked against the current rules
+export interface ClauseChangeType {
+  clauseId: number;
+  section: string | null;
+  heading: string | null;
+  before: { compliance_status: ClauseType['compliance_status']; risk_score: number; category: string | null };
+  after: { compliance_status: ClauseType['compliance_status']; risk_score: number; category: string | null };
+  addedIssues: string[];
+  resolvedIssues: string[];
+}
+
+export interface ReanalysisReportType {
+  clauseCount: number;
+  changedCount: number;
+  transitions: Record<string, number>; // e.g. { "Compliant → Non-Compliant": 2 }
+  clauses: ClauseChangeType[];
+  missingAdded: MissingClauseType[];
+  missingResolved: MissingClauseType[];
+  rulesetBefore: { id: number; version: number } | null;
+  rulesetAfter: { id: number; version: number } | null;
 }
 
 export interface Recommendation {
@@ -31,6 +323,8 @@ export interface ComplianceIssue {
   issue: string;
   rule?: string;
   description: string;
+  value?: string; // Threshold rules: the value found in the clause
+  limit?: string; // Threshold rules: what the rule allows
 }
 
 export interface RiskAssessment {
@@ -40,4 +334,4 @@ export interface RiskAssessment {
 }
 
 export type FilterType = "all" | "compliant" | "non-compliant" | "high-risk";
-export type SortType = "risk" | "compliance";
+export type SortType = "risk" | "compliance" | "document";
@@ -0,0 +1,90 @@
+import { Readable } from "stream";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { AnalysisJob, AnalysisJobStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { enqueueAnalysis, jobEvents } from "./analysis";
+
+// The OpenAI client is created on import and needs a key; it is removed again so analysis stays local
+vi.hoisted(() => {
+  process.env.OPENAI_API_KEY = "test";
+});
+
+// The database storage needs DATABASE_URL, so run against the in-memory one
+vi.mock("./db-storage", () => ({ DatabaseStorage: class {} }));
+vi.mock("./storage", async importOriginal => {
+  const actual = await importOriginal<typeof import("./storage")>();
+  return { ...actual, storage: new actual.MemStorage() };
+});
+vi.mock("./blob-store", () => ({
+  blobStore: { get: async () => ({ stream: Readable.from([Buffer.from(contractText)]) }) },
+}));
+vi.mock("./embeddings", () => ({ embedClauses: async () => [] }));
+
+const contractText = [
+  "1. Services. The Supplier shall provide the Services described in Schedule 1.",
+  "2. Payment. The Customer shall pay each invoice within 30 days.",
+  "3. Confidentiality. Each party shall keep the other's information confidential.",
+  "4. Termination. Either party may terminate on 30 days' written notice.",
+].join("\n\n");
+
+const finished: AnalysisJobStatus[] = ["done", "failed", "cancelled"];
+
+/**
+ * Upload a document and run its analysis job, calling back on every progress event
+ * @returns Every status the job reported, ending with how it finished
+ */
+async function runAnalysis(documentId: string, onEvent: (job: AnalysisJob) => void = () => {}): Promise<AnalysisJobStatus[]> {
+  await storage.createDocument({
+    id: documentId,
+    filename: `${documentId}.txt`,
+    mimetype: "text/plain",
+    size: contractText.length,
+    contentHash: documentId,
+    // Already fingerprinted by the upload route
+    textHash: documentId,
+    storageKey: documentId,
+  });
+
+  const job = await enqueueAnalysis(documentId);
+  const statuses: AnalysisJobStatus[] = [];
+  return new Promise(resolve => {
+    const listener = (update: AnalysisJob) => {
+      statuses.push(update.status as AnalysisJobStatus);
+      onEvent(update);
+      if (finished.includes(update.status as AnalysisJobStatus)) {
+        jobEvents.off(`job:${job.id}`, listener);
+        resolve(statuses);
+      }
+    };
+    jobEvents.on(`job:${job.id}`, listener);
+  });
+}
+
+describe("analysis jobs", () => {
+  beforeAll(() => {
+    delete process.env.OPENAI_API_KEY;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("analyzes a document and stores its clauses", async () => {
+    const statuses = await runAnalysis("complete");
+
+    expect(statuses[statuses.length - 1]).toBe("done");
+    expect((await storage.getDocument("complete"))?.status).toBe("analyzed");
+    expect(await storage.getClausesByDocumentId("complete")).toHaveLength(4);
+    expect(await storage.getContractSummary("complete")).toBeDefined();
+  });
+
+  it("ends a job as cancelled, not failed, when its document is deleted mid-analysis", async () => {
+    const statuses = await runAnalysis("deleted", job => {
+      if (job.status === "analyzing" && job.progress === 1) {
+        void storage.deleteDocument("deleted");
+      }
+    });
+
+    expect(statuses[statuses.length - 1]).toBe("cancelled");
+    expect(statuses).not.toContain("failed");
+    expect(await storage.getClausesByDocumentId("deleted")).toEqual([]);
+    expect(await storage.getContractSummary("deleted")).toBeUndefined();
+  });
+});
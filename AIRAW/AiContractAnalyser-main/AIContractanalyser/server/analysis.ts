@@ -0,0 +1,662 @@
+import { EventEmitter } from "events";
+import type { Readable } from "stream";
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { embedClauses } from "./embeddings";
+import { getRulesetRules, selectRuleset } from "./rulesets";
+import { analyzeDocument, extractClauses, extractFinancials } from "./utils/contractAnalyzer";
+import { findMissingClauses } from "./utils/requiredClauses";
+import { scoreDocumentRisk } from "./utils/documentRisk";
+import { findDuplicate, fingerprintText, type DuplicateMatch, type TextFingerprint } from "./utils/fingerprint";
+import type {
+  AnalysisJob,
+  Clause,
+  ClauseChange,
+  ComplianceIssue,
+  ContractDocument,
+  ContractSummary,
+  InsertAnalysisJob,
+  InsertClause,
+  MissingClause,
+  ReanalysisReport
+} from "@shared/schema";
+
+/**
+ * Emits "job:<id>" with the updated AnalysisJob whenever a job changes state or makes progress
+ */
+export const jobEvents = new EventEmitter();
+// Every open progress stream adds a listener
+jobEvents.setMaxListeners(0);
+
+// Jobs run one at a time, in the order they were queued, so a burst of uploads cannot flood the model API
+const queue: number[] = [];
+let draining = false;
+
+/**
+ * Queue a document for analysis
+ * The original upload must already be in the blob store.
+ * @param documentId - The document ID
+ * @returns The queued job
+ */
+export async function enqueueAnalysis(documentId: string): Promise<AnalysisJob> {
+  const job = await storage.createAnalysisJob({ documentId, status: "queued" });
+  console.log(`Queued analysis job ${job.id} for document ${documentId}`);
+  schedule(job.id);
+  return job;
+}
+
+/**
+ * Queue a document to be re-checked against the current rules
+ * The stored clause text is analyzed again in place, so reviewer state such as completed is kept.
+ * @param documentId - The document ID; it must already have analyzed clauses
+ * @returns The queued job
+ */
+export async function enqueueRuleReanalysis(documentId: string): Promise<AnalysisJob> {
+  const job = await storage.createAnalysisJob({ documentId, kind: "rules", status: "queued" });
+  console.log(`Queued rule re-analysis job ${job.id} for document ${documentId}`);
+  schedule(job.id);
+  return job;
+}
+
+/**
+ * Requeue jobs that were queued or running when the server stopped
+ * Interrupted jobs start again from extraction.
+ */
+export async function resumeAnalysisJobs(): Promise<void> {
+  const jobs = await storage.getUnfinishedAnalysisJobs();
+  if (jobs.length > 0) {
+    console.log(`Resuming ${jobs.length} unfinished analysis jobs`);
+  }
+  for (const job of jobs) {
+    await updateJob(job.id, { status: "queued", progress: 0, total: 0 });
+    schedule(job.id);
+  }
+}
+
+/**
+ * Add a job to the queue and start working through it if idle
+ * @param jobId - The job ID
+ */
+function schedule(jobId: number) {
+  queue.push(jobId);
+  if (!draining) {
+    drainQueue().catch(error => {
+      console.error("Error draining the analysis queue:", error);
+    });
+  }
+}
+
+/**
+ * Run queued jobs until the queue is empty
+ * A job that cannot even be loaded is skipped, so one storage error does not stall the queue.
+ */
+async function drainQueue() {
+  draining = true;
+  try {
+    while (queue.length > 0) {
+      const jobId = queue.shift()!;
+      try {
+        const job = await storage.getAnalysisJob(jobId);
+        if (!job) {
+          // The document was deleted while the job was waiting
+          continue;
+        }
+        if (job.kind === "rules") {
+          await runRuleReanalysisJob(job);
+        } else {
+          await runJob(job);
+        }
+      } catch (error) {
+        console.error(`Error running analysis job ${jobId}:`, error);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Persist a job update and notify anyone following its progress
+ * @param jobId - The job ID
+ * @param update - Fields to change
+ * @returns The updated job
+ */
+async function updateJob(jobId: number, update: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+  const job = await storage.updateAnalysisJob(jobId, update);
+  if (job) {
+    jobEvents.emit(`job:${jobId}`, job);
+  }
+  return job;
+}
+
+/**
+ * Read a stored file into memory
+ * @param stream - The file contents
+ * @returns The whole file
+ */
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Raised when a job's document, and with it the job, was deleted while the job was running
+ */
+class JobCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Analysis job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Stop a running job whose document has been deleted, before it stores anything more
+ * Deleting a document also deletes its jobs, so either being gone means the work is no longer wanted.
+ * @param job - The running job
+ */
+async function ensureNotCancelled(job: AnalysisJob) {
+  const [current, document] = await Promise.all([
+    storage.getAnalysisJob(job.id),
+    storage.getDocument(job.documentId)
+  ]);
+  if (!current || !document) {
+    throw new JobCancelledError(job.id);
+  }
+}
+
+/**
+ * Wind up a job whose document was deleted while it ran
+ * Clauses stored after the deletion are removed, and anyone following the job is told it was cancelled,
+ * as the job row went with the document and cannot record it.
+ * @param job - The cancelled job
+ */
+async function discardCancelledJob(job: AnalysisJob) {
+  const leftover = await storage.getClausesByDocumentId(job.documentId);
+  for (const clause of leftover) {
+    await storage.deleteClause(clause.id);
+  }
+  jobEvents.emit(`job:${job.id}`, { ...job, status: "cancelled", updatedAt: new Date() });
+}
+
+/**
+ * Extract, analyze and summarize a document, recording each stage on the job
+ * @param job - The job to run
+ */
+async function runJob(job: AnalysisJob) {
+  const { documentId } = job;
+  console.log(`Starting analysis job ${job.id} for document ${documentId}`);
+
+  try {
+    const document = await storage.getDocument(documentId);
+    if (!document) {
+      throw new Error("Document not found");
+    }
+    const stored = document.storageKey ? await blobStore.get(document.storageKey) : undefined;
+    if (!stored) {
+      throw new Error("Original file not found");
+    }
+    const buffer = await readAll(stored.stream);
+
+    // Extract text clauses from document
+    await updateJob(job.id, { status: "extracting" });
+    console.log("Extracting clauses from document...");
+    const { clauses: extractedClauses, text: documentText, coverage, pageCount } = await extractClauses(buffer, document.mimetype, document.filename);
+    console.log(`Extracted ${extractedClauses.length} clauses from ${Math.round(coverage.ratio * 100)}% of the text`);
+
+    // The upload route fingerprints text it can read without OCR and offers the duplicate choice there;
+    // a scan is only fingerprinted here, once recognized, so a duplicate can only be reported afterwards
+    let duplicate: DuplicateMatch | undefined;
+    if (!document.textHash) {
+      const fingerprint = fingerprintText(documentText);
+      await storage.updateDocument(documentId, { textHash: fingerprint.textHash, simhash: fingerprint.simhash });
+      duplicate = await findTextDuplicate(document, fingerprint);
+      if (duplicate) {
+        console.log(`Document ${documentId} matches document ${duplicate.document.id} (${duplicate.match}, similarity ${duplicate.similarity.toFixed(2)})`);
+      }
+    }
+
+    // Get the compliance rules of the ruleset for this contract
+    const { ruleset, contractType } = await selectRuleset(document, documentText);
+    const rules = await getRulesetRules(ruleset?.id ?? null);
+    console.log(`Detected contract type: ${contractType ?? "unknown"}; using ${ruleset ? `ruleset "${ruleset.name}" v${ruleset.version}` : "shared rules only"}`);
+    console.log(`Found ${rules.length} compliance rules for analysis`);
+
+    // Get the approved clause library
+    const library = await storage.getAllLibraryClauses();
+    console.log(`Found ${library.length} library clauses to compare against`);
+    const riskModel = await storage.getRiskModel();
+
+    // Analyze clauses against compliance rules
+    await updateJob(job.id, { status: "analyzing", progress: 0, total: extractedClauses.length });
+    console.log("Analyzing clauses against compliance rules...");
+    const analyzedClauses = await analyzeDocument(extractedClauses, rules, documentId, library, riskModel, async (done, total) => {
+      // The job is gone once its document is deleted, so stop calling the model
+      if (!(await updateJob(job.id, { progress: done, total }))) {
+        throw new JobCancelledError(job.id);
+      }
+    });
+    console.log(`Analysis complete. Processed ${analyzedClauses.length} clauses`);
+
+    await ensureNotCancelled(job);
+
+    // A resumed job may have stored some clauses before the restart
+    const existingClauses = await storage.getClausesByDocumentId(documentId);
+    for (const clause of existingClauses) {
+      await storage.deleteClause(clause.id);
+    }
+
+    // Store clauses in database
+    console.log("Storing analyzed clauses in database...");
+    const storedClauses: Clause[] = [];
+    for (const clause of analyzedClauses) {
+      // Initialize with completed = false
+      const clauseWithCompletion = {
+        ...clause,
+        completed: false
+      };
+      storedClauses.push(await storage.createClause(clauseWithCompletion));
+    }
+
+    // Required clauses can only be judged against the whole contract
+    const missingClauses = findMissingClauses(rules, storedClauses);
+    console.log(`${missingClauses.length} required clauses missing`);
+    const risk = scoreDocumentRisk(storedClauses, missingClauses, riskModel);
+    console.log(`Contract risk score: ${risk.score}`);
+
+    await updateJob(job.id, { status: "summarizing" });
+    const summary = await summarizeDocument(documentId, document.filename, documentText, analyzedClauses, missingClauses);
+    await ensureNotCancelled(job);
+    await storage.createContractSummary(summary);
+    console.log("Contract summary generated successfully.");
+
+    // Similar-clause search is an extra, so a model that cannot load does not fail the analysis
+    try {
+      console.log("Computing clause embeddings...");
+      await embedClauses(storedClauses);
+    } catch (error) {
+      console.error("Error computing clause embeddings:", error);
+    }
+
+    await ensureNotCancelled(job);
+    await storage.updateDocument(documentId, {
+      status: "analyzed",
+      pageCount: pageCount ?? null,
+      error: null,
+      contractType: contractType ?? null,
+      appliedRulesetId: ruleset?.id ?? null,
+      appliedRulesetVersion: ruleset?.version ?? null,
+      riskScore: risk.score,
+      riskCategories: risk.categories
+    });
+    await updateJob(job.id, {
+      status: "done",
+      result: { clauseCount: analyzedClauses.length, coverage, duplicate }
+    });
+    console.log(`Analysis job ${job.id} complete`);
+  } catch (error: any) {
+    if (error instanceof JobCancelledError) {
+      console.log(`Analysis job ${job.id} cancelled: document ${documentId} was deleted`);
+      await discardCancelledJob(job);
+      return;
+    }
+    console.error(`Analysis job ${job.id} failed:`, error);
+    await storage.updateDocument(documentId, { status: "failed", error: error.message }).catch(updateError => {
+      console.error("Error marking document as failed:", updateError);
+    });
+    await updateJob(job.id, { status: "failed", error: error.message || "Error processing file" }).catch(updateError => {
+      console.error("Error marking analysis job as failed:", updateError);
+    });
+  }
+}
+
+/**
+ * Find a document already in the workspace with the same or nearly the same text
+ * Versions of the same contract are expected to resemble each other, so they are not reported.
+ * @param document - The document being analyzed
+ * @param fingerprint - Fingerprint of its extracted text
+ * @returns The best match, or undefined if the text is new
+ */
+async function findTextDuplicate(document: ContractDocument, fingerprint: TextFingerprint): Promise<DuplicateMatch | undefined> {
+  if (document.versionOf) {
+    return undefined;
+  }
+  const others = (await storage.getAllDocuments())
+    .filter(other => other.id !== document.id && other.versionOf !== document.id);
+  // The upload route has already ruled out an identical file
+  return findDuplicate(others, document.contentHash, fingerprint);
+}
+
+/**
+ * Re-check a document's stored clauses against the current rules and record what changed
+ * Clauses are updated in place, keeping their IDs, embeddings and reviewer state; the summary
+ * only has its missing-clause findings replaced, so edited fees and terms survive.
+ * @param job - The job to run
+ */
+async function runRuleReanalysisJob(job: AnalysisJob) {
+  const { documentId } = job;
+  console.log(`Starting rule re-analysis job ${job.id} for document ${documentId}`);
+
+  try {
+    const document = await storage.getDocument(documentId);
+    if (!document) {
+      throw new Error("Document not found");
+    }
+    const storedClauses = (await storage.getClausesByDocumentId(documentId)).sort((a, b) => a.id - b.id);
+    if (storedClauses.length === 0) {
+      throw new Error("Document has no analyzed clauses to re-check");
+    }
+
+    // The contract type is detected from the stored clauses, as the original file is not read again
+    const documentText = storedClauses.map(clause => clause.clause).join("\n\n");
+    const { ruleset, contractType } = await selectRuleset(document, documentText);
+    const rules = await getRulesetRules(ruleset?.id ?? null);
+    const library = await storage.getAllLibraryClauses();
+    const riskModel = await storage.getRiskModel();
+    console.log(`Re-checking ${storedClauses.length} clauses against ${rules.length} compliance rules${ruleset ? ` from ruleset "${ruleset.name}" v${ruleset.version}` : ""}`);
+
+    await updateJob(job.id, { status: "analyzing", progress: 0, total: storedClauses.length });
+    const analyzedClauses = await analyzeDocument(
+      storedClauses.map(clause => ({
+        text: clause.clause,
+        section: clause.section ?? undefined,
+        heading: clause.heading ?? undefined,
+        parentSection: clause.parent_section ?? undefined,
+        page: clause.page ?? undefined,
+        ocrConfidence: clause.ocr_confidence ?? undefined
+      })),
+      rules,
+      documentId,
+      library,
+      riskModel,
+      async (done, total) => {
+        if (!(await updateJob(job.id, { progress: done, total }))) {
+          throw new JobCancelledError(job.id);
+        }
+      }
+    );
+
+    await ensureNotCancelled(job);
+    await updateJob(job.id, { status: "summarizing" });
+    const changes: ClauseChange[] = [];
+    const updatedClauses: Clause[] = [];
+    for (let i = 0; i < storedClauses.length; i++) {
+      const before = storedClauses[i];
+      const after = analyzedClauses[i];
+      // Only the analysis is replaced; text, position and completed stay as they are
+      const updated = await storage.updateClause(before.id, {
+        category: after.category ?? null,
+        risk_score: after.risk_score,
+        compliance_status: after.compliance_status,
+        compliance_issues: after.compliance_issues ?? null,
+        risk_factors: after.risk_factors ?? null,
+        library_clause_id: after.library_clause_id ?? null,
+        library_similarity: after.library_similarity ?? null,
+        library_diff: after.library_diff ?? null
+      });
+      updatedClauses.push(updated ?? before);
+
+      const change = compareClauseAnalysis(before, after);
+      if (change) {
+        changes.push(change);
+      }
+    }
+
+    const previousSummary = await storage.getContractSummary(documentId);
+    const previousMissing = previousSummary?.missingClauses ?? [];
+    const missingClauses = findMissingClauses(rules, updatedClauses);
+    if (previousSummary) {
+      await storage.updateContractSummary(documentId, { ...previousSummary, missingClauses });
+    }
+
+    const transitions: Record<string, number> = {};
+    changes
+      .filter(change => change.before.compliance_status !== change.after.compliance_status)
+      .forEach(change => {
+        const transition = `${change.before.compliance_status} → ${change.after.compliance_status}`;
+        transitions[transition] = (transitions[transition] ?? 0) + 1;
+      });
+
+    const report: ReanalysisReport = {
+      clauseCount: storedClauses.length,
+      changedCount: changes.length,
+      transitions,
+      clauses: changes,
+      missingAdded: missingClauses.filter(missing => !previousMissing.some(previous => previous.ruleId === missing.ruleId)),
+      missingResolved: previousMissing.filter(previous => !missingClauses.some(missing => missing.ruleId === previous.ruleId)),
+      rulesetBefore: document.appliedRulesetId !== null
+        ? { id: document.appliedRulesetId, version: document.appliedRulesetVersion ?? 1 }
+        : null,
+      rulesetAfter: ruleset ? { id: ruleset.id, version: ruleset.version } : null
+    };
+    console.log(`${report.changedCount} of ${report.clauseCount} clauses changed:`, transitions);
+
+    const risk = scoreDocumentRisk(updatedClauses, missingClauses, riskModel);
+    await ensureNotCancelled(job);
+    await storage.updateDocument(documentId, {
+      contractType: contractType ?? null,
+      appliedRulesetId: ruleset?.id ?? null,
+      appliedRulesetVersion: ruleset?.version ?? null,
+      riskScore: risk.score,
+      riskCategories: risk.categories
+    });
+    await updateJob(job.id, {
+      status: "done",
+      result: { clauseCount: storedClauses.length, changes: report }
+    });
+    console.log(`Rule re-analysis job ${job.id} complete`);
+  } catch (error: any) {
+    if (error instanceof JobCancelledError) {
+      // Updates only touch clauses that still exist, so there is nothing to clean up
+      console.log(`Rule re-analysis job ${job.id} cancelled: document ${documentId} was deleted`);
+      jobEvents.emit(`job:${job.id}`, { ...job, status: "cancelled", updatedAt: new Date() });
+      return;
+    }
+    // The previous analysis is still in place, so the document is not marked as failed
+    console.error(`Rule re-analysis job ${job.id} failed:`, error);
+    await updateJob(job.id, { status: "failed", error: error.message || "Error re-analyzing document" }).catch(updateError => {
+      console.error("Error marking analysis job as failed:", updateError);
+    });
+  }
+}
+
+/**
+ * Describe how a clause's analysis changed
+ * @param before - The stored clause
+ * @param after - The new analysis of the same text
+ * @returns The change, or undefined if the analysis is the same
+ */
+function compareClauseAnalysis(before: Clause, after: InsertClause): ClauseChange | undefined {
+  const issueTexts = (issues: unknown) => ((issues as ComplianceIssue[] | null) ?? []).map(issue => issue.issue);
+  const beforeIssues = issueTexts(before.compliance_issues);
+  const afterIssues = issueTexts(after.compliance_issues);
+  const addedIssues = afterIssues.filter(issue => !beforeIssues.includes(issue));
+  const resolvedIssues = beforeIssues.filter(issue => !afterIssues.includes(issue));
+
+  const unchanged = before.compliance_status === after.compliance_status
+    && before.risk_score === after.risk_score
+    && (before.category ?? null) === (after.category ?? null)
+    && addedIssues.length === 0
+    && resolvedIssues.length === 0;
+  if (unchanged) {
+    return undefined;
+  }
+
+  return {
+    clauseId: before.id,
+    section: before.section,
+    heading: before.heading,
+    before: { compliance_status: before.compliance_status, risk_score: before.risk_score, category: before.category },
+    after: { compliance_status: after.compliance_status, risk_score: after.risk_score, category: after.category ?? null },
+    addedIssues,
+    resolvedIssues
+  };
+}
+
+/**
+ * Build the contract summary for an analyzed document
+ * @param documentId - The document ID
+ * @param filename - The uploaded file name, used in the title
+ * @param fullText - Full document text for AI analysis
+ * @param analyzedClauses - The document's analyzed clauses
+ * @param missingClauses - Findings for required clauses the document lacks
+ * @returns The summary, for the caller to store
+ */
+async function summarizeDocument(
+  documentId: string,
+  filename: string,
+  fullText: string,
+  analyzedClauses: InsertClause[],
+  missingClauses: MissingClause[]
+): Promise<ContractSummary> {
+  // Generate contract summary
+  console.log("Generating contract summary...");
+  
+  // Extract financial information using AI if available
+  type Financials = Awaited<ReturnType<typeof extractFinancials>>;
+  let fees: Financials["fees"] = [];
+  let paymentTerms: string[] = [];
+  let rateCard: Financials["rateCard"] = [];
+  
+  if (process.env.OPENAI_API_KEY) {
+    try {
+      console.log("Using OpenAI to extract financial information");
+      const financialData = await extractFinancials(fullText);
+      
+      if (financialData) {
+        fees = financialData.fees || [];
+        paymentTerms = financialData.paymentTerms || [];
+        rateCard = financialData.rateCard || [];
+        console.log("AI financial extraction successful");
+      }
+    } catch (aiError) {
+      console.error("Error using OpenAI for financial extraction:", aiError);
+      console.log("Falling back to basic extraction");
+    }
+  }
+  
+  // If AI extraction failed or is not available, use basic extraction as fallback
+  if (fees.length === 0) {
+    console.log("Using basic fee extraction as fallback");
+    // Extract fee information from the document
+    const feeRelatedClauses = analyzedClauses.filter(c => 
+      c.clause.toLowerCase().includes("fee") || 
+      c.clause.toLowerCase().includes("payment") ||
+      c.clause.toLowerCase().includes("cost") ||
+      c.clause.toLowerCase().includes("price") ||
+      c.clause.toLowerCase().includes("charge")
+    );
+    
+    // Extract fees based on the content (simplified extraction logic)
+    const extractedFees = feeRelatedClauses.map(clause => {
+      // Basic pattern matching to identify fee information
+      const clause_text = clause.clause.toLowerCase();
+      const fee_name_match = clause_text.match(/(?:a|an|the)\s+([a-z\s]+(?:fee|charge|payment))/i);
+      const amount_match = clause_text.match(/\$\s*([0-9,\.]+)|([0-9,\.]+)\s*dollars/i);
+      const percentage_match = clause_text.match(/([0-9\.]+)\s*(?:percent|%)/i);
+      const frequency_match = clause_text.match(/(?:per|each|every)\s+(month|year|quarter|week|day|hour|annum)/i);
+      
+      let frequency = frequency_match ? frequency_match[1] : undefined;
+      let category = clause.category || "General Fee";
+      
+      // Extract amount from either dollar match or percentage match
+      let amount;
+      if (amount_match) {
+        amount = amount_match[0];
+      } else if (percentage_match) {
+        amount = percentage_match[0];
+      } else {
+        amount = "See contract for details";
+      }
+      
+      // Extract fee name, or use category if no name found
+      let name;
+      if (fee_name_match) {
+        name = fee_name_match[1].trim();
+        // Capitalize first letter of each word
+        name = name.replace(/\b\w/g, l => l.toUpperCase());
+      } else {
+        name = "Unspecified Fee";
+      }
+      
+      return {
+        name,
+        amount,
+        frequency,
+        category,
+        description: clause.clause.substring(0, 100) + (clause.clause.length > 100 ? "..." : "")
+      };
+    });
+    
+    // Remove duplicates by name 
+    fees = Array.from(
+      new Map(extractedFees.map(fee => [fee.name, fee])).values()
+    );
+  }
+  
+  // Identify key clauses by category
+  const terminationClause = analyzedClauses.find(c => 
+    c.category === "Termination" || 
+    c.clause.toLowerCase().includes("terminat")
+  )?.clause;
+  
+  const confidentialityClause = analyzedClauses.find(c => 
+    c.category === "Confidentiality" || 
+    c.clause.toLowerCase().includes("confidential")
+  )?.clause;
+  
+  // Fields the contract was not read for, or did not state, get placeholders; they are listed
+  // so that consolidating an amendment does not mistake them for amended terms
+  const defaultedFields = ["title", "parties", "effectiveDate", "termLength"];
+  if (paymentTerms.length === 0) defaultedFields.push("paymentTerms");
+  if (rateCard.length === 0) defaultedFields.push("rateCard");
+  if (fees.length === 0) defaultedFields.push("fees");
+  if (!terminationClause) defaultedFields.push("terminationClauses");
+  if (!confidentialityClause) defaultedFields.push("confidentialityTerms");
+  
+  // Create the summary object
+  const summary = {
+    documentId,
+    title: `Contract Agreement ${filename}`,
+    parties: {
+      party1: "Company A",
+      party2: "Company B"
+    },
+    effectiveDate: new Date().toISOString().split('T')[0],
+    termLength: "12 months",
+    paymentTerms: paymentTerms.length > 0 ? paymentTerms : ["Net 30 days"],
+    rateCard: rateCard.length > 0 ? rateCard : [
+      {
+        item: "Basic Service",
+        rate: "$1,000",
+        unit: "per month"
+      },
+      {
+        item: "Premium Support",
+        rate: "$150",
+        unit: "per hour"
+      }
+    ],
+    fees: fees.length > 0 ? fees : [
+      {
+        name: "Setup Fee",
+        amount: "$500",
+        frequency: "one-time",
+        category: "Initial Fees",
+        description: "One-time setup fee charged at the beginning of the contract"
+      }
+    ],
+    keyObligations: analyzedClauses
+      .filter(c => c.compliance_status === "Compliant" && c.risk_score < 5)
+      .slice(0, 3)
+      .map(c => c.clause),
+    confidentialityTerms: confidentialityClause || "Standard confidentiality terms apply",
+    terminationClauses: [terminationClause || "Either party may terminate with 30 days written notice"],
+    missingClauses,
+    defaultedFields
+  };
+  
+  return summary;
+}
@@ -0,0 +1,148 @@
+import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey
+} from "@aws-sdk/client-s3";
+
+/**
+ * A stored file, ready to stream back to a client
+ */
+export interface StoredBlob {
+  stream: Readable;
+  size?: number;
+}
+
+/**
+ * Storage for uploaded original files, keyed by path-like strings such as "documents/<id>/original"
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredBlob | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Blob store on the local filesystem
+ */
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    // Keys come from our own document ids, but never let one escape the storage directory
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<StoredBlob | undefined> {
+    const filePath = this.resolve(key);
+    try {
+      const stats = await fsp.stat(filePath);
+      return { stream: fs.createReadStream(filePath), size: stats.size };
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fsp.rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * Blob store in an S3-compatible bucket (AWS S3, or MinIO for local development)
+ */
+export class S3BlobStore implements BlobStore {
+  constructor(private client: S3Client, private bucket: string) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType
+    }));
+  }
+
+  async get(key: string): Promise<StoredBlob | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return { stream: object.Body as Readable, size: object.ContentLength };
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * Create the blob store selected by the environment
+ * BLOB_STORE=s3 uses S3_BUCKET, S3_REGION and, for MinIO and other S3-compatible
+ * servers, S3_ENDPOINT; credentials come from S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY
+ * or the usual AWS credential chain. Otherwise files are kept under BLOB_STORE_PATH.
+ * @returns The configured blob store
+ */
+function createBlobStore(): BlobStore {
+  if (process.env.BLOB_STORE === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when BLOB_STORE=s3");
+    }
+
+    const endpoint = process.env.S3_ENDPOINT;
+    const client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint,
+      // MinIO serves buckets by path rather than by subdomain
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === "true"
+        : !!endpoint,
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+          }
+        : undefined
+    });
+
+    console.log(`Storing uploaded files in S3 bucket ${process.env.S3_BUCKET}${endpoint ? ` at ${endpoint}` : ""}`);
+    return new S3BlobStore(client, process.env.S3_BUCKET);
+  }
+
+  const root = path.resolve(process.env.BLOB_STORE_PATH || "uploads");
+  console.log(`Storing uploaded files in ${root}`);
+  return new LocalBlobStore(root);
+}
+
+/**
+ * Key under which a document's original upload is stored
+ * @param documentId - The document ID
+ * @returns The blob key
+ */
+export function originalFileKey(documentId: string): string {
+  return `documents/${documentId}/original`;
+}
+
+export const blobStore = createBlobStore();
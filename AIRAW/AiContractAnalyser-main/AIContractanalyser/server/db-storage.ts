@@ -1,13 +1,35 @@
 import { 
   users, type User, type InsertUser,
   complianceRules, type ComplianceRule, type InsertComplianceRule,
+  rulesets, type Ruleset, type InsertRuleset,
+  libraryClauses, type LibraryClause, type InsertLibraryClause,
+  documents, type ContractDocument, type InsertContractDocument,
+  documentRelations, type DocumentRelation, type InsertDocumentRelation,
+  analysisJobs, type AnalysisJob, type InsertAnalysisJob,
   clauses, type Clause, type InsertClause,
-  contractSummaries, type ContractSummary, type InsertContractSummary, type ContractSummaryDB
+  clauseEmbeddings, type ClauseEmbedding, type InsertClauseEmbedding,
+  contractSummaries, type ContractSummary, type InsertContractSummary, type ContractSummaryDB,
+  settings,
+  clauseSearchVector, summarySearchVector, type SearchQuery, type SearchResults
 } from "@shared/schema";
+import { DEFAULT_RISK_MODEL, riskModelSchema, type RiskModel } from "@shared/riskModel";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, gte, inArray, lte, notInArray, or, type SQL } from "drizzle-orm";
 import { sql } from "drizzle-orm";
 import { IStorage } from "./storage";
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+  clauseSearchText,
+  headlineToSnippet,
+  highlightSnippet,
+  parseSearchQuery,
+  summarySearchText,
+  hasClauseFilters
+} from "./utils/searchIndex";
+
+// Settings key the risk model is stored under
+const RISK_MODEL_KEY = "risk-model";
 
 export class DatabaseStorage implements IStorage {
   async getUser(id: number): Promise<User | undefined> {
@@ -38,6 +60,8 @@ export class DatabaseStorage implements IStorage {
     // Ensure required values are set
     const insertData = {
       ...rule,
+      ruleType: rule.ruleType ?? "keyword",
+      scope: rule.scope ?? "clause",
       allowed: rule.allowed ?? true,
       riskScore: rule.riskScore ?? 5
     };
@@ -55,6 +79,11 @@ export class DatabaseStorage implements IStorage {
     // Merge with existing data to ensure required fields remain populated
     const updateData = {
       ...rule,
+      ruleType: rule.ruleType ?? existingRule.ruleType,
+      scope: rule.scope ?? existingRule.scope,
+      thresholdUnit: rule.thresholdUnit ?? existingRule.thresholdUnit,
+      thresholdOperator: rule.thresholdOperator ?? existingRule.thresholdOperator,
+      thresholdValue: rule.thresholdValue ?? existingRule.thresholdValue,
       allowed: rule.allowed ?? existingRule.allowed,
       riskScore: rule.riskScore ?? existingRule.riskScore
     };
@@ -73,6 +102,181 @@ export class DatabaseStorage implements IStorage {
     return true; // In PostgreSQL, we don't get a direct indication of whether a row was deleted
   }
   
+  async getRuleset(id: number): Promise<Ruleset | undefined> {
+    const [ruleset] = await db.select().from(rulesets).where(eq(rulesets.id, id));
+    return ruleset;
+  }
+  
+  async getAllRulesets(): Promise<Ruleset[]> {
+    return await db.select().from(rulesets).orderBy(asc(rulesets.name));
+  }
+  
+  async createRuleset(ruleset: InsertRuleset): Promise<Ruleset> {
+    const [newRuleset] = await db.insert(rulesets).values(ruleset).returning();
+    return newRuleset;
+  }
+  
+  async updateRuleset(id: number, ruleset: InsertRuleset): Promise<Ruleset | undefined> {
+    const [updatedRuleset] = await db
+      .update(rulesets)
+      .set({
+        ...ruleset,
+        description: ruleset.description ?? null,
+        baseRulesetId: ruleset.baseRulesetId ?? null,
+        updatedAt: new Date()
+      })
+      .where(eq(rulesets.id, id))
+      .returning();
+    return updatedRuleset;
+  }
+  
+  async bumpRulesetVersion(id: number): Promise<Ruleset | undefined> {
+    const [updatedRuleset] = await db
+      .update(rulesets)
+      .set({ version: sql`${rulesets.version} + 1`, updatedAt: new Date() })
+      .where(eq(rulesets.id, id))
+      .returning();
+    return updatedRuleset;
+  }
+  
+  async deleteRuleset(id: number): Promise<boolean> {
+    await db.delete(complianceRules).where(eq(complianceRules.rulesetId, id));
+    const deleted = await db.delete(rulesets).where(eq(rulesets.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  async getLibraryClause(id: number): Promise<LibraryClause | undefined> {
+    const [libraryClause] = await db.select().from(libraryClauses).where(eq(libraryClauses.id, id));
+    return libraryClause;
+  }
+  
+  async getAllLibraryClauses(): Promise<LibraryClause[]> {
+    return await db.select().from(libraryClauses).orderBy(asc(libraryClauses.category), asc(libraryClauses.title));
+  }
+  
+  async createLibraryClause(libraryClause: InsertLibraryClause): Promise<LibraryClause> {
+    const [newLibraryClause] = await db.insert(libraryClauses).values(libraryClause).returning();
+    return newLibraryClause;
+  }
+  
+  async updateLibraryClause(id: number, libraryClause: InsertLibraryClause): Promise<LibraryClause | undefined> {
+    const [updatedLibraryClause] = await db
+      .update(libraryClauses)
+      .set({ ...libraryClause, notes: libraryClause.notes ?? null, updatedAt: new Date() })
+      .where(eq(libraryClauses.id, id))
+      .returning();
+    return updatedLibraryClause;
+  }
+  
+  async deleteLibraryClause(id: number): Promise<boolean> {
+    const deleted = await db.delete(libraryClauses).where(eq(libraryClauses.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  async getDocument(id: string): Promise<ContractDocument | undefined> {
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+  
+  async getAllDocuments(): Promise<ContractDocument[]> {
+    return await db.select().from(documents).orderBy(desc(documents.uploadedAt));
+  }
+  
+  async createDocument(document: InsertContractDocument): Promise<ContractDocument> {
+    const [newDocument] = await db.insert(documents).values(document).returning();
+    return newDocument;
+  }
+  
+  async updateDocument(id: string, document: Partial<InsertContractDocument>): Promise<ContractDocument | undefined> {
+    const [updatedDocument] = await db
+      .update(documents)
+      .set(document)
+      .where(eq(documents.id, id))
+      .returning();
+    
+    return updatedDocument;
+  }
+  
+  async getDocumentVersions(id: string): Promise<ContractDocument[]> {
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    
+    if (!document) {
+      return [];
+    }
+    
+    const rootId = document.versionOf ?? document.id;
+    return await db
+      .select()
+      .from(documents)
+      .where(or(eq(documents.id, rootId), eq(documents.versionOf, rootId)))
+      .orderBy(asc(documents.version));
+  }
+  
+  async deleteDocument(id: string): Promise<boolean> {
+    // Remove everything derived from the document first
+    await db.delete(clauseEmbeddings).where(
+      inArray(clauseEmbeddings.clauseId, db.select({ id: clauses.id }).from(clauses).where(eq(clauses.document_id, id)))
+    );
+    await db.delete(clauses).where(eq(clauses.document_id, id));
+    await db.delete(contractSummaries).where(eq(contractSummaries.documentId, id));
+    await db.delete(analysisJobs).where(eq(analysisJobs.documentId, id));
+    await db.delete(documentRelations).where(
+      or(eq(documentRelations.documentId, id), eq(documentRelations.relatedDocumentId, id))
+    );
+    
+    const deleted = await db.delete(documents).where(eq(documents.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  async getAllDocumentRelations(): Promise<DocumentRelation[]> {
+    return await db.select().from(documentRelations);
+  }
+  
+  async getDocumentRelations(documentId: string): Promise<DocumentRelation[]> {
+    return await db
+      .select()
+      .from(documentRelations)
+      .where(or(eq(documentRelations.documentId, documentId), eq(documentRelations.relatedDocumentId, documentId)));
+  }
+  
+  async createDocumentRelation(relation: InsertDocumentRelation): Promise<DocumentRelation> {
+    const [newRelation] = await db.insert(documentRelations).values(relation).returning();
+    return newRelation;
+  }
+  
+  async deleteDocumentRelation(id: number): Promise<boolean> {
+    const deleted = await db.delete(documentRelations).where(eq(documentRelations.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const [job] = await db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return job;
+  }
+  
+  async getUnfinishedAnalysisJobs(): Promise<AnalysisJob[]> {
+    return await db
+      .select()
+      .from(analysisJobs)
+      .where(notInArray(analysisJobs.status, ["done", "failed"]))
+      .orderBy(asc(analysisJobs.id));
+  }
+  
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const [newJob] = await db.insert(analysisJobs).values(job).returning();
+    return newJob;
+  }
+  
+  async updateAnalysisJob(id: number, job: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const [updatedJob] = await db
+      .update(analysisJobs)
+      .set({ ...job, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    
+    return updatedJob;
+  }
+  
   async getClause(id: number): Promise<Clause | undefined> {
     const [clause] = await db.select().from(clauses).where(eq(clauses.id, id));
     return clause;
@@ -95,6 +299,7 @@ export class DatabaseStorage implements IStorage {
   }
   
   async deleteClause(id: number): Promise<boolean> {
+    await db.delete(clauseEmbeddings).where(eq(clauseEmbeddings.clauseId, id));
     await db.delete(clauses).where(eq(clauses.id, id));
     return true;
   }
@@ -112,9 +317,35 @@ export class DatabaseStorage implements IStorage {
       .where(eq(clauses.id, id))
       .returning();
     
+    // The embedding no longer describes edited text
+    if (clauseSearchText(updatedClause) !== clauseSearchText(existingClause)) {
+      await db.delete(clauseEmbeddings).where(eq(clauseEmbeddings.clauseId, id));
+    }
+    
     return updatedClause;
   }
   
+  async getClauseEmbedding(clauseId: number): Promise<ClauseEmbedding | undefined> {
+    const [embedding] = await db.select().from(clauseEmbeddings).where(eq(clauseEmbeddings.clauseId, clauseId));
+    return embedding;
+  }
+  
+  async getClauseEmbeddingsByModel(model: string): Promise<ClauseEmbedding[]> {
+    return await db.select().from(clauseEmbeddings).where(eq(clauseEmbeddings.model, model));
+  }
+  
+  async saveClauseEmbedding(embedding: InsertClauseEmbedding): Promise<ClauseEmbedding> {
+    const [savedEmbedding] = await db
+      .insert(clauseEmbeddings)
+      .values(embedding)
+      .onConflictDoUpdate({
+        target: clauseEmbeddings.clauseId,
+        set: { model: embedding.model, vector: embedding.vector, createdAt: new Date() }
+      })
+      .returning();
+    return savedEmbedding;
+  }
+  
   async getContractSummary(documentId: string): Promise<ContractSummary | undefined> {
     const [summary] = await db
       .select()
@@ -125,20 +356,7 @@ export class DatabaseStorage implements IStorage {
       return undefined;
     }
     
-    // Transform DB representation to ContractSummary 
-    return {
-      documentId: summary.documentId,
-      title: summary.title || undefined,
-      parties: summary.parties as ContractSummary['parties'],
-      effectiveDate: summary.effectiveDate || undefined,
-      termLength: summary.termLength || undefined,
-      paymentTerms: summary.paymentTerms as ContractSummary['paymentTerms'],
-      rateCard: summary.rateCard as ContractSummary['rateCard'],
-      fees: summary.fees as ContractSummary['fees'],
-      keyObligations: summary.keyObligations as ContractSummary['keyObligations'],
-      confidentialityTerms: summary.confidentialityTerms || undefined,
-      terminationClauses: summary.terminationClauses as ContractSummary['terminationClauses'],
-    };
+    return toContractSummary(summary);
   }
 
   async createContractSummary(summary: ContractSummary): Promise<ContractSummary> {
@@ -155,6 +373,8 @@ export class DatabaseStorage implements IStorage {
       keyObligations: summary.keyObligations || null,
       confidentialityTerms: summary.confidentialityTerms || null,
       terminationClauses: summary.terminationClauses || null,
+      missingClauses: summary.missingClauses || null,
+      defaultedFields: summary.defaultedFields || null,
     };
     
     // Use upsert to handle potential duplicates
@@ -194,6 +414,8 @@ export class DatabaseStorage implements IStorage {
       keyObligations: summary.keyObligations || null,
       confidentialityTerms: summary.confidentialityTerms || null,
       terminationClauses: summary.terminationClauses || null,
+      missingClauses: summary.missingClauses || null,
+      defaultedFields: summary.defaultedFields || null,
     };
     
     await db
@@ -204,4 +426,103 @@ export class DatabaseStorage implements IStorage {
     // Return the original summary format
     return summary;
   }
-}
\ No newline at end of file
+
+  async getRiskModel(): Promise<RiskModel> {
+    const [setting] = await db.select().from(settings).where(eq(settings.key, RISK_MODEL_KEY));
+    // A model saved by an older version that no longer validates falls back to the default
+    const parsed = riskModelSchema.safeParse(setting?.value);
+    return parsed.success ? parsed.data : DEFAULT_RISK_MODEL;
+  }
+  
+  async saveRiskModel(model: RiskModel): Promise<RiskModel> {
+    await db
+      .insert(settings)
+      .values({ key: RISK_MODEL_KEY, value: model })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value: model, updatedAt: new Date() }
+      });
+    return model;
+  }
+  
+  async search(query: SearchQuery): Promise<SearchResults> {
+    // websearch_to_tsquery understands the same quotes, OR and -negation as the in-memory index
+    const tsQuery = sql`websearch_to_tsquery('english', ${query.q})`;
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=30, MinWords=10`;
+    
+    const clauseFilters: (SQL | undefined)[] = [
+      sql`${clauseSearchVector(clauses)} @@ ${tsQuery}`,
+      query.documentId ? eq(clauses.document_id, query.documentId) : undefined,
+      query.category ? eq(clauses.category, query.category) : undefined,
+      query.minRisk !== undefined ? gte(clauses.risk_score, query.minRisk) : undefined,
+      query.maxRisk !== undefined ? lte(clauses.risk_score, query.maxRisk) : undefined,
+      query.complianceStatus ? eq(clauses.compliance_status, query.complianceStatus) : undefined,
+    ];
+    const rank = sql<number>`ts_rank(${clauseSearchVector(clauses)}, ${tsQuery})`;
+    
+    const clauseRows = await db
+      .select({
+        clause: clauses,
+        rank,
+        headline: sql<string>`ts_headline('english', ${clauses.clause}, ${tsQuery}, ${headlineOptions})`,
+      })
+      .from(clauses)
+      .where(and(...clauseFilters))
+      .orderBy(desc(rank))
+      .limit(query.limit);
+    const clauseHits = clauseRows.map(row => ({ clause: row.clause, rank: row.rank, snippet: headlineToSnippet(row.headline) }));
+    
+    if (hasClauseFilters(query)) {
+      return { clauses: clauseHits, summaries: [] };
+    }
+    
+    const summaryRank = sql<number>`ts_rank(${summarySearchVector(contractSummaries)}, ${tsQuery})`;
+    const summaryRows = await db
+      .select({ summary: contractSummaries, rank: summaryRank })
+      .from(contractSummaries)
+      .where(and(
+        sql`${summarySearchVector(contractSummaries)} @@ ${tsQuery}`,
+        query.documentId ? eq(contractSummaries.documentId, query.documentId) : undefined
+      ))
+      .orderBy(desc(summaryRank))
+      .limit(query.limit);
+    
+    // Summary fields are spread across JSON lists, so the snippet is cut from their joined text instead of by ts_headline
+    const parsed = parseSearchQuery(query.q);
+    return {
+      clauses: clauseHits,
+      summaries: summaryRows.map(row => {
+        const summary = toContractSummary(row.summary);
+        return {
+          documentId: summary.documentId,
+          title: summary.title ?? null,
+          rank: row.rank,
+          snippet: highlightSnippet(summarySearchText(summary), parsed),
+        };
+      }),
+    };
+  }
+}
+
+/**
+ * Transform the DB representation of a summary to ContractSummary
+ * @param summary - The stored row
+ * @returns The summary
+ */
+function toContractSummary(summary: ContractSummaryDB): ContractSummary {
+  return {
+    documentId: summary.documentId,
+    title: summary.title || undefined,
+    parties: summary.parties as ContractSummary['parties'],
+    effectiveDate: summary.effectiveDate || undefined,
+    termLength: summary.termLength || undefined,
+    paymentTerms: summary.paymentTerms as ContractSummary['paymentTerms'],
+    rateCard: summary.rateCard as ContractSummary['rateCard'],
+    fees: summary.fees as ContractSummary['fees'],
+    keyObligations: summary.keyObligations as ContractSummary['keyObligations'],
+    confidentialityTerms: summary.confidentialityTerms || undefined,
+    terminationClauses: summary.terminationClauses as ContractSummary['terminationClauses'],
+    missingClauses: summary.missingClauses as ContractSummary['missingClauses'],
+    defaultedFields: summary.defaultedFields as ContractSummary['defaultedFields'],
+  };
+}
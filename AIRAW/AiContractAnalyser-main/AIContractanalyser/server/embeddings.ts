@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import { EMBEDDING_MODEL, cosineSimilarity, embedTexts } from "./utils/textEmbedder";
+import { clauseSearchText } from "./utils/searchIndex";
+import type { Clause, ClauseEmbedding, SimilarClause } from "@shared/schema";
+
+/**
+ * Compute and store embeddings for clauses
+ * @param clauses - The stored clauses to embed
+ * @returns The saved embeddings, in the same order
+ */
+export async function embedClauses(clauses: Clause[]): Promise<ClauseEmbedding[]> {
+  if (clauses.length === 0) {
+    return [];
+  }
+
+  const vectors = await embedTexts(clauses.map(clauseSearchText));
+  const saved: ClauseEmbedding[] = [];
+  for (let i = 0; i < clauses.length; i++) {
+    saved.push(await storage.saveClauseEmbedding({
+      clauseId: clauses[i].id,
+      model: EMBEDDING_MODEL,
+      vector: vectors[i]
+    }));
+  }
+  return saved;
+}
+
+/**
+ * Embed every stored clause that has no embedding from the current model
+ * Covers clauses analyzed before embeddings existed and those from a previous model.
+ */
+export async function backfillClauseEmbeddings(): Promise<void> {
+  const embedded = new Set((await storage.getClauseEmbeddingsByModel(EMBEDDING_MODEL)).map(embedding => embedding.clauseId));
+  const missing = (await storage.getAllClauses()).filter(clause => !embedded.has(clause.id));
+  if (missing.length === 0) {
+    return;
+  }
+
+  console.log(`Computing embeddings for ${missing.length} clauses...`);
+  await embedClauses(missing);
+  console.log("Clause embeddings up to date");
+}
+
+/**
+ * Rank clauses across every contract by how close their meaning is to one clause
+ * @param clause - The clause to match
+ * @param limit - Maximum number of results
+ * @returns The most similar other clauses, best first
+ */
+export async function findSimilarClauses(clause: Clause, limit: number): Promise<SimilarClause[]> {
+  let target = await storage.getClauseEmbedding(clause.id);
+  if (!target || target.model !== EMBEDDING_MODEL) {
+    [target] = await embedClauses([clause]);
+  }
+
+  const ranked = (await storage.getClauseEmbeddingsByModel(EMBEDDING_MODEL))
+    .filter(embedding => embedding.clauseId !== clause.id)
+    .map(embedding => ({ clauseId: embedding.clauseId, similarity: cosineSimilarity(target!.vector, embedding.vector) }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const similar: SimilarClause[] = [];
+  for (const { clauseId, similarity } of ranked) {
+    if (similar.length >= limit) break;
+    // Skip embeddings whose clause was deleted
+    const match = await storage.getClause(clauseId);
+    if (match) {
+      similar.push({ clause: match, similarity });
+    }
+  }
+  return similar;
+}
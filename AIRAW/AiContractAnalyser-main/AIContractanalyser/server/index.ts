@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { resumeAnalysisJobs } from "./analysis";
+import { backfillClauseEmbeddings } from "./embeddings";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -38,6 +40,16 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  
+  // Pick up analysis jobs interrupted by the last shutdown
+  resumeAnalysisJobs().catch(error => {
+    console.error("Error resuming analysis jobs:", error);
+  });
+  
+  // Embed clauses stored before similar-clause search, or under a different model
+  backfillClauseEmbeddings().catch(error => {
+    console.error("Error computing clause embeddings:", error);
+  });
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -1,13 +1,42 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { blobStore, originalFileKey } from "./blob-store";
 import multer from "multer";
 import fs from "fs/promises";
 import path from "path";
-import { analyzeDocument, extractClauses } from "./utils/contractAnalyzer";
+import { createHash, randomUUID } from "crypto";
+import { enqueueAnalysis, enqueueRuleReanalysis, jobEvents } from "./analysis";
+import { findSimilarClauses } from "./embeddings";
+import { extractText, isSupportedUpload } from "./utils/extractors";
+import { findDuplicate, fingerprintText, type TextFingerprint } from "./utils/fingerprint";
+import { compareVersions } from "./utils/clauseComparison";
+import { consolidateTerms } from "./utils/effectiveTerms";
+import { validateRule } from "./utils/ruleMatcher";
+import { validateThreshold } from "./utils/thresholdRules";
+import { getRulesetRules, touchRulesets, validateRulesetBase } from "./rulesets";
+import { testRuleOnClauses, testRuleOnText } from "./ruleSandbox";
+import {
+  exportRules,
+  parseRuleFile,
+  planRuleImport,
+  ruleFileFormatFromName,
+  ruleFileFormats,
+  RULE_FILE_MIMETYPES,
+  type RuleFileFormat
+} from "./utils/ruleTransfer";
 import { z } from "zod";
-import { contractSummarySchema } from "@shared/schema";
-import { insertComplianceRuleSchema } from "@shared/schema";
+import {
+  contractSummarySchema,
+  type AnalysisJob,
+  type Clause,
+  type ComplianceRuleType,
+  type ContractDocument,
+  type ContractSummary,
+  type MissingClause
+} from "@shared/schema";
+import { insertComplianceRuleSchema, insertDocumentRelationSchema, insertLibraryClauseSchema, insertRulesetSchema, searchQuerySchema } from "@shared/schema";
+import { DEFAULT_RISK_MODEL, riskLevel, riskModelSchema, type RiskModel } from "@shared/riskModel";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -16,19 +45,67 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-    // Accept only PDF, DOC, DOCX files
-    if (
-      file.mimetype === "application/pdf" ||
-      file.mimetype === "application/msword" ||
-      file.mimetype === "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-    ) {
+    // Accept any format the extractor registry can read
+    if (isSupportedUpload(file.mimetype, file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error("Unsupported file type. Only PDF, DOC, and DOCX are allowed."));
+      cb(new Error("Unsupported file type. Supported formats: PDF, DOC, DOCX, ODT, RTF, HTML, Markdown and plain text."));
     }
   },
 });
 
+// Rule files are small text files, read into memory for import
+const ruleFileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024, // 1MB limit
+  },
+});
+
+// Ways a caller can resolve an upload that duplicates an existing document
+const DUPLICATE_ACTIONS = ["reuse", "reanalyze", "version"];
+
+// Formats a browser can display itself; anything else is offered as a download even when viewed
+const INLINE_MIMETYPES = ["application/pdf", "text/plain", "text/html", "text/markdown"];
+
+/**
+ * Stream a document's original upload back to the client
+ * @param documentId - The document ID
+ * @param disposition - "attachment" to download, "inline" to display in the browser
+ * @param res - The response to write to
+ */
+async function sendOriginalFile(documentId: string, disposition: "attachment" | "inline", res: Response) {
+  try {
+    const document = await storage.getDocument(documentId);
+    if (!document) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+
+    const blob = document.storageKey ? await blobStore.get(document.storageKey) : undefined;
+    if (!blob) {
+      return res.status(404).json({ message: "Original file is not available for this document" });
+    }
+
+    const inline = disposition === "inline" && INLINE_MIMETYPES.includes(document.mimetype);
+    // Uploaded HTML is shown as source text so it cannot run scripts on our origin
+    res.setHeader("Content-Type", inline && document.mimetype !== "application/pdf" ? "text/plain; charset=utf-8" : document.mimetype);
+    res.setHeader("Content-Disposition", `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(document.filename)}`);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    if (blob.size !== undefined) {
+      res.setHeader("Content-Length", blob.size);
+    }
+
+    blob.stream.on("error", (error) => {
+      console.error("Error streaming original file:", error);
+      res.destroy(error);
+    });
+    blob.stream.pipe(res);
+  } catch (error: any) {
+    console.error("Error sending original file:", error);
+    res.status(500).json({ message: error.message || "Error sending original file" });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup API routes
   // Get all compliance rules
@@ -41,6 +118,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Export compliance rules as JSON, YAML or CSV, optionally only those of one ruleset
+  app.get("/api/compliance-rules/export", async (req, res) => {
+    try {
+      const format = (req.query.format as string | undefined)?.toLowerCase() ?? "json";
+      if (!ruleFileFormats.includes(format as RuleFileFormat)) {
+        return res.status(400).json({ message: `format must be one of: ${ruleFileFormats.join(", ")}` });
+      }
+      
+      const rulesets = await storage.getAllRulesets();
+      let rules = await storage.getAllComplianceRules();
+      if (req.query.rulesetId) {
+        const rulesetId = parseInt(req.query.rulesetId as string);
+        if (!rulesets.some(ruleset => ruleset.id === rulesetId)) {
+          return res.status(404).json({ message: "Ruleset not found" });
+        }
+        rules = rules.filter(rule => rule.rulesetId === rulesetId);
+      }
+      
+      const content = exportRules(rules, rulesets, format as RuleFileFormat);
+      res.setHeader("Content-Type", `${RULE_FILE_MIMETYPES[format as RuleFileFormat]}; charset=utf-8`);
+      res.setHeader("Content-Disposition", `attachment; filename="compliance-rules.${format}"`);
+      res.send(content);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Import compliance rules from a JSON, YAML or CSV file
+  // With dryRun=true nothing is saved and the response reports what would be created, updated or rejected
+  app.post("/api/compliance-rules/import", ruleFileUpload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const format = (req.body?.format?.toLowerCase() || ruleFileFormatFromName(req.file.originalname)) as RuleFileFormat | undefined;
+      if (!format || !ruleFileFormats.includes(format)) {
+        return res.status(400).json({ message: `Unrecognised rule file; use one of: ${ruleFileFormats.join(", ")}` });
+      }
+      
+      let rows: Record<string, unknown>[];
+      try {
+        rows = parseRuleFile(req.file.buffer.toString("utf-8"), format);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      const plan = planRuleImport(rows, await storage.getAllComplianceRules(), await storage.getAllRulesets());
+      const dryRun = req.body?.dryRun === "true" || req.body?.dryRun === true;
+      console.log(`Rule import (${format}${dryRun ? ", dry run" : ""}):`, plan.counts);
+      
+      if (dryRun) {
+        return res.json({ dryRun: true, applied: false, ...plan });
+      }
+      
+      // Importing is all or nothing, so a fixed file can simply be imported again
+      if (plan.counts.conflict > 0 || plan.counts.invalid > 0) {
+        return res.status(400).json({
+          message: `Nothing was imported: ${plan.counts.invalid} invalid rows and ${plan.counts.conflict} conflicts`,
+          dryRun: false,
+          applied: false,
+          ...plan
+        });
+      }
+      
+      const touched: (number | null)[] = [];
+      for (const entry of plan.entries) {
+        if (entry.action === "create") {
+          const rule = await storage.createComplianceRule(entry.rule!);
+          entry.ruleId = rule.id;
+          touched.push(rule.rulesetId);
+        } else if (entry.action === "update") {
+          const rule = await storage.updateComplianceRule(entry.ruleId!, entry.rule!);
+          touched.push(rule?.rulesetId ?? null);
+        }
+      }
+      await touchRulesets(touched);
+      
+      res.json({ dryRun: false, applied: true, ...plan });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Try a draft rule without saving it, on pasted text or on every clause already analyzed
+  // Pass ruleId when the draft is an edit of a stored rule, so it replaces that rule in the comparison
+  app.post("/api/compliance-rules/test", async (req, res) => {
+    try {
+      const validationResult = insertComplianceRuleSchema.safeParse(req.body?.rule);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid rule data" });
+      }
+      
+      const draft = validationResult.data;
+      const patternError = validateRule(draft.ruleType ?? "keyword", draft.keyword);
+      if (patternError) {
+        return res.status(400).json({ message: `Invalid rule pattern: ${patternError}` });
+      }
+      
+      const thresholdError = draft.ruleType === "threshold" ? validateThreshold({
+        thresholdUnit: draft.thresholdUnit ?? null,
+        thresholdOperator: draft.thresholdOperator ?? null,
+        thresholdValue: draft.thresholdValue ?? null
+      }) : undefined;
+      if (thresholdError) {
+        return res.status(400).json({ message: `Invalid rule threshold: ${thresholdError}` });
+      }
+      
+      const ruleId = req.body?.ruleId !== undefined && req.body.ruleId !== null ? parseInt(req.body.ruleId) : undefined;
+      if (ruleId !== undefined && !(await storage.getComplianceRule(ruleId))) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+      
+      if (typeof req.body?.text === "string") {
+        if (!req.body.text.trim()) {
+          return res.status(400).json({ message: "Text to test is empty" });
+        }
+        return res.json({ mode: "text", ...(await testRuleOnText(draft, req.body.text, ruleId)) });
+      }
+      
+      res.json({ mode: "clauses", ...(await testRuleOnClauses(draft, ruleId)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Add compliance rule
   app.post("/api/compliance-rules", async (req, res) => {
     try {
@@ -50,7 +254,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid rule data" });
       }
       
+      const patternError = validateRule(validationResult.data.ruleType ?? "keyword", validationResult.data.keyword);
+      if (patternError) {
+        return res.status(400).json({ message: `Invalid rule pattern: ${patternError}` });
+      }
+      
+      const thresholdError = validationResult.data.ruleType === "threshold" ? validateThreshold({
+        thresholdUnit: validationResult.data.thresholdUnit ?? null,
+        thresholdOperator: validationResult.data.thresholdOperator ?? null,
+        thresholdValue: validationResult.data.thresholdValue ?? null
+      }) : undefined;
+      if (thresholdError) {
+        return res.status(400).json({ message: `Invalid rule threshold: ${thresholdError}` });
+      }
+      
+      if (validationResult.data.rulesetId && !(await storage.getRuleset(validationResult.data.rulesetId))) {
+        return res.status(400).json({ message: "Ruleset not found" });
+      }
+      
       const rule = await storage.createComplianceRule(validationResult.data);
+      await touchRulesets([rule.rulesetId]);
       res.status(201).json(rule);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -67,11 +290,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid rule data" });
       }
       
+      const existingRule = await storage.getComplianceRule(id);
+      if (!existingRule) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+      
+      // Check the pattern against the type it will have after the update
+      const ruleType = validationResult.data.ruleType ?? existingRule.ruleType as ComplianceRuleType;
+      const patternError = validateRule(ruleType, validationResult.data.keyword);
+      if (patternError) {
+        return res.status(400).json({ message: `Invalid rule pattern: ${patternError}` });
+      }
+      
+      // Threshold fields left out of the update keep their stored values
+      const thresholdError = ruleType === "threshold" ? validateThreshold({
+        thresholdUnit: validationResult.data.thresholdUnit ?? existingRule.thresholdUnit,
+        thresholdOperator: validationResult.data.thresholdOperator ?? existingRule.thresholdOperator,
+        thresholdValue: validationResult.data.thresholdValue ?? existingRule.thresholdValue
+      }) : undefined;
+      if (thresholdError) {
+        return res.status(400).json({ message: `Invalid rule threshold: ${thresholdError}` });
+      }
+      
+      if (validationResult.data.rulesetId && !(await storage.getRuleset(validationResult.data.rulesetId))) {
+        return res.status(400).json({ message: "Ruleset not found" });
+      }
+      
       const rule = await storage.updateComplianceRule(id, validationResult.data);
       if (!rule) {
         return res.status(404).json({ message: "Rule not found" });
       }
       
+      // Both rulesets change when a rule moves between them
+      await touchRulesets([existingRule.rulesetId, rule.rulesetId]);
       res.json(rule);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -82,28 +333,258 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/compliance-rules/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const rule = await storage.getComplianceRule(id);
       const deleted = await storage.deleteComplianceRule(id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Rule not found" });
       }
       
+      await touchRulesets([rule?.rulesetId]);
       res.json({ message: "Rule deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get all clauses
-  app.get("/api/clauses", async (_req, res) => {
+  // Get all rulesets
+  app.get("/api/rulesets", async (_req, res) => {
     try {
-      const clauses = await storage.getAllClauses();
+      const rulesets = await storage.getAllRulesets();
+      res.json(rulesets);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get the rules a ruleset applies, including inherited and shared rules
+  app.get("/api/rulesets/:id/rules", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const ruleset = await storage.getRuleset(id);
+      
+      if (!ruleset) {
+        return res.status(404).json({ message: "Ruleset not found" });
+      }
+      
+      res.json(await getRulesetRules(id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Add a ruleset
+  app.post("/api/rulesets", async (req, res) => {
+    try {
+      const validationResult = insertRulesetSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid ruleset data" });
+      }
+      
+      const baseError = await validateRulesetBase(undefined, validationResult.data.baseRulesetId);
+      if (baseError) {
+        return res.status(400).json({ message: baseError });
+      }
+      
+      const ruleset = await storage.createRuleset(validationResult.data);
+      res.status(201).json(ruleset);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Update a ruleset; documents already analyzed keep the version they were analyzed with
+  app.put("/api/rulesets/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validationResult = insertRulesetSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid ruleset data" });
+      }
+      
+      if (!(await storage.getRuleset(id))) {
+        return res.status(404).json({ message: "Ruleset not found" });
+      }
+      
+      const baseError = await validateRulesetBase(id, validationResult.data.baseRulesetId);
+      if (baseError) {
+        return res.status(400).json({ message: baseError });
+      }
+      
+      await storage.updateRuleset(id, validationResult.data);
+      await touchRulesets([id]);
+      res.json(await storage.getRuleset(id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete a ruleset and its rules
+  app.delete("/api/rulesets/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const inheritors = (await storage.getAllRulesets()).filter(ruleset => ruleset.baseRulesetId === id);
+      
+      if (inheritors.length > 0) {
+        return res.status(400).json({
+          message: `Ruleset is the base of ${inheritors.map(ruleset => ruleset.name).join(", ")}; change their base first`
+        });
+      }
+      
+      const deleted = await storage.deleteRuleset(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Ruleset not found" });
+      }
+      
+      res.json({ message: "Ruleset deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get the risk bands and category weights scores are bucketed and weighted by
+  app.get("/api/risk-model", async (_req, res) => {
+    try {
+      const model = await storage.getRiskModel();
+      res.json(model);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Replace the risk model; weights apply the next time contracts are analyzed or re-checked
+  app.put("/api/risk-model", async (req, res) => {
+    try {
+      const validationResult = riskModelSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid risk model data" });
+      }
+      
+      const model = await storage.saveRiskModel(validationResult.data);
+      res.json(model);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Go back to the default risk model
+  app.delete("/api/risk-model", async (_req, res) => {
+    try {
+      const model = await storage.saveRiskModel(DEFAULT_RISK_MODEL);
+      res.json(model);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get the approved clause library
+  app.get("/api/clause-library", async (_req, res) => {
+    try {
+      const libraryClauses = await storage.getAllLibraryClauses();
+      res.json(libraryClauses);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Add an approved clause to the library
+  app.post("/api/clause-library", async (req, res) => {
+    try {
+      const validationResult = insertLibraryClauseSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid library clause data" });
+      }
+      
+      const libraryClause = await storage.createLibraryClause(validationResult.data);
+      res.status(201).json(libraryClause);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Update a library clause; documents already analyzed keep the comparison made at the time
+  app.put("/api/clause-library/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validationResult = insertLibraryClauseSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid library clause data" });
+      }
+      
+      const libraryClause = await storage.updateLibraryClause(id, validationResult.data);
+      if (!libraryClause) {
+        return res.status(404).json({ message: "Library clause not found" });
+      }
+      
+      res.json(libraryClause);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete a library clause
+  app.delete("/api/clause-library/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteLibraryClause(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Library clause not found" });
+      }
+      
+      res.json({ message: "Library clause deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get all clauses, or only those of one document when ?documentId= is given
+  app.get("/api/clauses", async (req, res) => {
+    try {
+      const { documentId } = req.query;
+      const clauses = typeof documentId === "string"
+        ? await storage.getClausesByDocumentId(documentId)
+        : await storage.getAllClauses();
       res.json(clauses);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
   
+  // Find clauses across every contract that mean the same as this one, however they are worded
+  app.get("/api/clauses/:id/similar", async (req, res) => {
+    try {
+      const clauseId = parseInt(req.params.id);
+      
+      if (isNaN(clauseId)) {
+        return res.status(400).json({ message: "Invalid clause ID" });
+      }
+      
+      const limit = req.query.limit === undefined ? 10 : parseInt(req.query.limit as string);
+      if (isNaN(limit) || limit < 1 || limit > 100) {
+        return res.status(400).json({ message: "limit must be between 1 and 100" });
+      }
+      
+      const clause = await storage.getClause(clauseId);
+      
+      if (!clause) {
+        return res.status(404).json({ message: "Clause not found" });
+      }
+      
+      const similar = await findSimilarClauses(clause, limit);
+      res.json(similar);
+    } catch (error: any) {
+      console.error("Error finding similar clauses:", error);
+      res.status(500).json({ message: error.message || "Error finding similar clauses" });
+    }
+  });
+  
   // Mark a clause as completed
   app.post("/api/clauses/:id/complete", async (req, res) => {
     try {
@@ -160,8 +641,308 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List all uploaded documents, newest first
+  app.get("/api/documents", async (_req, res) => {
+    try {
+      const documents = await storage.getAllDocuments();
+      res.json(documents);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get a single document
+  app.get("/api/documents/:id", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.json(document);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Download the original uploaded file
+  app.get("/api/documents/:id/download", async (req, res) => {
+    await sendOriginalFile(req.params.id, "attachment", res);
+  });
+
+  // Stream the original file for display in the browser's viewer
+  app.get("/api/documents/:id/view", async (req, res) => {
+    await sendOriginalFile(req.params.id, "inline", res);
+  });
+
+  // Get every version of the contract a document belongs to
+  app.get("/api/documents/:id/versions", async (req, res) => {
+    try {
+      const versions = await storage.getDocumentVersions(req.params.id);
+      
+      if (versions.length === 0) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.json(versions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get the amendment, SOW and supersedes links of a document, in either direction
+  app.get("/api/documents/:id/relations", async (req, res) => {
+    try {
+      const relations = await storage.getDocumentRelations(req.params.id);
+      res.json(relations);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Link a document under another, e.g. as an amendment of a master agreement
+  app.post("/api/documents/:id/relations", async (req, res) => {
+    try {
+      const validationResult = insertDocumentRelationSchema.safeParse({ ...req.body, documentId: req.params.id });
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid relation data" });
+      }
+      
+      const relation = validationResult.data;
+      if (relation.documentId === relation.relatedDocumentId) {
+        return res.status(400).json({ message: "A document cannot be related to itself" });
+      }
+      
+      const document = await storage.getDocument(relation.documentId);
+      const relatedDocument = await storage.getDocument(relation.relatedDocumentId);
+      if (!document || !relatedDocument) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const relations = await storage.getAllDocumentRelations();
+      if (relations.some(existing => existing.documentId === relation.documentId && existing.relationType === relation.relationType)) {
+        return res.status(409).json({ message: `Document already has a ${relation.relationType} relation` });
+      }
+      
+      // Walk up from the new parent; reaching the child again would make the hierarchy circular
+      const parents = new Map<string, string[]>();
+      relations.forEach(existing => {
+        parents.set(existing.documentId, [...(parents.get(existing.documentId) ?? []), existing.relatedDocumentId]);
+      });
+      const pending = [relation.relatedDocumentId];
+      const visited = new Set<string>();
+      while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (id === relation.documentId) {
+          return res.status(400).json({ message: "Relation would create a cycle" });
+        }
+        if (!visited.has(id)) {
+          visited.add(id);
+          pending.push(...(parents.get(id) ?? []));
+        }
+      }
+      
+      // Amendments apply in sequence; without an explicit number one goes after those already linked
+      if (relation.relationType === "amendment-of") {
+        const amendments = relations.filter(
+          existing => existing.relationType === "amendment-of" && existing.relatedDocumentId === relation.relatedDocumentId
+        );
+        if (relation.sequence == null) {
+          relation.sequence = Math.max(0, ...amendments.map(existing => existing.sequence ?? 0)) + 1;
+        }
+      } else {
+        relation.sequence = null;
+      }
+      
+      const newRelation = await storage.createDocumentRelation(relation);
+      res.status(201).json(newRelation);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Remove a link between documents
+  app.delete("/api/document-relations/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteDocumentRelation(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Document relation not found" });
+      }
+      
+      res.json({ message: "Document relation deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get the terms in force for a document once amendments, SOWs and superseding documents are applied
+  app.get("/api/documents/:id/effective-terms", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Gather every document linked to this one, directly or through others
+      const relations = await storage.getAllDocumentRelations();
+      const linked = new Set<string>([document.id]);
+      let grew = true;
+      while (grew) {
+        grew = false;
+        relations.forEach(relation => {
+          if (linked.has(relation.documentId) !== linked.has(relation.relatedDocumentId)) {
+            linked.add(relation.documentId);
+            linked.add(relation.relatedDocumentId);
+            grew = true;
+          }
+        });
+      }
+      
+      const documents = new Map<string, ContractDocument>();
+      const summaries = new Map<string, ContractSummary>();
+      const clauses = new Map<string, Clause[]>();
+      for (const id of Array.from(linked)) {
+        const linkedDocument = await storage.getDocument(id);
+        if (!linkedDocument) continue;
+        documents.set(id, linkedDocument);
+        const summary = await storage.getContractSummary(id);
+        if (summary) summaries.set(id, summary);
+        clauses.set(id, await storage.getClausesByDocumentId(id));
+      }
+      
+      const effectiveTerms = consolidateTerms(document.id, {
+        documents,
+        relations: relations.filter(relation => linked.has(relation.documentId)),
+        summaries,
+        clauses
+      });
+      
+      res.json(effectiveTerms);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Full-text search across every analyzed contract's clauses and summaries
+  app.get("/api/search", async (req, res) => {
+    try {
+      const validationResult = searchQuerySchema.safeParse(req.query);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid search query", 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const results = await storage.search(validationResult.data);
+      res.json(results);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Compare the clauses of two documents, typically two versions of one contract
+  app.get("/api/compare", async (req, res) => {
+    try {
+      const baseId = req.query.base as string | undefined;
+      const revisedId = req.query.revised as string | undefined;
+      
+      if (!baseId || !revisedId) {
+        return res.status(400).json({ message: "base and revised document IDs are required" });
+      }
+      
+      const base = await storage.getDocument(baseId);
+      const revised = await storage.getDocument(revisedId);
+      
+      if (!base || !revised) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const comparison = compareVersions(
+        await storage.getClausesByDocumentId(baseId),
+        await storage.getClausesByDocumentId(revisedId)
+      );
+      
+      res.json({ base, revised, ...comparison });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Re-check a document's stored clauses against the current rules, without re-uploading it
+  // The job's result reports which clauses changed; completed flags and edited summaries are kept
+  app.post("/api/documents/:id/reanalyze", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      if (document.status !== "analyzed") {
+        return res.status(409).json({ message: `Only analyzed documents can be re-analyzed; this one is ${document.status}` });
+      }
+      
+      const job = await enqueueRuleReanalysis(document.id);
+      res.status(202).json({
+        message: "Document queued for re-analysis",
+        document_id: document.id,
+        jobId: job.id,
+        job
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Re-check every analyzed document against the current rules
+  app.post("/api/documents/reanalyze", async (_req, res) => {
+    try {
+      const documents = (await storage.getAllDocuments()).filter(document => document.status === "analyzed");
+      const jobs = [];
+      for (const document of documents) {
+        const job = await enqueueRuleReanalysis(document.id);
+        jobs.push({ documentId: document.id, jobId: job.id });
+      }
+      
+      res.status(202).json({
+        message: `${jobs.length} documents queued for re-analysis`,
+        jobs
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete a document along with its clauses, summary and original file
+  app.delete("/api/documents/:id", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      const deleted = await storage.deleteDocument(req.params.id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      if (document?.storageKey) {
+        await blobStore.delete(document.storageKey);
+      }
+      
+      res.json({ message: "Document deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Upload and analyze contract
   app.post("/api/upload", upload.single("file"), async (req, res) => {
+    let fileId: string | undefined;
     try {
       // Check if file was uploaded
       if (!req.file) {
@@ -173,207 +954,207 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { originalname, buffer, mimetype } = req.file;
       console.log(`File received: ${originalname}, type: ${mimetype}, size: ${buffer.length} bytes`);
       
-      const fileId = Date.now().toString();
-      console.log(`Processing document with ID: ${fileId}`);
+      // What to do if the upload duplicates a document already in the workspace
+      const duplicateAction: string | undefined = req.body?.duplicateAction || undefined;
+      if (duplicateAction && !DUPLICATE_ACTIONS.includes(duplicateAction)) {
+        return res.status(400).json({ message: `duplicateAction must be one of: ${DUPLICATE_ACTIONS.join(", ")}` });
+      }
       
-      // Reset all clauses before processing new document
-      console.log("Resetting all existing clauses...");
-      try {
-        // Get all clauses
-        const existingClauses = await storage.getAllClauses();
-        
-        // Delete each clause
-        for (const clause of existingClauses) {
-          if (clause.id) {
-            await storage.deleteClause(clause.id);
-          }
+      // The ruleset to analyze with; without one it is picked by the detected contract type
+      let rulesetId: number | null = null;
+      if (req.body?.rulesetId) {
+        rulesetId = parseInt(req.body.rulesetId);
+        if (isNaN(rulesetId) || !(await storage.getRuleset(rulesetId))) {
+          return res.status(404).json({ message: "Ruleset not found" });
         }
-        console.log(`Reset ${existingClauses.length} clauses successfully`);
-      } catch (resetError) {
-        console.error("Error resetting clauses:", resetError);
-        // Continue with upload even if reset fails
       }
       
-      // Extract text clauses from document
-      console.log("Extracting clauses from document...");
-      const extractedClauses = await extractClauses(buffer, mimetype);
-      console.log(`Extracted ${extractedClauses.length} clauses`);
-      
-      // Get compliance rules
-      const rules = await storage.getAllComplianceRules();
-      console.log(`Found ${rules.length} compliance rules for analysis`);
-      
-      // Analyze clauses against compliance rules
-      console.log("Analyzing clauses against compliance rules...");
-      const analyzedClauses = await analyzeDocument(extractedClauses, rules, fileId);
-      console.log(`Analysis complete. Processed ${analyzedClauses.length} clauses`);
-      
-      // Store clauses in database
-      console.log("Storing analyzed clauses in database...");
-      for (const clause of analyzedClauses) {
-        // Initialize with completed = false
-        const clauseWithCompletion = {
-          ...clause,
-          completed: false
-        };
-        await storage.createClause(clauseWithCompletion);
+      // An upload can be attached to an existing contract as its next version
+      let previousVersion: ContractDocument | undefined;
+      if (req.body?.versionOf) {
+        previousVersion = await storage.getDocument(req.body.versionOf);
+        if (!previousVersion) {
+          return res.status(404).json({ message: "Document to version not found" });
+        }
       }
       
-      // Generate contract summary
-      console.log("Generating contract summary...");
+      const contentHash = createHash("sha256").update(buffer).digest("hex");
       
-      // Combined text for AI analysis
-      const fullText = extractedClauses.join("\n\n");
+      // Fingerprint the text as well, so the same contract saved in another format or lightly edited is caught
+      // OCR is left to the analysis job, which fingerprints scans once it has recognized them
+      let fingerprint: TextFingerprint | undefined;
+      try {
+        const { text } = await extractText(buffer, mimetype, originalname, { ocr: false });
+        fingerprint = text.trim() ? fingerprintText(text) : undefined;
+      } catch (extractError) {
+        // Analysis will report the problem; the upload is still recorded
+        console.error("Could not extract text for duplicate detection:", extractError);
+      }
       
-      // Extract financial information using AI if available
-      let fees = [];
-      let paymentTerms = ["Net 30 days"];
-      let rateCard = [];
+      // A new draft is expected to resemble the version it replaces, so only check standalone uploads
+      const duplicate = previousVersion
+        ? undefined
+        : findDuplicate(await storage.getAllDocuments(), contentHash, fingerprint);
       
-      if (process.env.OPENAI_API_KEY) {
-        try {
-          console.log("Using OpenAI to extract financial information");
-          const { extractFinancials } = require('./utils/contractAnalyzer');
-          const financialData = await extractFinancials(fullText);
-          
-          if (financialData) {
-            fees = financialData.fees || [];
-            paymentTerms = financialData.paymentTerms || ["Net 30 days"];
-            rateCard = financialData.rateCard || [];
-            console.log("AI financial extraction successful");
-          }
-        } catch (aiError) {
-          console.error("Error using OpenAI for financial extraction:", aiError);
-          console.log("Falling back to basic extraction");
+      if (duplicate) {
+        const existing = duplicate.document;
+        console.log(`Upload matches document ${existing.id} (${duplicate.match}, similarity ${duplicate.similarity.toFixed(2)})`);
+        
+        if (!duplicateAction) {
+          return res.status(409).json({
+            message: `This contract looks like ${existing.filename}, which is already in the workspace`,
+            duplicate
+          });
         }
-      }
-      
-      // If AI extraction failed or is not available, use basic extraction as fallback
-      if (fees.length === 0) {
-        console.log("Using basic fee extraction as fallback");
-        // Extract fee information from the document
-        const feeRelatedClauses = analyzedClauses.filter(c => 
-          c.clause.toLowerCase().includes("fee") || 
-          c.clause.toLowerCase().includes("payment") ||
-          c.clause.toLowerCase().includes("cost") ||
-          c.clause.toLowerCase().includes("price") ||
-          c.clause.toLowerCase().includes("charge")
-        );
         
-        // Extract fees based on the content (simplified extraction logic)
-        const extractedFees = feeRelatedClauses.map(clause => {
-          // Basic pattern matching to identify fee information
-          const clause_text = clause.clause.toLowerCase();
-          const fee_name_match = clause_text.match(/(?:a|an|the)\s+([a-z\s]+(?:fee|charge|payment))/i);
-          const amount_match = clause_text.match(/\$\s*([0-9,\.]+)|([0-9,\.]+)\s*dollars/i);
-          const percentage_match = clause_text.match(/([0-9\.]+)\s*(?:percent|%)/i);
-          const frequency_match = clause_text.match(/(?:per|each|every)\s+(month|year|quarter|week|day|hour|annum)/i);
-          
-          let frequency = frequency_match ? frequency_match[1] : undefined;
-          let category = clause.category || "General Fee";
-          
-          // Extract amount from either dollar match or percentage match
-          let amount;
-          if (amount_match) {
-            amount = amount_match[0];
-          } else if (percentage_match) {
-            amount = percentage_match[0];
-          } else {
-            amount = "See contract for details";
-          }
-          
-          // Extract fee name, or use category if no name found
-          let name;
-          if (fee_name_match) {
-            name = fee_name_match[1].trim();
-            // Capitalize first letter of each word
-            name = name.replace(/\b\w/g, l => l.toUpperCase());
-          } else {
-            name = "Unspecified Fee";
-          }
+        if (duplicateAction === "reuse") {
+          return res.json({
+            message: "Reusing existing analysis",
+            document_id: existing.id,
+            document: existing,
+            reused: true
+          });
+        }
+        
+        if (duplicateAction === "reanalyze") {
+          // Analyze this upload in place of the existing original, keeping the document ID
+          const storageKey = originalFileKey(existing.id);
+          await blobStore.put(storageKey, buffer, mimetype);
+          const document = await storage.updateDocument(existing.id, {
+            filename: originalname,
+            mimetype,
+            size: buffer.length,
+            contentHash,
+            textHash: fingerprint?.textHash ?? null,
+            simhash: fingerprint?.simhash ?? null,
+            storageKey,
+            rulesetId: rulesetId ?? existing.rulesetId,
+            status: "processing",
+            error: null
+          });
+          const job = await enqueueAnalysis(existing.id);
           
-          return {
-            name,
-            amount,
-            frequency,
-            category,
-            description: clause.clause.substring(0, 100) + (clause.clause.length > 100 ? "..." : "")
-          };
-        });
+          return res.status(202).json({
+            message: "Document queued for re-analysis",
+            document_id: existing.id,
+            document,
+            jobId: job.id
+          });
+        }
         
-        // Remove duplicates by name 
-        fees = Array.from(
-          new Map(extractedFees.map(fee => [fee.name, fee])).values()
-        );
+        // Register the upload as the next version of the existing contract
+        previousVersion = existing;
       }
       
-      // Identify key clauses by category
-      const terminationClause = analyzedClauses.find(c => 
-        c.category === "Termination" || 
-        c.clause.toLowerCase().includes("terminat")
-      )?.clause || "Either party may terminate with 30 days written notice";
-      
-      const confidentialityClause = analyzedClauses.find(c => 
-        c.category === "Confidentiality" || 
-        c.clause.toLowerCase().includes("confidential")
-      )?.clause || "Standard confidentiality terms apply";
-      
-      // Create the summary object
-      const summary = {
-        documentId: fileId,
-        title: `Contract Agreement ${originalname}`,
-        parties: {
-          party1: "Company A",
-          party2: "Company B"
-        },
-        effectiveDate: new Date().toISOString().split('T')[0],
-        termLength: "12 months",
-        paymentTerms: paymentTerms,
-        rateCard: rateCard.length > 0 ? rateCard : [
-          {
-            item: "Basic Service",
-            rate: "$1,000",
-            unit: "per month"
-          },
-          {
-            item: "Premium Support",
-            rate: "$150",
-            unit: "per hour"
-          }
-        ],
-        fees: fees.length > 0 ? fees : [
-          {
-            name: "Setup Fee",
-            amount: "$500",
-            frequency: "one-time",
-            category: "Initial Fees",
-            description: "One-time setup fee charged at the beginning of the contract"
-          }
-        ],
-        keyObligations: analyzedClauses
-          .filter(c => c.compliance_status === "Compliant" && c.risk_score < 5)
-          .slice(0, 3)
-          .map(c => c.clause),
-        confidentialityTerms: confidentialityClause,
-        terminationClauses: [terminationClause]
-      };
+      let versionOf: string | null = null;
+      let version = 1;
+      if (previousVersion) {
+        const versions = await storage.getDocumentVersions(previousVersion.id);
+        versionOf = previousVersion.versionOf ?? previousVersion.id;
+        version = Math.max(...versions.map(document => document.version)) + 1;
+        console.log(`Registering upload as version ${version} of document ${versionOf}`);
+      }
       
-      await storage.createContractSummary(summary);
-      console.log("Contract summary generated successfully.");
+      fileId = randomUUID();
+      console.log(`Processing document with ID: ${fileId}`);
       
-      console.log("Document analysis complete. Sending response.");
-      res.json({ 
-        message: "Document analyzed successfully",
+      // Record the document before analysis so a failed upload still shows up in the workspace
+      await storage.createDocument({
+        id: fileId,
+        filename: originalname,
+        mimetype,
+        size: buffer.length,
+        contentHash,
+        textHash: fingerprint?.textHash ?? null,
+        simhash: fingerprint?.simhash ?? null,
+        versionOf,
+        version,
+        // A new version keeps the ruleset chosen for the contract unless another is picked
+        rulesetId: rulesetId ?? previousVersion?.rulesetId ?? null,
+        status: "processing"
+      });
+      
+      // Keep the original so it can be downloaded and viewed after analysis
+      const storageKey = originalFileKey(fileId);
+      await blobStore.put(storageKey, buffer, mimetype);
+      await storage.updateDocument(fileId, { storageKey });
+      
+      // Analysis runs in the background; the client follows it through the job's progress stream
+      const job = await enqueueAnalysis(fileId);
+      const document = await storage.getDocument(fileId);
+      
+      res.status(202).json({ 
+        message: "Document queued for analysis",
         document_id: fileId,
-        clauses: analyzedClauses,
-        summary: summary
+        document,
+        jobId: job.id
       });
     } catch (error: any) {
       console.error("Error processing file:", error);
+      if (fileId) {
+        await storage.updateDocument(fileId, { status: "failed", error: error.message }).catch(updateError => {
+          console.error("Error marking document as failed:", updateError);
+        });
+      }
       res.status(500).json({ message: error.message || "Error processing file" });
     }
   });
 
+  // Get an analysis job
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getAnalysisJob(id);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Analysis job not found" });
+      }
+      
+      res.json(job);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Stream an analysis job's progress as server-sent events, ending once it is done or failed
+  app.get("/api/jobs/:id/events", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getAnalysisJob(id);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Analysis job not found" });
+      }
+      
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive"
+      });
+      
+      const send = (update: AnalysisJob) => {
+        if (res.writableEnded) {
+          return;
+        }
+        res.write(`data: ${JSON.stringify(update)}\n\n`);
+        if (update.status === "done" || update.status === "failed" || update.status === "cancelled") {
+          stop();
+          res.end();
+        }
+      };
+      const stop = () => {
+        jobEvents.off(`job:${id}`, send);
+      };
+      
+      jobEvents.on(`job:${id}`, send);
+      req.on("close", stop);
+      // Read again after subscribing so an update made in between is not missed
+      send((await storage.getAnalysisJob(id)) ?? job);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Get contract summary
   app.get("/api/contract-summary/:documentId", async (req, res) => {
     try {
@@ -384,7 +1165,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Contract summary not found" });
       }
       
-      res.json(summary);
+      // The contract's risk is kept on the document, since re-analysis recomputes it
+      const document = await storage.getDocument(documentId);
+      res.json({
+        ...summary,
+        riskScore: document?.riskScore ?? null,
+        riskCategories: document?.riskCategories ?? null
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -475,6 +1262,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           terminationClauses: [
             "Either party may terminate with 30 days written notice",
             "Immediate termination allowed in case of material breach"
+          ],
+          // None of this sample is read from the contract
+          defaultedFields: [
+            "title", "parties", "effectiveDate", "termLength", "paymentTerms", "rateCard",
+            "fees", "keyObligations", "confidentialityTerms", "terminationClauses"
           ]
         };
         
@@ -1008,6 +1800,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       let bulletPoints;
+      const riskModel = await storage.getRiskModel();
       
       // Try to use OpenAI to generate a detailed summary if available
       if (process.env.OPENAI_API_KEY) {
@@ -1015,17 +1808,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log("Using OpenAI to generate bullet point summary");
           const { generateBulletSummaryWithAI } = require('./utils/openai');
           
-          bulletPoints = await generateBulletSummaryWithAI(documentId, summary, clauses);
+          bulletPoints = await generateBulletSummaryWithAI(documentId, summary, clauses, riskModel);
           console.log(`OpenAI generated ${bulletPoints.length} bullet points`);
         } catch (aiError) {
           console.error("Error using OpenAI for bullet point generation:", aiError);
           console.log("Falling back to basic bullet point generation");
-          bulletPoints = generateBasicBulletPoints(summary, clauses);
+          bulletPoints = generateBasicBulletPoints(summary, clauses, riskModel);
         }
       } else {
         // Fall back to basic bullet point generation if OpenAI is not available
         console.log("OpenAI not available, using basic bullet point generation");
-        bulletPoints = generateBasicBulletPoints(summary, clauses);
+        bulletPoints = generateBasicBulletPoints(summary, clauses, riskModel);
       }
       
       res.json({
@@ -1040,8 +1833,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
 /**
  * Generate basic bullet point summary without using AI
+ * @param riskModel - The bands clauses are counted as high, medium or low risk by
  */
-function generateBasicBulletPoints(summary: any, clauses: any[]): string[] {
+function generateBasicBulletPoints(summary: any, clauses: any[], riskModel: RiskModel = DEFAULT_RISK_MODEL): string[] {
   // Create bullet points based on summary and clauses
   const bulletPoints = [
     `Contract between ${summary.parties?.party1 || 'Party 1'} and ${summary.parties?.party2 || 'Party 2'}.`,
@@ -1068,12 +1862,17 @@ function generateBasicBulletPoints(summary: any, clauses: any[]): string[] {
   bulletPoints.push(`Compliance analysis: ${compliantClauses} compliant clauses, ${nonCompliantClauses} non-compliant clauses, ${reviewClauses} clauses needing review.`);
   
   // Add risk-related bullet points
-  const highRiskClauses = clauses.filter(c => c.risk_score >= 7).length;
-  const mediumRiskClauses = clauses.filter(c => c.risk_score >= 4 && c.risk_score < 7).length;
-  const lowRiskClauses = clauses.filter(c => c.risk_score < 4).length;
+  const highRiskClauses = clauses.filter(c => riskLevel(c.risk_score, riskModel) === "high").length;
+  const mediumRiskClauses = clauses.filter(c => riskLevel(c.risk_score, riskModel) === "medium").length;
+  const lowRiskClauses = clauses.filter(c => riskLevel(c.risk_score, riskModel) === "low").length;
   
   bulletPoints.push(`Risk assessment: ${highRiskClauses} high-risk clauses, ${mediumRiskClauses} medium-risk clauses, ${lowRiskClauses} low-risk clauses.`);
   
+  // Add a bullet point for each required clause the contract lacks
+  (summary.missingClauses || []).forEach((finding: MissingClause) => {
+    bulletPoints.push(`Missing required clause: ${finding.message.replace(/\.$/, '')}.`);
+  });
+  
   // Add confidentiality bullet point if available
   if (summary.confidentialityTerms) {
     bulletPoints.push(`Contains confidentiality requirements.`);
@@ -0,0 +1,211 @@
+import { storage } from "./storage";
+import { getRulesetLineage, getRulesetRules } from "./rulesets";
+import { basicClauseAnalysis } from "./utils/contractAnalyzer";
+import { matchRule, type MatchSpan } from "./utils/ruleMatcher";
+import { findMissingClauses, partitionRules } from "./utils/requiredClauses";
+import { checkThreshold } from "./utils/thresholdRules";
+import type { Clause, ComplianceIssue, ComplianceRule, ContractDocument, InsertComplianceRule } from "@shared/schema";
+import type { RiskModel } from "@shared/riskModel";
+
+// Most clauses listed in a sandbox run over stored clauses; the counts cover them all
+const MAX_LISTED_CLAUSES = 50;
+
+/**
+ * What basic analysis makes of a clause
+ */
+export interface SandboxOutcome {
+  compliance_status: "Compliant" | "Non-Compliant" | "Review Needed";
+  risk_score: number;
+  compliance_issues: ComplianceIssue[];
+}
+
+/**
+ * How a draft rule treats one piece of text, and the clause's analysis without and with it
+ */
+export interface SandboxTextResult {
+  matched: boolean;
+  spans: MatchSpan[];
+  // Threshold rules: the value found next to the match and whether it is within the limit
+  threshold?: { value: string; limit: string; passed: boolean };
+  before: SandboxOutcome;
+  after: SandboxOutcome;
+}
+
+export interface SandboxClauseResult extends SandboxTextResult {
+  clauseId: number;
+  documentId: string;
+  filename: string;
+  section: string | null;
+  heading: string | null;
+  clause: string;
+}
+
+/**
+ * A draft rule run over every clause in storage
+ */
+export interface SandboxStoredResult {
+  scanned: number; // Clauses the draft rule applies to
+  matched: number;
+  changed: number; // Clauses whose status would change
+  transitions: Record<string, number>; // e.g. { "Compliant → Non-Compliant": 3 }
+  clauses: SandboxClauseResult[]; // Matched or changed clauses, those that change first
+  truncated: boolean;
+  // Document-level rules: contracts that would lack the required clause
+  documents?: { documentId: string; filename: string; missingBefore: boolean; missingAfter: boolean }[];
+}
+
+/**
+ * Try a draft rule on pasted text
+ * The text is analyzed with the rules that apply alongside the draft: the shared rules and those of its ruleset.
+ * @param draft - The draft rule
+ * @param text - The text to test
+ * @param replacedRuleId - The stored rule the draft is an edit of, replaced by the draft
+ * @returns Where the draft matched and the analysis with the current rules and with the draft
+ */
+export async function testRuleOnText(draft: InsertComplianceRule, text: string, replacedRuleId?: number): Promise<SandboxTextResult> {
+  const rule = toDraftRule(draft, replacedRuleId);
+  const rules = await getRulesetRules(rule.rulesetId);
+  const riskModel = await storage.getRiskModel();
+  return testText(rule, text, rules, [...rules.filter(other => other.id !== replacedRuleId), rule], riskModel);
+}
+
+/**
+ * Try a draft rule on every analyzed clause, counting the clauses whose status it would change
+ * Each clause is analyzed with the rules of the ruleset its contract was last analyzed with,
+ * and the draft only applies to contracts in the draft's ruleset.
+ * @param draft - The draft rule
+ * @param replacedRuleId - The stored rule the draft is an edit of, replaced by the draft
+ * @returns The clauses the draft (or the rule it replaces) matches, and the status changes
+ */
+export async function testRuleOnClauses(draft: InsertComplianceRule, replacedRuleId?: number): Promise<SandboxStoredResult> {
+  const rule = toDraftRule(draft, replacedRuleId);
+  const replacedRule = replacedRuleId !== undefined ? await storage.getComplianceRule(replacedRuleId) : undefined;
+  const documents = new Map((await storage.getAllDocuments()).map(document => [document.id, document]));
+  const riskModel = await storage.getRiskModel();
+  const rulesByRuleset = new Map<number | null, { rules: ComplianceRule[]; includesDraft: boolean }>();
+
+  // The rules each contract is checked against, looked up once per ruleset
+  const rulesFor = async (document: ContractDocument) => {
+    const rulesetId = document.appliedRulesetId ?? null;
+    if (!rulesByRuleset.has(rulesetId)) {
+      const lineage = rulesetId !== null ? await getRulesetLineage(rulesetId) : [];
+      rulesByRuleset.set(rulesetId, {
+        rules: await getRulesetRules(rulesetId),
+        includesDraft: rule.rulesetId === null || lineage.some(ruleset => ruleset.id === rule.rulesetId),
+      });
+    }
+    return rulesByRuleset.get(rulesetId)!;
+  };
+
+  const clausesByDocument = new Map<string, Clause[]>();
+  (await storage.getAllClauses()).forEach(clause => {
+    clausesByDocument.set(clause.document_id, [...(clausesByDocument.get(clause.document_id) ?? []), clause]);
+  });
+
+  const result: SandboxStoredResult = { scanned: 0, matched: 0, changed: 0, transitions: {}, clauses: [], truncated: false };
+  const listed: SandboxClauseResult[] = [];
+
+  for (const [documentId, clauses] of Array.from(clausesByDocument.entries())) {
+    const document = documents.get(documentId);
+    if (!document) continue;
+
+    const { rules, includesDraft } = await rulesFor(document);
+    const beforeRules = rules;
+    const afterRules = [...rules.filter(other => other.id !== replacedRuleId), ...(includesDraft ? [rule] : [])];
+
+    if (rule.scope === "document") {
+      // A required clause only adds a finding to the summary; clause statuses are unchanged
+      const missingBefore = replacedRule && rules.some(other => other.id === replacedRule.id)
+        ? findMissingClauses([replacedRule], clauses).length > 0
+        : false;
+      const missingAfter = includesDraft && findMissingClauses([rule], clauses).length > 0;
+      if (includesDraft) result.scanned += clauses.length;
+      if (missingBefore || missingAfter) {
+        (result.documents ??= []).push({ documentId, filename: document.filename, missingBefore, missingAfter });
+      }
+      continue;
+    }
+
+    if (includesDraft) result.scanned += clauses.length;
+    for (const clause of clauses) {
+      const draftMatched = includesDraft && matchRule(rule, clause.clause).matched;
+      const replacedMatched = !!replacedRule && beforeRules.some(other => other.id === replacedRule.id)
+        && matchRule(replacedRule, clause.clause).matched;
+      // Only clauses either rule matches can change
+      if (!draftMatched && !replacedMatched) continue;
+
+      const outcome = testText(rule, clause.clause, beforeRules, afterRules, riskModel, clause.section ?? undefined);
+      if (draftMatched) result.matched++;
+      if (outcome.before.compliance_status !== outcome.after.compliance_status) {
+        const transition = `${outcome.before.compliance_status} → ${outcome.after.compliance_status}`;
+        result.transitions[transition] = (result.transitions[transition] ?? 0) + 1;
+        result.changed++;
+      }
+      listed.push({
+        ...outcome,
+        matched: draftMatched,
+        spans: draftMatched ? outcome.spans : [],
+        clauseId: clause.id,
+        documentId,
+        filename: document.filename,
+        section: clause.section,
+        heading: clause.heading,
+        clause: clause.clause,
+      });
+    }
+  }
+
+  const changed = (entry: SandboxClauseResult) => entry.before.compliance_status !== entry.after.compliance_status;
+  result.clauses = listed
+    .sort((a, b) => Number(changed(b)) - Number(changed(a)))
+    .slice(0, MAX_LISTED_CLAUSES);
+  result.truncated = listed.length > MAX_LISTED_CLAUSES;
+  return result;
+}
+
+function testText(
+  rule: ComplianceRule,
+  text: string,
+  beforeRules: ComplianceRule[],
+  afterRules: ComplianceRule[],
+  riskModel: RiskModel,
+  section?: string
+): SandboxTextResult {
+  const match = matchRule(rule, text);
+  const threshold = match.matched && rule.ruleType === "threshold" ? checkThreshold(rule, text, match.spans) : undefined;
+  // Document-level rules are checked against whole contracts, so they never change a clause's analysis
+  const analyze = (rules: ComplianceRule[]): SandboxOutcome => {
+    const { compliance_status, risk_score, compliance_issues } = basicClauseAnalysis(text, partitionRules(rules).clauseRules, section, riskModel);
+    return { compliance_status, risk_score, compliance_issues };
+  };
+
+  const before = analyze(beforeRules);
+  return {
+    matched: match.matched,
+    spans: match.spans,
+    threshold: threshold && { value: threshold.value, limit: threshold.limit, passed: threshold.passed },
+    before,
+    after: rule.scope === "document" ? before : analyze(afterRules),
+  };
+}
+
+/**
+ * Fill in the defaults a draft rule would be saved with
+ */
+function toDraftRule(draft: InsertComplianceRule, replacedRuleId?: number): ComplianceRule {
+  return {
+    // Unsaved drafts get an ID no stored rule has
+    id: replacedRuleId ?? -1,
+    keyword: draft.keyword,
+    ruleType: draft.ruleType ?? "keyword",
+    scope: draft.scope ?? "clause",
+    allowed: draft.allowed ?? true,
+    riskScore: draft.riskScore ?? 5,
+    category: draft.category ?? null,
+    description: draft.description ?? null,
+    thresholdUnit: draft.thresholdUnit ?? null,
+    thresholdOperator: draft.thresholdOperator ?? null,
+    thresholdValue: draft.thresholdValue ?? null,
+    rulesetId: draft.rulesetId ?? null,
+  };
+}
@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { ContractDocument, Ruleset } from "@shared/schema";
+import { storage } from "./storage";
+import { getRulesetLineage, getRulesetRules, selectRuleset, touchRulesets, validateRulesetBase } from "./rulesets";
+
+// The database storage needs DATABASE_URL, so run against the in-memory one
+vi.mock("./db-storage", () => ({ DatabaseStorage: class {} }));
+vi.mock("./storage", async importOriginal => {
+  const actual = await importOriginal<typeof import("./storage")>();
+  return { ...actual, storage: new actual.MemStorage() };
+});
+
+const ndaText = "MUTUAL NON-DISCLOSURE AGREEMENT\n\nEach party shall protect the other's Confidential Information.";
+
+describe("rulesets", () => {
+  let base: Ruleset;
+  let commercial: Ruleset;
+  let nda: Ruleset;
+  let unrelated: Ruleset;
+
+  beforeAll(async () => {
+    base = await storage.createRuleset({ name: "Base", contractTypes: ["NDA"] });
+    commercial = await storage.createRuleset({ name: "Commercial", baseRulesetId: base.id });
+    nda = await storage.createRuleset({ name: "Strict NDA", baseRulesetId: commercial.id, contractTypes: ["NDA"] });
+    unrelated = await storage.createRuleset({ name: "Lease", contractTypes: ["Lease"] });
+
+    await storage.createComplianceRule({ keyword: "base rule", allowed: false, rulesetId: base.id });
+    await storage.createComplianceRule({ keyword: "nda rule", allowed: false, rulesetId: nda.id });
+    await storage.createComplianceRule({ keyword: "lease rule", allowed: false, rulesetId: unrelated.id });
+  });
+
+  it("lists a ruleset's lineage nearest first", async () => {
+    expect((await getRulesetLineage(nda.id)).map(ruleset => ruleset.name)).toEqual(["Strict NDA", "Commercial", "Base"]);
+    expect(await getRulesetLineage(999)).toEqual([]);
+  });
+
+  it("applies inherited and shared rules, but not other rulesets' rules", async () => {
+    const keywords = (await getRulesetRules(nda.id)).map(rule => rule.keyword);
+    expect(keywords).toContain("base rule");
+    expect(keywords).toContain("nda rule");
+    expect(keywords).toContain("Liability clause");
+    expect(keywords).not.toContain("lease rule");
+
+    expect((await getRulesetRules(null)).every(rule => rule.rulesetId === null)).toBe(true);
+  });
+
+  it("refuses a base that would create a loop", async () => {
+    expect(await validateRulesetBase(base.id, nda.id)).toMatch(/cannot inherit from itself/);
+    expect(await validateRulesetBase(nda.id, nda.id)).toMatch(/cannot inherit from itself/);
+    expect(await validateRulesetBase(undefined, 999)).toBe("Base ruleset not found");
+    expect(await validateRulesetBase(unrelated.id, base.id)).toBeUndefined();
+  });
+
+  it("prefers the ruleset chosen at upload, then the most specialised one for the contract type", async () => {
+    const document = { id: "doc", filename: "nda.pdf", rulesetId: null } as ContractDocument;
+
+    expect(await selectRuleset(document, ndaText)).toEqual({ ruleset: nda, contractType: "NDA" });
+    expect((await selectRuleset({ ...document, rulesetId: unrelated.id }, ndaText)).ruleset).toEqual(unrelated);
+    expect(await selectRuleset({ ...document, filename: "notes.txt" }, "Meeting notes")).toEqual({});
+  });
+
+  it("versions a changed ruleset and every ruleset inheriting from it", async () => {
+    await touchRulesets([commercial.id, null]);
+
+    expect((await storage.getRuleset(base.id))?.version).toBe(1);
+    expect((await storage.getRuleset(commercial.id))?.version).toBe(2);
+    expect((await storage.getRuleset(nda.id))?.version).toBe(2);
+    expect((await storage.getRuleset(unrelated.id))?.version).toBe(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { storage } from "./storage";
+import { detectContractType } from "./utils/contractType";
+import type { ComplianceRule, ContractDocument, ContractType, Ruleset } from "@shared/schema";
+
+/**
+ * A ruleset followed by the rulesets it inherits from, nearest first
+ * @param rulesetId - The ruleset ID
+ * @returns The lineage, empty if the ruleset does not exist
+ */
+export async function getRulesetLineage(rulesetId: number): Promise<Ruleset[]> {
+  const lineage: Ruleset[] = [];
+  let ruleset = await storage.getRuleset(rulesetId);
+  // Bases are checked for cycles when saved; the guard covers rulesets edited directly in the database
+  while (ruleset && !lineage.some(ancestor => ancestor.id === ruleset!.id)) {
+    lineage.push(ruleset);
+    ruleset = ruleset.baseRulesetId !== null ? await storage.getRuleset(ruleset.baseRulesetId) : undefined;
+  }
+  return lineage;
+}
+
+/**
+ * The rules a ruleset applies: its own, those it inherits, and the rules shared by every contract
+ * @param rulesetId - The ruleset ID, or null for the shared rules alone
+ * @returns The rules
+ */
+export async function getRulesetRules(rulesetId: number | null): Promise<ComplianceRule[]> {
+  const lineage = rulesetId !== null ? await getRulesetLineage(rulesetId) : [];
+  const rulesetIds = new Set(lineage.map(ruleset => ruleset.id));
+  return (await storage.getAllComplianceRules())
+    .filter(rule => rule.rulesetId === null || rulesetIds.has(rule.rulesetId));
+}
+
+/**
+ * Pick the ruleset to analyze a document with
+ * The ruleset chosen at upload wins; otherwise the contract type is detected and the ruleset
+ * for that type is used, preferring the most specialised when several list it.
+ * @param document - The document
+ * @param text - The document text
+ * @returns The ruleset, if any, and the detected contract type
+ */
+export async function selectRuleset(
+  document: ContractDocument,
+  text: string
+): Promise<{ ruleset?: Ruleset; contractType?: ContractType }> {
+  const contractType = detectContractType(text, document.filename);
+
+  if (document.rulesetId !== null) {
+    const chosen = await storage.getRuleset(document.rulesetId);
+    if (chosen) {
+      return { ruleset: chosen, contractType };
+    }
+    console.warn(`Ruleset ${document.rulesetId} chosen for document ${document.id} no longer exists; selecting by contract type`);
+  }
+
+  if (!contractType) {
+    return {};
+  }
+
+  const candidates = (await storage.getAllRulesets()).filter(ruleset => ruleset.contractTypes.includes(contractType));
+  let best: { ruleset: Ruleset; depth: number } | undefined;
+  for (const ruleset of candidates) {
+    const depth = (await getRulesetLineage(ruleset.id)).length;
+    if (!best || depth > best.depth || (depth === best.depth && ruleset.id < best.ruleset.id)) {
+      best = { ruleset, depth };
+    }
+  }
+  return { ruleset: best?.ruleset, contractType };
+}
+
+/**
+ * Check that a ruleset can inherit from a base without creating a loop
+ * @param rulesetId - The ruleset being saved, undefined when creating one
+ * @param baseRulesetId - The proposed base
+ * @returns A description of the problem, or undefined if the base is valid
+ */
+export async function validateRulesetBase(rulesetId: number | undefined, baseRulesetId: number | null | undefined): Promise<string | undefined> {
+  if (baseRulesetId === null || baseRulesetId === undefined) {
+    return undefined;
+  }
+  const lineage = await getRulesetLineage(baseRulesetId);
+  if (lineage.length === 0) {
+    return "Base ruleset not found";
+  }
+  if (rulesetId !== undefined && lineage.some(ruleset => ruleset.id === rulesetId)) {
+    return "A ruleset cannot inherit from itself or from a ruleset based on it";
+  }
+  return undefined;
+}
+
+/**
+ * Record a change to rulesets as new versions
+ * Rulesets that inherit from a changed ruleset get new versions too, since their rules changed.
+ * @param rulesetIds - The changed rulesets; nulls (shared rules) are ignored
+ */
+export async function touchRulesets(rulesetIds: (number | null | undefined)[]): Promise<void> {
+  const all = await storage.getAllRulesets();
+  const changed = new Set<number>();
+  const visit = (id: number) => {
+    if (changed.has(id)) return;
+    changed.add(id);
+    all.filter(ruleset => ruleset.baseRulesetId === id).forEach(ruleset => visit(ruleset.id));
+  };
+  rulesetIds.forEach(id => {
+    if (id !== null && id !== undefined) visit(id);
+  });
+
+  for (const id of Array.from(changed)) {
+    await storage.bumpRulesetVersion(id);
+  }
+}
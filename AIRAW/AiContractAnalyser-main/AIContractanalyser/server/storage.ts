@@ -1,9 +1,25 @@
 import { 
   users, type User, type InsertUser,
   complianceRules, type ComplianceRule, type InsertComplianceRule,
+  type Ruleset, type InsertRuleset,
+  type LibraryClause, type InsertLibraryClause,
+  type ContractDocument, type InsertContractDocument,
+  type DocumentRelation, type InsertDocumentRelation,
+  type AnalysisJob, type InsertAnalysisJob,
   clauses, type Clause, type InsertClause,
-  type ContractSummary
+  type ClauseEmbedding, type InsertClauseEmbedding,
+  type ContractSummary,
+  type SearchQuery, type SearchResults
 } from "@shared/schema";
+import { DEFAULT_RISK_MODEL, type RiskModel } from "@shared/riskModel";
+import {
+  InvertedIndex,
+  parseSearchQuery,
+  highlightSnippet,
+  clauseSearchText,
+  summarySearchText,
+  hasClauseFilters
+} from "./utils/searchIndex";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -20,6 +36,47 @@ export interface IStorage {
   updateComplianceRule(id: number, rule: InsertComplianceRule): Promise<ComplianceRule | undefined>;
   deleteComplianceRule(id: number): Promise<boolean>;
   
+  // Ruleset operations
+  getRuleset(id: number): Promise<Ruleset | undefined>;
+  getAllRulesets(): Promise<Ruleset[]>;
+  createRuleset(ruleset: InsertRuleset): Promise<Ruleset>;
+  updateRuleset(id: number, ruleset: InsertRuleset): Promise<Ruleset | undefined>;
+  // Records a change to the ruleset or its rules as a new version
+  bumpRulesetVersion(id: number): Promise<Ruleset | undefined>;
+  // Deletes the ruleset together with its rules
+  deleteRuleset(id: number): Promise<boolean>;
+  
+  // Clause library operations
+  getLibraryClause(id: number): Promise<LibraryClause | undefined>;
+  getAllLibraryClauses(): Promise<LibraryClause[]>;
+  createLibraryClause(libraryClause: InsertLibraryClause): Promise<LibraryClause>;
+  updateLibraryClause(id: number, libraryClause: InsertLibraryClause): Promise<LibraryClause | undefined>;
+  deleteLibraryClause(id: number): Promise<boolean>;
+  
+  // Document operations
+  getDocument(id: string): Promise<ContractDocument | undefined>;
+  getAllDocuments(): Promise<ContractDocument[]>;
+  createDocument(document: InsertContractDocument): Promise<ContractDocument>;
+  updateDocument(id: string, document: Partial<InsertContractDocument>): Promise<ContractDocument | undefined>;
+  // Every version of the contract the document belongs to, oldest first
+  getDocumentVersions(id: string): Promise<ContractDocument[]>;
+  // Deletes the document together with its clauses, summary, analysis jobs and relations
+  deleteDocument(id: string): Promise<boolean>;
+  
+  // Document relation operations
+  getAllDocumentRelations(): Promise<DocumentRelation[]>;
+  // Relations in either direction
+  getDocumentRelations(documentId: string): Promise<DocumentRelation[]>;
+  createDocumentRelation(relation: InsertDocumentRelation): Promise<DocumentRelation>;
+  deleteDocumentRelation(id: number): Promise<boolean>;
+  
+  // Analysis job operations
+  getAnalysisJob(id: number): Promise<AnalysisJob | undefined>;
+  // Jobs that were queued or running, oldest first, so they can be resumed after a restart
+  getUnfinishedAnalysisJobs(): Promise<AnalysisJob[]>;
+  createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  updateAnalysisJob(id: number, job: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined>;
+  
   // Clause operations
   getClause(id: number): Promise<Clause | undefined>;
   getAllClauses(): Promise<Clause[]>;
@@ -28,31 +85,69 @@ export interface IStorage {
   updateClause(id: number, clause: Partial<Clause>): Promise<Clause | undefined>;
   deleteClause(id: number): Promise<boolean>;
   
+  // Clause embedding operations
+  getClauseEmbedding(clauseId: number): Promise<ClauseEmbedding | undefined>;
+  getClauseEmbeddingsByModel(model: string): Promise<ClauseEmbedding[]>;
+  saveClauseEmbedding(embedding: InsertClauseEmbedding): Promise<ClauseEmbedding>;
+  
   // Contract summary operations
   getContractSummary(documentId: string): Promise<ContractSummary | undefined>;
   createContractSummary(summary: ContractSummary): Promise<ContractSummary>;
   updateContractSummary(documentId: string, summary: ContractSummary): Promise<ContractSummary | undefined>;
+  
+  // Risk model operations; the default model until one is saved
+  getRiskModel(): Promise<RiskModel>;
+  saveRiskModel(model: RiskModel): Promise<RiskModel>;
+  
+  // Full-text search over clause text, headings and contract summaries
+  search(query: SearchQuery): Promise<SearchResults>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private complianceRulesList: Map<number, ComplianceRule>;
+  private rulesetsList: Map<number, Ruleset>;
+  private libraryClausesList: Map<number, LibraryClause>;
+  private documentsList: Map<string, ContractDocument>;
+  private analysisJobsList: Map<number, AnalysisJob>;
+  private documentRelationsList: Map<number, DocumentRelation>;
   private clausesList: Map<number, Clause>;
+  private clauseEmbeddingsList: Map<number, ClauseEmbedding>;
   private contractSummaries: Map<string, ContractSummary>;
+  private clauseSearchIndex: InvertedIndex<number>;
+  private summarySearchIndex: InvertedIndex<string>;
+  private riskModel: RiskModel;
   
   private userCurrentId: number;
   private ruleCurrentId: number;
+  private rulesetCurrentId: number;
+  private libraryClauseCurrentId: number;
   private clauseCurrentId: number;
+  private jobCurrentId: number;
+  private relationCurrentId: number;
 
   constructor() {
     this.users = new Map();
     this.complianceRulesList = new Map();
+    this.rulesetsList = new Map();
+    this.libraryClausesList = new Map();
+    this.documentsList = new Map();
+    this.analysisJobsList = new Map();
+    this.documentRelationsList = new Map();
     this.clausesList = new Map();
+    this.clauseEmbeddingsList = new Map();
     this.contractSummaries = new Map();
+    this.clauseSearchIndex = new InvertedIndex();
+    this.summarySearchIndex = new InvertedIndex();
+    this.riskModel = DEFAULT_RISK_MODEL;
     
     this.userCurrentId = 1;
     this.ruleCurrentId = 1;
+    this.rulesetCurrentId = 1;
+    this.libraryClauseCurrentId = 1;
     this.clauseCurrentId = 1;
+    this.jobCurrentId = 1;
+    this.relationCurrentId = 1;
     
     // Add some initial compliance rules
     this.createComplianceRule({ keyword: "Non-disclosure agreement", allowed: true });
@@ -89,7 +184,16 @@ export class MemStorage implements IStorage {
   
   async createComplianceRule(rule: InsertComplianceRule): Promise<ComplianceRule> {
     const id = this.ruleCurrentId++;
-    const newRule: ComplianceRule = { ...rule, id };
+    const newRule: ComplianceRule = {
+      ...rule,
+      ruleType: rule.ruleType ?? "keyword",
+      scope: rule.scope ?? "clause",
+      thresholdUnit: rule.thresholdUnit ?? null,
+      thresholdOperator: rule.thresholdOperator ?? null,
+      thresholdValue: rule.thresholdValue ?? null,
+      rulesetId: rule.rulesetId ?? null,
+      id
+    };
     this.complianceRulesList.set(id, newRule);
     return newRule;
   }
@@ -101,7 +205,17 @@ export class MemStorage implements IStorage {
       return undefined;
     }
     
-    const updatedRule: ComplianceRule = { ...rule, id };
+    const updatedRule: ComplianceRule = {
+      ...rule,
+      ruleType: rule.ruleType ?? existingRule.ruleType,
+      scope: rule.scope ?? existingRule.scope,
+      thresholdUnit: rule.thresholdUnit ?? existingRule.thresholdUnit,
+      thresholdOperator: rule.thresholdOperator ?? existingRule.thresholdOperator,
+      thresholdValue: rule.thresholdValue ?? existingRule.thresholdValue,
+      // Null moves the rule out of its ruleset
+      rulesetId: rule.rulesetId !== undefined ? rule.rulesetId : existingRule.rulesetId,
+      id
+    };
     this.complianceRulesList.set(id, updatedRule);
     
     return updatedRule;
@@ -111,6 +225,263 @@ export class MemStorage implements IStorage {
     return this.complianceRulesList.delete(id);
   }
   
+  // Ruleset methods
+  async getRuleset(id: number): Promise<Ruleset | undefined> {
+    return this.rulesetsList.get(id);
+  }
+  
+  async getAllRulesets(): Promise<Ruleset[]> {
+    return Array.from(this.rulesetsList.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async createRuleset(ruleset: InsertRuleset): Promise<Ruleset> {
+    const id = this.rulesetCurrentId++;
+    const now = new Date();
+    const newRuleset: Ruleset = {
+      ...ruleset,
+      description: ruleset.description ?? null,
+      baseRulesetId: ruleset.baseRulesetId ?? null,
+      contractTypes: ruleset.contractTypes ?? [],
+      id,
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.rulesetsList.set(id, newRuleset);
+    return newRuleset;
+  }
+  
+  async updateRuleset(id: number, ruleset: InsertRuleset): Promise<Ruleset | undefined> {
+    const existingRuleset = this.rulesetsList.get(id);
+    
+    if (!existingRuleset) {
+      return undefined;
+    }
+    
+    const updatedRuleset: Ruleset = {
+      ...existingRuleset,
+      ...ruleset,
+      description: ruleset.description ?? null,
+      baseRulesetId: ruleset.baseRulesetId ?? null,
+      contractTypes: ruleset.contractTypes ?? existingRuleset.contractTypes,
+      updatedAt: new Date()
+    };
+    this.rulesetsList.set(id, updatedRuleset);
+    
+    return updatedRuleset;
+  }
+  
+  async bumpRulesetVersion(id: number): Promise<Ruleset | undefined> {
+    const existingRuleset = this.rulesetsList.get(id);
+    
+    if (!existingRuleset) {
+      return undefined;
+    }
+    
+    const updatedRuleset: Ruleset = { ...existingRuleset, version: existingRuleset.version + 1, updatedAt: new Date() };
+    this.rulesetsList.set(id, updatedRuleset);
+    return updatedRuleset;
+  }
+  
+  async deleteRuleset(id: number): Promise<boolean> {
+    Array.from(this.complianceRulesList.values())
+      .filter((rule) => rule.rulesetId === id)
+      .forEach((rule) => this.complianceRulesList.delete(rule.id));
+    return this.rulesetsList.delete(id);
+  }
+  
+  // Clause library methods
+  async getLibraryClause(id: number): Promise<LibraryClause | undefined> {
+    return this.libraryClausesList.get(id);
+  }
+  
+  async getAllLibraryClauses(): Promise<LibraryClause[]> {
+    return Array.from(this.libraryClausesList.values())
+      .sort((a, b) => a.category.localeCompare(b.category) || a.title.localeCompare(b.title));
+  }
+  
+  async createLibraryClause(libraryClause: InsertLibraryClause): Promise<LibraryClause> {
+    const id = this.libraryClauseCurrentId++;
+    const now = new Date();
+    const newLibraryClause: LibraryClause = {
+      ...libraryClause,
+      notes: libraryClause.notes ?? null,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.libraryClausesList.set(id, newLibraryClause);
+    return newLibraryClause;
+  }
+  
+  async updateLibraryClause(id: number, libraryClause: InsertLibraryClause): Promise<LibraryClause | undefined> {
+    const existingLibraryClause = this.libraryClausesList.get(id);
+    
+    if (!existingLibraryClause) {
+      return undefined;
+    }
+    
+    const updatedLibraryClause: LibraryClause = {
+      ...existingLibraryClause,
+      ...libraryClause,
+      notes: libraryClause.notes ?? null,
+      updatedAt: new Date()
+    };
+    this.libraryClausesList.set(id, updatedLibraryClause);
+    
+    return updatedLibraryClause;
+  }
+  
+  async deleteLibraryClause(id: number): Promise<boolean> {
+    return this.libraryClausesList.delete(id);
+  }
+  
+  // Document methods
+  async getDocument(id: string): Promise<ContractDocument | undefined> {
+    return this.documentsList.get(id);
+  }
+  
+  async getAllDocuments(): Promise<ContractDocument[]> {
+    // Newest first
+    return Array.from(this.documentsList.values()).sort(
+      (a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime()
+    );
+  }
+  
+  async createDocument(document: InsertContractDocument): Promise<ContractDocument> {
+    const newDocument: ContractDocument = {
+      ...document,
+      uploadedAt: new Date(),
+      status: document.status ?? "processing",
+      storageKey: document.storageKey ?? null,
+      textHash: document.textHash ?? null,
+      simhash: document.simhash ?? null,
+      versionOf: document.versionOf ?? null,
+      version: document.version ?? 1,
+      pageCount: document.pageCount ?? null,
+      error: document.error ?? null,
+      rulesetId: document.rulesetId ?? null,
+      contractType: document.contractType ?? null,
+      appliedRulesetId: document.appliedRulesetId ?? null,
+      appliedRulesetVersion: document.appliedRulesetVersion ?? null,
+      riskScore: document.riskScore ?? null,
+      riskCategories: document.riskCategories ?? null
+    };
+    this.documentsList.set(newDocument.id, newDocument);
+    return newDocument;
+  }
+  
+  async updateDocument(id: string, document: Partial<InsertContractDocument>): Promise<ContractDocument | undefined> {
+    const existingDocument = this.documentsList.get(id);
+    
+    if (!existingDocument) {
+      return undefined;
+    }
+    
+    const updatedDocument = { ...existingDocument, ...document, id } as ContractDocument;
+    this.documentsList.set(id, updatedDocument);
+    
+    return updatedDocument;
+  }
+  
+  async getDocumentVersions(id: string): Promise<ContractDocument[]> {
+    const document = this.documentsList.get(id);
+    
+    if (!document) {
+      return [];
+    }
+    
+    const rootId = document.versionOf ?? document.id;
+    return Array.from(this.documentsList.values())
+      .filter((version) => version.id === rootId || version.versionOf === rootId)
+      .sort((a, b) => a.version - b.version);
+  }
+  
+  async deleteDocument(id: string): Promise<boolean> {
+    Array.from(this.clausesList.values())
+      .filter((clause) => clause.document_id === id)
+      .forEach((clause) => {
+        this.clausesList.delete(clause.id);
+        this.clauseEmbeddingsList.delete(clause.id);
+        this.clauseSearchIndex.remove(clause.id);
+      });
+    this.contractSummaries.delete(id);
+    this.summarySearchIndex.remove(id);
+    Array.from(this.analysisJobsList.values())
+      .filter((job) => job.documentId === id)
+      .forEach((job) => this.analysisJobsList.delete(job.id));
+    Array.from(this.documentRelationsList.values())
+      .filter((relation) => relation.documentId === id || relation.relatedDocumentId === id)
+      .forEach((relation) => this.documentRelationsList.delete(relation.id));
+    
+    return this.documentsList.delete(id);
+  }
+  
+  // Document relation methods
+  async getAllDocumentRelations(): Promise<DocumentRelation[]> {
+    return Array.from(this.documentRelationsList.values());
+  }
+  
+  async getDocumentRelations(documentId: string): Promise<DocumentRelation[]> {
+    return Array.from(this.documentRelationsList.values()).filter(
+      (relation) => relation.documentId === documentId || relation.relatedDocumentId === documentId
+    );
+  }
+  
+  async createDocumentRelation(relation: InsertDocumentRelation): Promise<DocumentRelation> {
+    const id = this.relationCurrentId++;
+    const newRelation: DocumentRelation = { ...relation, sequence: relation.sequence ?? null, id, createdAt: new Date() };
+    this.documentRelationsList.set(id, newRelation);
+    return newRelation;
+  }
+  
+  async deleteDocumentRelation(id: number): Promise<boolean> {
+    return this.documentRelationsList.delete(id);
+  }
+  
+  // Analysis job methods
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    return this.analysisJobsList.get(id);
+  }
+  
+  async getUnfinishedAnalysisJobs(): Promise<AnalysisJob[]> {
+    return Array.from(this.analysisJobsList.values())
+      .filter((job) => job.status !== "done" && job.status !== "failed")
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const id = this.jobCurrentId++;
+    const now = new Date();
+    const newJob: AnalysisJob = {
+      ...job,
+      id,
+      kind: job.kind ?? "full",
+      status: job.status ?? "queued",
+      progress: job.progress ?? 0,
+      total: job.total ?? 0,
+      error: job.error ?? null,
+      result: job.result ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.analysisJobsList.set(id, newJob);
+    return newJob;
+  }
+  
+  async updateAnalysisJob(id: number, job: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const existingJob = this.analysisJobsList.get(id);
+    
+    if (!existingJob) {
+      return undefined;
+    }
+    
+    const updatedJob = { ...existingJob, ...job, id, updatedAt: new Date() } as AnalysisJob;
+    this.analysisJobsList.set(id, updatedJob);
+    
+    return updatedJob;
+  }
+  
   // Clause methods
   async getClause(id: number): Promise<Clause | undefined> {
     return this.clausesList.get(id);
@@ -130,10 +501,13 @@ export class MemStorage implements IStorage {
     const id = this.clauseCurrentId++;
     const newClause: Clause = { ...clause, id };
     this.clausesList.set(id, newClause);
+    this.clauseSearchIndex.add(id, clauseSearchText(newClause));
     return newClause;
   }
   
   async deleteClause(id: number): Promise<boolean> {
+    this.clauseEmbeddingsList.delete(id);
+    this.clauseSearchIndex.remove(id);
     return this.clausesList.delete(id);
   }
   
@@ -146,10 +520,31 @@ export class MemStorage implements IStorage {
     
     const updatedClause: Clause = { ...existingClause, ...clause };
     this.clausesList.set(id, updatedClause);
+    this.clauseSearchIndex.add(id, clauseSearchText(updatedClause));
+    // The embedding no longer describes edited text
+    if (clauseSearchText(updatedClause) !== clauseSearchText(existingClause)) {
+      this.clauseEmbeddingsList.delete(id);
+    }
     
     return updatedClause;
   }
 
+  // Clause embedding methods
+  async getClauseEmbedding(clauseId: number): Promise<ClauseEmbedding | undefined> {
+    return this.clauseEmbeddingsList.get(clauseId);
+  }
+  
+  async getClauseEmbeddingsByModel(model: string): Promise<ClauseEmbedding[]> {
+    return Array.from(this.clauseEmbeddingsList.values())
+      .filter((embedding) => embedding.model === model);
+  }
+  
+  async saveClauseEmbedding(embedding: InsertClauseEmbedding): Promise<ClauseEmbedding> {
+    const savedEmbedding: ClauseEmbedding = { ...embedding, createdAt: new Date() };
+    this.clauseEmbeddingsList.set(embedding.clauseId, savedEmbedding);
+    return savedEmbedding;
+  }
+
   // Contract summary methods
   async getContractSummary(documentId: string): Promise<ContractSummary | undefined> {
     return this.contractSummaries.get(documentId);
@@ -157,6 +552,7 @@ export class MemStorage implements IStorage {
 
   async createContractSummary(summary: ContractSummary): Promise<ContractSummary> {
     this.contractSummaries.set(summary.documentId, summary);
+    this.summarySearchIndex.add(summary.documentId, summarySearchText(summary));
     return summary;
   }
 
@@ -168,10 +564,54 @@ export class MemStorage implements IStorage {
     }
     
     this.contractSummaries.set(documentId, summary);
+    this.summarySearchIndex.add(documentId, summarySearchText(summary));
     return summary;
   }
+
+  // Risk model methods
+  async getRiskModel(): Promise<RiskModel> {
+    return this.riskModel;
+  }
+  
+  async saveRiskModel(model: RiskModel): Promise<RiskModel> {
+    this.riskModel = model;
+    return model;
+  }
+
+  // Search methods
+  async search(query: SearchQuery): Promise<SearchResults> {
+    const parsed = parseSearchQuery(query.q);
+    
+    const clauseHits = this.clauseSearchIndex.search(parsed)
+      .map(({ key, rank }) => ({ clause: this.clausesList.get(key)!, rank }))
+      .filter(({ clause }) =>
+        (!query.documentId || clause.document_id === query.documentId) &&
+        (!query.category || clause.category === query.category) &&
+        (query.minRisk === undefined || clause.risk_score >= query.minRisk) &&
+        (query.maxRisk === undefined || clause.risk_score <= query.maxRisk) &&
+        (!query.complianceStatus || clause.compliance_status === query.complianceStatus)
+      )
+      .slice(0, query.limit)
+      .map(({ clause, rank }) => ({ clause, rank, snippet: highlightSnippet(clause.clause, parsed) }));
+    
+    // Summaries have no category, risk or compliance status, so clause filters leave them out
+    const summaryHits = hasClauseFilters(query) ? [] : this.summarySearchIndex.search(parsed)
+      .filter(({ key }) => !query.documentId || key === query.documentId)
+      .slice(0, query.limit)
+      .map(({ key, rank }) => {
+        const summary = this.contractSummaries.get(key)!;
+        return {
+          documentId: key,
+          title: summary.title ?? null,
+          rank,
+          snippet: highlightSnippet(summarySearchText(summary), parsed)
+        };
+      });
+    
+    return { clauses: clauseHits, summaries: summaryHits };
+  }
 }
 
-// Import and use the DatabaseStorage
+
 import { DatabaseStorage } from "./db-storage";
 export const storage = new DatabaseStorage();
@@ -0,0 +1,269 @@
+import type { Clause } from "@shared/schema";
+import { normalizeForComparison } from "./textChunker";
+
+// Clauses at least this similar are treated as the same clause, edited
+const MATCH_THRESHOLD = 0.5;
+// Clauses under the same section number need less textual overlap to be paired
+const SECTION_MATCH_THRESHOLD = 0.3;
+// Above this many token pairs the word diff falls back to replacing the whole clause
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * A run of text in a redline
+ */
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export type ClauseChange = "unchanged" | "modified" | "inserted" | "deleted";
+
+/**
+ * A clause in one version aligned with its counterpart in the other
+ */
+export interface ClauseComparison {
+  change: ClauseChange;
+  base?: Clause;
+  revised?: Clause;
+  // Word overlap between the two texts (0-1), 0 for inserted and deleted clauses
+  similarity: number;
+  diff: DiffSegment[];
+  // Revised risk score minus base risk score, 0 unless both versions have the clause
+  riskDelta: number;
+  complianceChanged: boolean;
+}
+
+/**
+ * Clause-level comparison of two versions of a contract
+ */
+export interface VersionComparison {
+  summary: {
+    unchanged: number;
+    modified: number;
+    inserted: number;
+    deleted: number;
+    riskIncreased: number;
+    riskDecreased: number;
+    complianceChanged: number;
+  };
+  clauses: ClauseComparison[];
+}
+
+/**
+ * Align the clauses of two versions and describe what changed between them
+ * @param baseClauses - Clauses of the earlier version
+ * @param revisedClauses - Clauses of the later version
+ * @returns Aligned clauses in the revised version's order, with deleted clauses where they used to be
+ */
+export function compareVersions(baseClauses: Clause[], revisedClauses: Clause[]): VersionComparison {
+  const base = [...baseClauses].sort((a, b) => a.id - b.id);
+  const revised = [...revisedClauses].sort((a, b) => a.id - b.id);
+  const baseWords = base.map(clause => wordSet(clause.clause));
+  const revisedWords = revised.map(clause => wordSet(clause.clause));
+
+  // revised index -> base index
+  const matches = new Map<number, number>();
+  const matchedBase = new Set<number>();
+  const similarities = new Map<number, number>();
+
+  const pair = (candidates: { r: number; b: number; similarity: number }[]) => {
+    candidates
+      .sort((x, y) => y.similarity - x.similarity)
+      .forEach(({ r, b, similarity }) => {
+        if (!matches.has(r) && !matchedBase.has(b)) {
+          matches.set(r, b);
+          matchedBase.add(b);
+          similarities.set(r, similarity);
+        }
+      });
+  };
+
+  // Same section number first, then the closest text anywhere, so renumbered clauses still pair up
+  const sectionCandidates: { r: number; b: number; similarity: number }[] = [];
+  revised.forEach((revisedClause, r) => {
+    base.forEach((baseClause, b) => {
+      if (revisedClause.section && revisedClause.section === baseClause.section) {
+        const similarity = dice(revisedWords[r], baseWords[b]);
+        if (similarity >= SECTION_MATCH_THRESHOLD) {
+          sectionCandidates.push({ r, b, similarity });
+        }
+      }
+    });
+  });
+  pair(sectionCandidates);
+
+  const textCandidates: { r: number; b: number; similarity: number }[] = [];
+  revised.forEach((_, r) => {
+    if (matches.has(r)) return;
+    base.forEach((_, b) => {
+      if (matchedBase.has(b)) return;
+      const similarity = dice(revisedWords[r], baseWords[b]);
+      if (similarity >= MATCH_THRESHOLD) {
+        textCandidates.push({ r, b, similarity });
+      }
+    });
+  });
+  pair(textCandidates);
+
+  const clauses: ClauseComparison[] = [];
+  const emittedBase = new Set<number>();
+  const emitDeletedBefore = (limit: number) => {
+    for (let b = 0; b < limit; b++) {
+      if (!matchedBase.has(b) && !emittedBase.has(b)) {
+        emittedBase.add(b);
+        clauses.push(deleted(base[b]));
+      }
+    }
+  };
+
+  revised.forEach((revisedClause, r) => {
+    const b = matches.get(r);
+    if (b === undefined) {
+      clauses.push(inserted(revisedClause));
+      return;
+    }
+
+    emitDeletedBefore(b);
+    const baseClause = base[b];
+    const unchanged = normalizeForComparison(baseClause.clause) === normalizeForComparison(revisedClause.clause);
+    clauses.push({
+      change: unchanged ? "unchanged" : "modified",
+      base: baseClause,
+      revised: revisedClause,
+      similarity: similarities.get(r) ?? 1,
+      diff: unchanged ? [{ type: "equal", text: revisedClause.clause }] : diffWords(baseClause.clause, revisedClause.clause),
+      riskDelta: revisedClause.risk_score - baseClause.risk_score,
+      complianceChanged: revisedClause.compliance_status !== baseClause.compliance_status,
+    });
+  });
+  emitDeletedBefore(base.length);
+
+  return {
+    summary: {
+      unchanged: clauses.filter(c => c.change === "unchanged").length,
+      modified: clauses.filter(c => c.change === "modified").length,
+      inserted: clauses.filter(c => c.change === "inserted").length,
+      deleted: clauses.filter(c => c.change === "deleted").length,
+      riskIncreased: clauses.filter(c => c.riskDelta > 0).length,
+      riskDecreased: clauses.filter(c => c.riskDelta < 0).length,
+      complianceChanged: clauses.filter(c => c.complianceChanged).length,
+    },
+    clauses,
+  };
+}
+
+/**
+ * Word-level diff of two texts
+ * @param before - The earlier text
+ * @param after - The later text
+ * @returns Segments that rebuild `before` from the equal and delete runs and `after` from the equal and insert runs
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ type: "delete", text: before }, { type: "insert", text: after }];
+  }
+
+  // Longest common subsequence table, filled from the end so the walk below runs forwards
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+
+  return segments;
+}
+
+/**
+ * How much wording two texts share, ignoring case, punctuation and word order
+ * @param a - One text
+ * @param b - The other text
+ * @returns Overlap from 0 (nothing shared) to 1 (same words)
+ */
+export function textSimilarity(a: string, b: string): number {
+  return dice(wordSet(a), wordSet(b));
+}
+
+/**
+ * Split text into words and the whitespace between them
+ * @param text - The text
+ * @returns Tokens that join back into the original text
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Distinct normalized words of a text
+ * @param text - The text
+ * @returns The set of words
+ */
+function wordSet(text: string): Set<string> {
+  return new Set(normalizeForComparison(text).split(" ").filter(Boolean));
+}
+
+/**
+ * Dice coefficient of two word sets
+ * @param a - One set
+ * @param b - The other set
+ * @returns Overlap from 0 (nothing shared) to 1 (identical)
+ */
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+function inserted(clause: Clause): ClauseComparison {
+  return {
+    change: "inserted",
+    revised: clause,
+    similarity: 0,
+    diff: [{ type: "insert", text: clause.clause }],
+    riskDelta: 0,
+    complianceChanged: false,
+  };
+}
+
+function deleted(clause: Clause): ClauseComparison {
+  return {
+    change: "deleted",
+    base: clause,
+    similarity: 0,
+    diff: [{ type: "delete", text: clause.clause }],
+    riskDelta: 0,
+    complianceChanged: false,
+  };
+}
@@ -0,0 +1,54 @@
+import type { LibraryClause } from "@shared/schema";
+import { diffWords, textSimilarity, type DiffSegment } from "./clauseComparison";
+
+// Below this much shared wording a clause is not treated as a variant of any library clause
+export const LIBRARY_MATCH_THRESHOLD = 0.25;
+
+/**
+ * The approved library clause an extracted clause is closest to, and how it deviates
+ */
+export interface LibraryMatch {
+  libraryClauseId: number;
+  // Word overlap with the library text (0-1), 1 for the standard wording
+  similarity: number;
+  // Edits that turn the library text into the clause
+  diff: DiffSegment[];
+}
+
+/**
+ * Find the library clause closest to an extracted clause
+ * Library clauses of the clause's own category are preferred; other categories are only
+ * considered when the library has nothing for it, since the category may have been guessed.
+ * @param text - The extracted clause text
+ * @param category - The clause's category, if known
+ * @param library - The approved clauses
+ * @returns The closest match, or undefined if none is close enough
+ */
+export function matchLibraryClause(
+  text: string,
+  category: string | null | undefined,
+  library: LibraryClause[]
+): LibraryMatch | undefined {
+  const sameCategory = category
+    ? library.filter(libraryClause => libraryClause.category.trim().toLowerCase() === category.trim().toLowerCase())
+    : [];
+  const candidates = sameCategory.length > 0 ? sameCategory : library;
+
+  let best: { libraryClause: LibraryClause; similarity: number } | undefined;
+  candidates.forEach(libraryClause => {
+    const similarity = textSimilarity(libraryClause.text, text);
+    if (!best || similarity > best.similarity) {
+      best = { libraryClause, similarity };
+    }
+  });
+
+  if (!best || best.similarity < LIBRARY_MATCH_THRESHOLD) {
+    return undefined;
+  }
+
+  return {
+    libraryClauseId: best.libraryClause.id,
+    similarity: best.similarity,
+    diff: diffWords(best.libraryClause.text, text),
+  };
+}
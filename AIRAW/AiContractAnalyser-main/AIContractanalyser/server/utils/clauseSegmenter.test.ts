@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { segmentClauses } from "./clauseSegmenter";
+
+describe("segmentClauses", () => {
+  it("follows decimal numbering and inline headings", () => {
+    const text = [
+      "1. Definitions. Terms used in this Agreement have the meanings below.",
+      "1.1 \"Services\" means the services described in Schedule 1.",
+      "2. Payment Terms. The Customer shall pay each invoice within 30 days.",
+    ].join("\n");
+
+    const segments = segmentClauses(text);
+    expect(segments.map(({ section, heading, parentSection }) => ({ section, heading, parentSection }))).toEqual([
+      { section: "1", heading: "Definitions", parentSection: undefined },
+      { section: "1.1", heading: undefined, parentSection: "1" },
+      { section: "2", heading: "Payment Terms", parentSection: undefined },
+    ]);
+    expect(segments[2].text).toBe("2. Payment Terms. The Customer shall pay each invoice within 30 days.");
+    expect(segments[2].offset).toBe(text.indexOf("2. Payment"));
+  });
+
+  it("nests lettered and roman sub-clauses under their section", () => {
+    const text = [
+      "4.2 The Supplier shall:",
+      "(a) perform the Services with due care;",
+      "(b) comply with:",
+      "(i) all applicable laws; and",
+      "(ii) the Customer's policies.",
+    ].join("\n");
+
+    expect(segmentClauses(text).map(segment => [segment.section, segment.parentSection])).toEqual([
+      ["4.2", undefined],
+      ["4.2(a)", "4.2"],
+      ["4.2(b)", "4.2"],
+      ["4.2(b)(i)", "4.2(b)"],
+      ["4.2(b)(ii)", "4.2(b)"],
+    ]);
+  });
+
+  it("reads (i) after (h) as a letter rather than a roman numeral", () => {
+    const text = "(h) the eighth item;\n(i) the ninth item;";
+    expect(segmentClauses(text).map(segment => segment.section)).toEqual(["(h)", "(i)"]);
+  });
+
+  it("uses named divisions as parents and keeps their headings", () => {
+    const text = [
+      "ARTICLE IV",
+      "INDEMNIFICATION",
+      "",
+      "4.1 The Supplier shall indemnify the Customer against third-party claims.",
+    ].join("\n");
+
+    const [segment] = segmentClauses(text);
+    expect(segment.section).toBe("4.1");
+    expect(segment.parentSection).toBe("Article IV");
+  });
+
+  it("keeps continuation paragraphs with their clause and names unnumbered text by the heading above it", () => {
+    const text = [
+      "5. Term. This Agreement runs for two years.",
+      "",
+      "It renews automatically unless either party gives notice.",
+      "",
+      "CONFIDENTIALITY",
+      "",
+      "Each party shall keep the other's information confidential.",
+    ].join("\n");
+
+    const segments = segmentClauses(text);
+    expect(segments).toHaveLength(2);
+    expect(segments[0].text).toContain("renews automatically");
+    expect(segments[1].section).toBeUndefined();
+    expect(segments[1].heading).toBe("CONFIDENTIALITY");
+  });
+
+  it("does not treat a section reference in running prose as a heading", () => {
+    const text = "Section 5 of this Agreement survives termination for any reason.";
+    expect(segmentClauses(text)).toEqual([{ text, offset: 0, heading: undefined }]);
+  });
+});
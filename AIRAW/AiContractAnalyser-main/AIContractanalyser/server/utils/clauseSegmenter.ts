@@ -0,0 +1,294 @@
+/**
+ * A clause found by the segmenter, positioned in the document outline
+ */
+export interface ClauseSegment {
+  text: string;
+  offset: number;
+  section?: string;
+  heading?: string;
+  parentSection?: string;
+}
+
+/**
+ * A numbering marker at the start of a block, e.g. "4.2", "(a)" or "Article IV"
+ */
+interface Marker {
+  // Nesting kind; markers of the same kind are siblings
+  kind: string;
+  // Fixed rank for named divisions, which always close everything below them
+  rank?: number;
+  label: string;
+  length: number;
+}
+
+interface OpenSection {
+  kind: string;
+  rank?: number;
+  label: string;
+  section: string;
+}
+
+interface Block {
+  text: string;
+  offset: number;
+}
+
+const ATTACHMENT_WORDS = ["schedule", "exhibit", "annex", "appendix", "attachment"];
+const DIVISION_WORDS = ["article", "section", "part", "clause"];
+
+const NAMED_MARKER = new RegExp(
+  `^(${[...ATTACHMENT_WORDS, ...DIVISION_WORDS].join("|")})\\s+([IVXLC]+|\\d+(?:\\.\\d+)*|[A-Z])\\b\\.?`,
+  "i"
+);
+const DECIMAL_MARKER = /^(\d{1,3}(?:\.\d{1,3})*)([.)]?)(?=[ \t]+["“(]?[A-Z(])/;
+const PAREN_MARKER = /^\(([a-z]{1,2}|[ivxlc]+|[A-Z]|\d{1,2})\)(?=\s)|^([a-z])\)(?=\s)/;
+const ROMAN = /^[ivxlc]+$/;
+
+/**
+ * Split contract text into clauses following its numbering, so that every clause
+ * carries its real section number, heading and parent section
+ * Recognizes decimal numbering (1., 1.1, 1.1.1), lettered and roman sub-clauses
+ * ((a), (ii)), and named divisions (Article IV, Section 5, Schedule 2)
+ * @param text - The document text
+ * @returns Clauses in document order
+ */
+export function segmentClauses(text: string): ClauseSegment[] {
+  const segments: (ClauseSegment & { end: number; hasBody: boolean })[] = [];
+  const open: OpenSection[] = [];
+  let pendingHeading: string | undefined;
+
+  for (const block of splitBlocks(text)) {
+    const openLetter = [...open].reverse().find(s => s.kind === "paren-letter")?.label;
+    const marker = parseMarker(block.text, openLetter);
+
+    if (!marker) {
+      const current = segments[segments.length - 1];
+      if (isStandaloneHeading(block.text)) {
+        if (current && current.section && !current.heading && !current.hasBody) {
+          // "ARTICLE IV" with its title on the next line
+          current.heading = block.text;
+        } else {
+          // An unnumbered heading like "CONFIDENTIALITY" names whatever follows it
+          pendingHeading = block.text;
+        }
+      } else if (current && current.section && !pendingHeading) {
+        // Continuation paragraph of the numbered clause above
+        current.end = block.offset + block.text.length;
+        current.hasBody = true;
+      } else {
+        segments.push({
+          text: "",
+          offset: block.offset,
+          end: block.offset + block.text.length,
+          heading: pendingHeading,
+          hasBody: true,
+        });
+        pendingHeading = undefined;
+      }
+      continue;
+    }
+
+    // Close sections that this marker ends, then open it beneath whatever remains
+    if (marker.rank !== undefined) {
+      while (open.length > 0 && (open[open.length - 1].rank ?? Infinity) >= marker.rank) {
+        open.pop();
+      }
+    } else if (marker.kind.startsWith("decimal")) {
+      // "3." ends 2.1 and any (a)/(i) inside it, even though 2. itself was never written
+      const depth = marker.label.split(".").length;
+      while (open.length > 0 && open[open.length - 1].rank === undefined &&
+        (open[open.length - 1].kind.startsWith("paren") || decimalDepth(open[open.length - 1]) >= depth)) {
+        open.pop();
+      }
+    } else {
+      const sibling = open.map(s => s.kind).lastIndexOf(marker.kind);
+      if (sibling >= 0) {
+        open.length = sibling;
+      }
+    }
+
+    const parent = open[open.length - 1];
+    const section = marker.kind.startsWith("paren") && parent
+      ? `${parent.section}(${marker.label})`
+      : marker.kind.startsWith("paren") ? `(${marker.label})` : marker.label;
+    open.push({ kind: marker.kind, rank: marker.rank, label: marker.label, section });
+
+    const rest = block.text.slice(marker.length).replace(/^\s*[-–—:.]?\s*/, "");
+    const { heading, body } = splitHeading(rest);
+
+    segments.push({
+      text: "",
+      offset: block.offset,
+      end: block.offset + block.text.length,
+      section,
+      heading: heading ?? pendingHeading,
+      parentSection: parent?.section,
+      hasBody: body.length > 0,
+    });
+    pendingHeading = undefined;
+  }
+
+  // Heading-only entries such as "ARTICLE IV - INDEMNIFICATION" just structure the outline;
+  // their children point at them through parentSection
+  return segments
+    .filter(segment => segment.hasBody)
+    .map(({ end, hasBody, ...segment }) => ({
+      ...segment,
+      text: text.slice(segment.offset, end).trim(),
+    }));
+}
+
+/**
+ * Split text into paragraph blocks, also breaking before lines that start with a
+ * numbering marker (text from PDFs often has no blank line between sub-clauses)
+ * @param text - The document text
+ * @returns Non-empty blocks with their offsets
+ */
+function splitBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    const lineOffset = offset + (line.length - line.trimStart().length);
+    offset += line.length + 1;
+
+    if (!trimmed) {
+      current = null;
+      continue;
+    }
+    if (current && !parseMarker(trimmed)) {
+      current.text = text.slice(current.offset, lineOffset + trimmed.length);
+      continue;
+    }
+
+    current = { text: trimmed, offset: lineOffset };
+    blocks.push(current);
+  }
+
+  return blocks;
+}
+
+/**
+ * Recognize a numbering marker at the start of a block
+ * @param text - The block text
+ * @param openLetter - Label of the innermost open lettered clause, to tell "(i)" after "(h)" from roman one
+ * @returns The marker, or undefined if the block is not numbered
+ */
+function parseMarker(text: string, openLetter?: string): Marker | undefined {
+  const named = NAMED_MARKER.exec(text);
+  if (named) {
+    const word = named[1].toLowerCase();
+    // "Section 5 of this Agreement..." is a reference in running prose, not a heading
+    const firstLine = text.slice(named[0].length).split("\n")[0];
+    if (/^\s*([-–—:.]|$)/.test(firstLine) || isHeadingLine(firstLine.trim())) {
+      const number = named[2].toUpperCase();
+      return {
+        kind: ATTACHMENT_WORDS.includes(word) ? "attachment" : "division",
+        rank: ATTACHMENT_WORDS.includes(word) ? 0 : 1,
+        label: `${word.charAt(0).toUpperCase()}${word.slice(1)} ${number}`,
+        length: named[0].length,
+      };
+    }
+  }
+
+  const decimal = DECIMAL_MARKER.exec(text);
+  if (decimal) {
+    const number = decimal[1];
+    // A bare "12 Months" is not numbering; require "12." or "12)" unless it has sub-levels
+    if (number.includes(".") || decimal[2]) {
+      return {
+        kind: `decimal-${number.split(".").length}`,
+        label: number,
+        length: decimal[0].length,
+      };
+    }
+  }
+
+  const paren = PAREN_MARKER.exec(text);
+  if (paren) {
+    const label = paren[1] ?? paren[2];
+    let kind = "paren-letter";
+    if (/^\d+$/.test(label)) {
+      kind = "paren-number";
+    } else if (/^[A-Z]$/.test(label)) {
+      kind = "paren-upper";
+    } else if (ROMAN.test(label) && !isNextLetter(openLetter, label)) {
+      kind = "paren-roman";
+    }
+    return { kind, label, length: paren[0].length };
+  }
+
+  return undefined;
+}
+
+/**
+ * Depth of an open decimal section, e.g. 2 for "4.2"
+ * @param open - The open section
+ * @returns The depth, or 0 if the section is not decimal
+ */
+function decimalDepth(open: OpenSection): number {
+  return open.kind.startsWith("decimal") ? open.label.split(".").length : 0;
+}
+
+/**
+ * Check whether a label continues a lettered sequence, e.g. "i" after "h"
+ * @param previous - The previous sibling's label
+ * @param label - The candidate label
+ * @returns True if the label is the next letter
+ */
+function isNextLetter(previous: string | undefined, label: string): boolean {
+  return !!previous && previous.length === 1 && label.length === 1 &&
+    label.charCodeAt(0) === previous.charCodeAt(0) + 1;
+}
+
+/**
+ * Separate a clause's heading from its body, handling both "4.2 Payment" on its own line
+ * and the inline "4.2 Payment Terms. The Customer shall..." form
+ * @param rest - Block text after the numbering marker
+ * @returns The heading, if any, and the remaining body text
+ */
+function splitHeading(rest: string): { heading?: string; body: string } {
+  const newline = rest.indexOf("\n");
+  const firstLine = (newline >= 0 ? rest.slice(0, newline) : rest).trim();
+
+  if (firstLine && isHeadingLine(firstLine)) {
+    return {
+      heading: firstLine.replace(/[.:]$/, ""),
+      body: newline >= 0 ? rest.slice(newline + 1).trim() : "",
+    };
+  }
+
+  const inline = /^([A-Z][^.\n]{0,70}?)\.\s+(?=["“(]?[A-Z])/.exec(rest);
+  if (inline && isHeadingLine(inline[1])) {
+    return { heading: inline[1].trim(), body: rest.slice(inline[0].length).trim() };
+  }
+
+  return { body: rest.trim() };
+}
+
+/**
+ * Check whether a line reads as a heading: short, in title or upper case, and not a sentence
+ * @param line - The line text
+ * @returns True if the line looks like a heading
+ */
+function isHeadingLine(line: string): boolean {
+  const words = line.replace(/[.:]$/, "").split(/\s+/).filter(Boolean);
+  if (words.length === 0 || words.length > 10 || line.length > 80 || /[,;]$/.test(line)) {
+    return false;
+  }
+
+  // Minor words like "of" and "and" stay lowercase in title case
+  const significant = words.filter(word => /^[A-Za-z]/.test(word) && word.length > 3);
+  return significant.length > 0 && significant.every(word => /^[A-Z]/.test(word));
+}
+
+/**
+ * Check whether an unnumbered block is a heading on its own line, e.g. "CONFIDENTIALITY"
+ * @param text - The block text
+ * @returns True if the block is a standalone heading
+ */
+function isStandaloneHeading(text: string): boolean {
+  return !text.includes("\n") && !/[.;,]$/.test(text) && isHeadingLine(text);
+}
@@ -1,48 +1,90 @@
-import { ComplianceRule, InsertClause } from "@shared/schema";
-import nlp from "compromise";
-import mammoth from "mammoth";
-import { PDFDocument } from "pdf-lib";
+import { ComplianceIssue, ComplianceRule, InsertClause, LibraryClause, RiskFactor } from "@shared/schema";
+import { extractText, type ExtractedText } from "./extractors";
+import { segmentClauses, type ClauseSegment } from "./clauseSegmenter";
+import { measureCoverage, type TextCoverage } from "./textChunker";
+import { matchLibraryClause } from "./clauseLibrary";
+import { matchRule, type MatchSpan } from "./ruleMatcher";
+import { partitionRules } from "./requiredClauses";
+import { checkThreshold, thresholdIssue, type ThresholdCheck } from "./thresholdRules";
+import { scoreClause } from "./riskScoring";
+import { DEFAULT_RISK_MODEL, type RiskModel } from "@shared/riskModel";
 import { 
   extractClausesWithAI, 
   analyzeClauseWithAI,
   extractFinancialsWithAI
 } from "./openai";
 
+/**
+ * A clause extracted from a document, with its place in the document outline and the page it starts on
+ */
+export interface ExtractedClause {
+  text: string;
+  section?: string;
+  heading?: string;
+  parentSection?: string;
+  page?: number;
+  ocrConfidence?: number;
+}
+
+/**
+ * The clauses of a document along with its full text and how much of that text was analyzed
+ */
+export interface ClauseExtraction {
+  clauses: ExtractedClause[];
+  text: string;
+  coverage: TextCoverage;
+  // Undefined for formats without pages
+  pageCount?: number;
+}
+
 /**
  * Extract clauses from a document
  * @param buffer - The file buffer
  * @param mimetype - The file mimetype
- * @returns Array of extracted clauses
+ * @param filename - The original filename, used to detect formats without a signature
+ * @returns Extracted clauses, the document text and analysis coverage
  */
 export async function extractClauses(
   buffer: Buffer,
-  mimetype: string
-): Promise<string[]> {
-  let text = "";
-
+  mimetype: string,
+  filename?: string
+): Promise<ClauseExtraction> {
   try {
-    if (mimetype === "application/pdf") {
-      // Extract text from PDF
-      text = await extractTextFromPdf(buffer);
-    } else if (
-      mimetype === "application/msword" ||
-      mimetype === "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-    ) {
-      // Extract text from DOC/DOCX
-      text = await extractTextFromDocx(buffer);
-    }
+    // The extractor registry picks the format from the file signature, extension or mimetype
+    const extracted: ExtractedText = await extractText(buffer, mimetype, filename);
 
+    const { text } = extracted;
+    const pageCount = extracted.pageStarts.length || undefined;
     console.log(`Extracted ${text.length} characters of text from document`);
 
+    if (text.trim().length === 0) {
+      throw new Error("No text could be extracted from the document");
+    }
+
+    // The document's own numbering gives every clause its section, whichever method splits the text
+    const segments = segmentClauses(text);
+
     // Use OpenAI to extract clauses if available, otherwise fall back to basic extraction
     try {
       if (process.env.OPENAI_API_KEY) {
         console.log("Using OpenAI to extract clauses");
-        const aiClauses = await extractClausesWithAI(text);
+        const { clauses: aiClauses, coverage } = await extractClausesWithAI(text);
         
         if (aiClauses && aiClauses.length > 0) {
           console.log(`OpenAI extracted ${aiClauses.length} clauses`);
-          return aiClauses;
+          const clauses = aiClauses.map(clause => {
+            const offset = findClauseOffset(text, clause);
+            const segment = segmentAt(segments, offset);
+            return {
+              text: clause,
+              section: segment?.section,
+              heading: segment?.heading,
+              parentSection: segment?.parentSection,
+              page: pageAt(extracted, offset),
+              ocrConfidence: ocrConfidenceFor(extracted, offset, offset + clause.length)
+            };
+          });
+          return { clauses, text, coverage, pageCount };
         } else {
           console.log("OpenAI extraction returned no clauses, falling back to basic extraction");
         }
@@ -53,73 +95,145 @@ export async function extractClauses(
     }
 
     // Fall back to basic extraction if OpenAI fails or is not available
-    const clauses = splitTextIntoClauses(text);
+    const clauses = splitTextIntoClauses(text, segments).map(segment => ({
+      text: segment.text,
+      section: segment.section,
+      heading: segment.heading,
+      parentSection: segment.parentSection,
+      page: pageAt(extracted, segment.offset),
+      ocrConfidence: ocrConfidenceFor(extracted, segment.offset, segment.offset + segment.text.length)
+    }));
     console.log(`Basic extraction found ${clauses.length} clauses`);
-    return clauses;
+    // Basic extraction reads the whole text in one pass
+    return {
+      clauses,
+      text,
+      coverage: measureCoverage([{ text, start: 0, end: text.length }], text.length, 1),
+      pageCount
+    };
   } catch (error) {
     console.error("Error extracting clauses:", error);
-    throw new Error("Failed to extract clauses from document");
+    throw new Error(`Failed to extract clauses from document: ${(error as Error).message}`);
   }
 }
 
 /**
- * Extract text from PDF
- * @param buffer - The PDF file buffer
- * @returns Extracted text
+ * Average OCR confidence of the words inside a span of the text
+ * @param extracted - The extracted document text
+ * @param start - Start offset of the span, or -1 if unknown
+ * @param end - End offset of the span
+ * @returns Confidence from 0-100, or undefined when the text did not come from OCR
  */
-async function extractTextFromPdf(buffer: Buffer): Promise<string> {
-  try {
-    // For now, use sample text generation
-    const pdfDoc = await PDFDocument.load(buffer);
-    const pageCount = pdfDoc.getPageCount();
-    
-    console.log(`PDF has ${pageCount} pages`);
-    
-    // In the future, this would use pdf.js or a similar library for full extraction
-    return generateSampleContractText(pageCount);
-  } catch (error) {
-    console.error("Error extracting text from PDF:", error);
-    throw new Error("Failed to extract text from PDF");
+function ocrConfidenceFor(extracted: ExtractedText, start: number, end: number): number | undefined {
+  if (!extracted.ocrWords || start < 0) {
+    return undefined;
+  }
+
+  const words = extracted.ocrWords.filter(word => word.start >= start && word.end <= end);
+  if (words.length === 0) {
+    return undefined;
   }
+
+  return Math.round(words.reduce((sum, word) => sum + word.confidence, 0) / words.length);
 }
 
 /**
- * Extract text from DOCX
- * @param buffer - The DOCX file buffer
- * @returns Extracted text
+ * Find the page a text offset falls on
+ * @param extracted - The extracted document text
+ * @param offset - Character offset into the text, or -1 if unknown
+ * @returns 1-based page number, or undefined for unpaginated formats
  */
-async function extractTextFromDocx(buffer: Buffer): Promise<string> {
-  try {
-    // Using mammoth to extract text from DOCX
-    const result = await mammoth.extractRawText({ buffer });
-    return result.value || generateSampleContractText(5); // Fallback to sample if empty
-  } catch (error) {
-    console.error("Error extracting text from DOCX:", error);
-    throw new Error("Failed to extract text from DOCX");
+function pageAt(extracted: ExtractedText, offset: number): number | undefined {
+  if (extracted.pageStarts.length === 0 || offset < 0) {
+    return undefined;
+  }
+
+  let page = 1;
+  for (let i = 0; i < extracted.pageStarts.length; i++) {
+    if (extracted.pageStarts[i] <= offset) {
+      page = i + 1;
+    }
+  }
+  return page;
+}
+
+/**
+ * Locate a clause returned by the AI in the source text, ignoring whitespace differences
+ * @param text - The document text
+ * @param clause - The clause text
+ * @returns Character offset of the clause in the text, or -1 if not found
+ */
+function findClauseOffset(text: string, clause: string): number {
+  const words = clause.trim().split(/\s+/).slice(0, 8);
+  if (words.length === 0 || !words[0]) {
+    return -1;
   }
+
+  const escaped = words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const match = new RegExp(escaped.join("\\s+")).exec(text);
+  return match ? match.index : -1;
+}
+
+/**
+ * Find the outline segment containing a text offset
+ * @param segments - Segments in document order
+ * @param offset - Character offset into the text, or -1 if unknown
+ * @returns The segment, or undefined if the offset is unknown or precedes all segments
+ */
+function segmentAt(segments: ClauseSegment[], offset: number): ClauseSegment | undefined {
+  if (offset < 0) {
+    return undefined;
+  }
+
+  let found: ClauseSegment | undefined;
+  for (const segment of segments) {
+    if (segment.offset > offset) {
+      break;
+    }
+    found = segment;
+  }
+  return found;
 }
 
 /**
  * Split text into clauses (basic method)
  * @param text - The document text
- * @returns Array of clauses
+ * @param segments - The document's numbered segments
+ * @returns Array of clauses with their offset in the text
  */
-function splitTextIntoClauses(text: string): string[] {
-  // Simple splitting logic - in a real implementation, this would be more sophisticated
-  // using NLP to identify clause boundaries
-  const paragraphs = text.split(/\n\s*\n/);
-  
-  // Filter out very short paragraphs that are likely not clauses
-  const clauses = paragraphs.filter(p => p.trim().length > 50);
+function splitTextIntoClauses(text: string, segments: ClauseSegment[]): ClauseSegment[] {
+  // Filter out very short paragraphs that are likely not clauses; numbered sub-clauses such as
+  // "(a) monthly fees within 30 days;" are short but still clauses in their own right
+  const clauses = segments.filter(segment => segment.section || segment.text.length > 50);
   
   // If no clauses found (possibly due to formatting), use a simpler approach
   if (clauses.length === 0) {
-    return text.split(/\.\s+/).filter(s => s.length > 50);
+    return matchWithOffsets(text, /[\s\S]+?(?:\.(?=\s)|$)/g).filter(s => s.text.length > 50);
   }
   
   return clauses;
 }
 
+/**
+ * Collect the trimmed matches of a global pattern along with where each starts
+ * @param text - The text to scan
+ * @param pattern - A global regular expression
+ * @returns Non-empty matches and their start offsets
+ */
+function matchWithOffsets(text: string, pattern: RegExp): { text: string; offset: number }[] {
+  const results: { text: string; offset: number }[] = [];
+
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (trimmed) {
+      results.push({ text: trimmed, offset: (match.index ?? 0) + leading });
+    }
+  }
+
+  return results;
+}
+
 /**
  * Extract financial information from contract text
  * @param text - The document text
@@ -175,32 +289,39 @@ export async function extractFinancials(text: string): Promise<{
 
 /**
  * Analyze document clauses against compliance rules
- * @param clauses - Array of extracted clauses
- * @param rules - Array of compliance rules
+ * @param clauses - Array of extracted clauses with their pages
+ * @param rules - Array of compliance rules; document-level rules are skipped
  * @param documentId - The document ID
+ * @param library - Approved standard clauses to measure each clause against
+ * @param riskModel - Category weights and risk bands for clauses scored without AI
+ * @param onProgress - Called after each clause with the number analyzed so far and the total
  * @returns Array of analyzed clauses
  */
 export async function analyzeDocument(
-  clauses: string[],
+  clauses: ExtractedClause[],
   rules: ComplianceRule[],
-  documentId: string
+  documentId: string,
+  library: LibraryClause[] = [],
+  riskModel: RiskModel = DEFAULT_RISK_MODEL,
+  onProgress?: (done: number, total: number) => void | Promise<void>
 ): Promise<InsertClause[]> {
+  // Document-level "must contain" rules are checked once every clause is analyzed
+  rules = partitionRules(rules).clauseRules;
   console.log(`Analyzing ${clauses.length} clauses against ${rules.length} compliance rules`);
   const analyzedClauses: InsertClause[] = [];
 
   try {
     // Process clauses in batches to avoid overwhelming the API
     const batchSize = 5;
-    const sampleSections = ["1.1", "2.3", "3.5", "4.2", "5.7", "6.1", "7.4", "8.3", "9.1"];
     
     for (let i = 0; i < clauses.length; i++) {
-      const clauseText = clauses[i];
+      const clauseText = clauses[i].text;
       console.log(`Analyzing clause ${i + 1}/${clauses.length}: ${clauseText.substring(0, 50)}...`);
       
-      // Assign a random section ID for demo purposes
-      const section = sampleSections[Math.floor(Math.random() * sampleSections.length)];
+      const section = clauses[i].section;
       
-      let analysis;
+      // Only the basic analysis explains its score with risk factors
+      let analysis: Awaited<ReturnType<typeof analyzeClauseWithAI>> & { risk_factors?: RiskFactor[] };
       
       // Try to use OpenAI for advanced analysis if available
       if (process.env.OPENAI_API_KEY) {
@@ -210,22 +331,33 @@ export async function analyzeDocument(
         } catch (aiError) {
           console.error("Error using OpenAI for clause analysis:", aiError);
           console.log("Falling back to basic analysis method");
-          analysis = basicClauseAnalysis(clauseText, rules, section);
+          analysis = basicClauseAnalysis(clauseText, rules, section, riskModel);
         }
       } else {
         // Fall back to basic analysis if OpenAI is not available
         console.log("OpenAI not available, using basic analysis");
-        analysis = basicClauseAnalysis(clauseText, rules, section);
+        analysis = basicClauseAnalysis(clauseText, rules, section, riskModel);
       }
       
+      // How far the clause strays from the closest approved wording
+      const libraryMatch = matchLibraryClause(clauseText, analysis.category, library);
+      
       // Create analyzed clause
       const analyzedClause: InsertClause = {
         clause: clauseText,
-        section,
-        page: Math.floor(i / 4) + 1, // Estimate page number
+        section: section ?? null,
+        heading: clauses[i].heading ?? null,
+        parent_section: clauses[i].parentSection ?? null,
+        page: clauses[i].page ?? null,
+        ocr_confidence: clauses[i].ocrConfidence ?? null,
         category: analysis.category,
         risk_score: analysis.risk_score,
         compliance_status: analysis.compliance_status,
+        library_clause_id: libraryMatch?.libraryClauseId ?? null,
+        library_similarity: libraryMatch?.similarity ?? null,
+        library_diff: libraryMatch?.diff ?? null,
+        compliance_issues: analysis.compliance_issues && analysis.compliance_issues.length > 0 ? analysis.compliance_issues : null,
+        risk_factors: analysis.risk_factors ?? null,
         document_id: documentId
       };
       
@@ -234,11 +366,8 @@ export async function analyzeDocument(
         (analyzedClause as any).recommendations = analysis.recommendations;
       }
       
-      if (analysis.compliance_issues && analysis.compliance_issues.length > 0) {
-        (analyzedClause as any).compliance_issues = analysis.compliance_issues;
-      }
-      
       analyzedClauses.push(analyzedClause);
+      await onProgress?.(analyzedClauses.length, clauses.length);
       
       // Add a slight delay between clauses to avoid rate limiting
       if (i % batchSize === batchSize - 1 && i < clauses.length - 1) {
@@ -249,87 +378,78 @@ export async function analyzeDocument(
     console.log(`Analysis complete. Processed ${analyzedClauses.length} clauses`);
     return analyzedClauses;
   } catch (error) {
+    // Rethrown as is, so a caller can tell a job cancelled from its progress callback from a failure
     console.error("Error analyzing document:", error);
-    throw new Error("Failed to analyze document");
+    throw error;
   }
 }
 
 /**
  * Basic clause analysis without AI
+ * Also used by the rule sandbox to preview what a draft rule would do.
+ * Scores are worked out from the matched rules, the category and risky wording, so they repeat from run to run.
  * @param clauseText - The clause text to analyze
  * @param rules - Array of compliance rules
- * @param section - The section identifier
- * @returns Basic analysis result
+ * @param section - The section identifier, if the clause is numbered
+ * @param riskModel - Category weights and risk bands to score with
+ * @returns Basic analysis result, with the factors behind the risk score
  */
-function basicClauseAnalysis(
+export function basicClauseAnalysis(
   clauseText: string, 
   rules: ComplianceRule[],
-  section: string
+  section?: string,
+  riskModel: RiskModel = DEFAULT_RISK_MODEL
 ): {
   compliance_status: 'Compliant' | 'Non-Compliant' | 'Review Needed';
   risk_score: number;
   category: string;
   recommendations: { title: string; description: string }[];
-  compliance_issues: { issue: string; rule?: string; description: string }[];
+  compliance_issues: ComplianceIssue[];
+  risk_factors: RiskFactor[];
 } {
-  // Use NLP to analyze the clause
-  const doc = nlp(clauseText);
-  
   // Check against compliance rules
-  const matches: { rule: ComplianceRule; isViolation: boolean }[] = [];
+  const matches: { rule: ComplianceRule; isViolation: boolean; spans: MatchSpan[]; threshold?: ThresholdCheck }[] = [];
   
   rules.forEach(rule => {
-    // Check if the clause contains the keyword
-    if (clauseText.toLowerCase().includes(rule.keyword.toLowerCase())) {
+    // Check if the clause matches the rule's keyword, pattern or expression
+    const match = matchRule(rule, clauseText);
+    if (match.matched) {
+      // Threshold rules are broken by the value the clause states, not by matching
+      const threshold = rule.ruleType === "threshold" ? checkThreshold(rule, clauseText, match.spans) : undefined;
       matches.push({
         rule,
-        isViolation: !rule.allowed
+        isViolation: rule.ruleType === "threshold" ? threshold?.passed === false : !rule.allowed,
+        spans: match.spans,
+        threshold
       });
     }
   });
   
-  // Determine compliance status
-  let complianceStatus: "Compliant" | "Non-Compliant" | "Review Needed" = "Compliant";
-  const violations = matches.filter(m => m.isViolation);
-  
-  if (violations.length > 0) {
-    complianceStatus = "Non-Compliant";
-  } else if (matches.length > 0) {
-    // Has matches, but no violations - could require review
-    complianceStatus = Math.random() > 0.5 ? "Compliant" : "Review Needed";
-  }
-  
-  // Calculate risk score (0-10)
-  let riskScore = Math.floor(Math.random() * 10);
-  
-  // Adjust risk based on compliance status
-  if (complianceStatus === "Non-Compliant") {
-    riskScore = Math.max(7, riskScore); // High risk (7-10)
-  } else if (complianceStatus === "Review Needed") {
-    riskScore = Math.max(4, Math.min(6, riskScore)); // Medium risk (4-6)
-  } else {
-    riskScore = Math.min(3, riskScore); // Low risk (0-3)
-  }
-  
   // Determine category based on content
-  const categories = ["Liability", "IP Rights", "Confidentiality", "Payment Terms", "Termination", "Indemnification"];
-  let category = categories[Math.floor(Math.random() * categories.length)];
-  
-  // Try to determine a more accurate category based on keywords
-  if (clauseText.toLowerCase().includes("confiden")) {
+  let category = "General";
+  const text = clauseText.toLowerCase();
+  if (text.includes("confiden")) {
     category = "Confidentiality";
-  } else if (clauseText.toLowerCase().includes("terminat")) {
+  } else if (text.includes("terminat")) {
     category = "Termination";
-  } else if (clauseText.toLowerCase().includes("payment") || clauseText.toLowerCase().includes("fee")) {
+  } else if (text.includes("payment") || text.includes("fee")) {
     category = "Payment Terms";
-  } else if (clauseText.toLowerCase().includes("liab")) {
+  } else if (text.includes("liab")) {
     category = "Liability";
-  } else if (clauseText.toLowerCase().includes("intellectual") || clauseText.toLowerCase().includes("property")) {
+  } else if (text.includes("intellectual") || text.includes("property")) {
     category = "IP Rights";
-  } else if (clauseText.toLowerCase().includes("indemnif")) {
+  } else if (text.includes("indemnif")) {
     category = "Indemnification";
+  } else {
+    // Otherwise go by what the matched rules are about
+    category = matches.find(m => m.rule.category)?.rule.category ?? category;
   }
   
+  // Score the clause and determine compliance status
+  const violations = matches.filter(m => m.isViolation);
+  const assessment = scoreClause(clauseText, category, matches, riskModel);
+  const complianceStatus = assessment.status;
+  
   // Generate recommendations
   const recommendations = [];
   if (complianceStatus === "Non-Compliant") {
@@ -345,68 +465,18 @@ function basicClauseAnalysis(
   }
   
   // Generate compliance issues
-  const complianceIssues = violations.map(v => ({
-    issue: `Non-compliant use of "${v.rule.keyword}"`,
+  const complianceIssues: ComplianceIssue[] = violations.map(v => v.threshold ? thresholdIssue(v.rule, v.threshold) : {
+    issue: `Non-compliant use of "${v.spans[0]?.text ?? v.rule.keyword}"`,
     rule: v.rule.keyword,
     description: v.rule.description || `The use of "${v.rule.keyword}" violates compliance rules.`
-  }));
+  });
   
   return {
     compliance_status: complianceStatus,
-    risk_score: riskScore,
+    risk_score: assessment.score,
     category,
     recommendations,
-    compliance_issues: complianceIssues
+    compliance_issues: complianceIssues,
+    risk_factors: assessment.factors
   };
 }
-
-/**
- * Generate sample contract text for testing purposes
- * @param pages - Number of pages to simulate
- * @returns Sample contract text
- */
-function generateSampleContractText(pages: number): string {
-  const sampleClauses = [
-    "The Vendor shall not be liable for any damages whatsoever arising out of or in connection with the use or performance of the software, including but not limited to direct, indirect, incidental, consequential, and special damages, even if advised of the possibility of such damages.",
-    
-    "All intellectual property developed during the course of this agreement shall be owned exclusively by the Company. Contractor hereby assigns all rights, title and interest in such intellectual property to the Company.",
-    
-    "Both parties agree to maintain the confidentiality of all proprietary information shared during the course of this agreement and for a period of two (2) years following termination, unless required by law to disclose such information.",
-    
-    "Payment terms shall be net 30 days from receipt of invoice. A late payment fee of 1.5% per month will be assessed on all overdue amounts.",
-    
-    "This Agreement may be terminated by either party with thirty (30) days written notice. Upon termination, all licenses granted herein shall immediately terminate.",
-    
-    "Client agrees to indemnify and hold harmless the Service Provider from any claims, damages, or liabilities arising from Client's use of the services provided under this agreement.",
-    
-    "Any dispute arising out of or in connection with this contract, including any question regarding its existence, validity or termination, shall be referred to and finally resolved by arbitration under the Rules of the London Court of International Arbitration.",
-    
-    "Neither party shall be liable for any failure or delay in performance due to circumstances beyond its reasonable control, including but not limited to acts of God, natural disasters, war, terrorism, riots, or government action.",
-    
-    "Service Provider warrants that all services will be performed in a professional manner consistent with industry standards. This warranty is exclusive and in lieu of all other warranties, whether express or implied.",
-    
-    "In no event shall the aggregate liability of either party exceed the total amount paid by Client to Service Provider in the twelve months preceding the claim.",
-    
-    "This agreement constitutes the entire understanding between the parties concerning the subject matter hereof and supersedes all prior agreements, understandings, or negotiations.",
-    
-    "The relationship between the parties is that of independent contractors. Nothing in this Agreement shall be construed as creating an employer-employee relationship, partnership, or joint venture."
-  ];
-  
-  // Generate a contract with random clauses based on the number of pages
-  const clausesPerPage = 2;
-  const numClauses = pages * clausesPerPage;
-  
-  let contractText = "";
-  
-  for (let i = 0; i < numClauses; i++) {
-    // Select random clauses, ensuring we don't repeat the last clause
-    let randomIndex;
-    do {
-      randomIndex = Math.floor(Math.random() * sampleClauses.length);
-    } while (contractText.endsWith(sampleClauses[randomIndex]));
-    
-    contractText += sampleClauses[randomIndex] + "\n\n";
-  }
-  
-  return contractText.trim();
-}
@@ -0,0 +1,43 @@
+import type { ContractType } from "@shared/schema";
+
+// How much of the start of a contract counts as its title block
+const TITLE_LENGTH = 600;
+// Title matches say far more about the contract than a passing mention in the body
+const TITLE_WEIGHT = 5;
+// Below this score the contract is left untyped rather than guessed
+const MIN_SCORE = 3;
+
+// Phrases that mark each contract type
+const TYPE_SIGNALS: Record<ContractType, RegExp[]> = {
+  NDA: [/\bnon[\s-]?disclosure agreement\b/gi, /\bconfidentiality agreement\b/gi, /\bNDA\b/g],
+  MSA: [/\bmaster (?:services?|subscription) agreement\b/gi, /\bMSA\b/g],
+  SOW: [/\bstatement of work\b/gi, /\bSOW\b/g, /\bdeliverables\b/gi, /\bmilestones?\b/gi],
+  SaaS: [/\bsoftware[\s-]as[\s-]a[\s-]service\b/gi, /\bSaaS\b/g, /\bsubscription (?:term|fees?|services?)\b/gi, /\buptime\b/gi, /\bservice level\b/gi],
+  DPA: [/\bdata processing (?:agreement|addendum)\b/gi, /\bDPA\b/g, /\bsub-?processors?\b/gi, /\bdata subjects?\b/gi],
+  Employment: [/\bemployment (?:agreement|contract)\b/gi, /\bemployee\b/gi, /\bsalary\b/gi, /\bprobation(?:ary)? period\b/gi],
+  Lease: [/\blease agreement\b/gi, /\blandlord\b/gi, /\btenant\b/gi, /\bpremises\b/gi],
+  License: [/\blicen[cs]e agreement\b/gi, /\blicensor\b/gi, /\blicensee\b/gi, /\bend[\s-]user licen[cs]e\b/gi],
+};
+
+/**
+ * Guess what kind of contract a document is from its title and wording
+ * @param text - The document text
+ * @param filename - The uploaded file name, which often names the contract type
+ * @returns The most likely type, or undefined if nothing stands out
+ */
+export function detectContractType(text: string, filename?: string): ContractType | undefined {
+  const title = `${filename ?? ""} ${text.slice(0, TITLE_LENGTH)}`;
+  const count = (pattern: RegExp, haystack: string) => (haystack.match(pattern) ?? []).length;
+
+  let best: { type: ContractType; score: number } | undefined;
+  (Object.keys(TYPE_SIGNALS) as ContractType[]).forEach(type => {
+    const score = TYPE_SIGNALS[type].reduce((total, pattern) =>
+      // Cap body mentions so one long section does not outweigh the title
+      total + TITLE_WEIGHT * Math.min(count(pattern, title), 1) + Math.min(count(pattern, text), 5), 0);
+    if (!best || score > best.score) {
+      best = { type, score };
+    }
+  });
+
+  return best && best.score >= MIN_SCORE ? best.type : undefined;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { MissingClause } from "@shared/schema";
+import { scoreDocumentRisk } from "./documentRisk";
+
+const clauses = [
+  { category: "Liability", risk_score: 8, compliance_status: "Non-Compliant", compliance_issues: [{ issue: "a" }, { issue: "b" }] },
+  { category: "Liability", risk_score: 4, compliance_status: "Compliant", compliance_issues: null },
+  { category: null, risk_score: 2, compliance_status: "Compliant", compliance_issues: null },
+];
+
+describe("scoreDocumentRisk", () => {
+  it("scores each category from its riskiest clause, its average and its findings", () => {
+    const risk = scoreDocumentRisk(clauses, []);
+
+    expect(risk.categories).toEqual([
+      { category: "Liability", score: 8.2, clauses: 2, findings: 2 },
+      { category: "General", score: 2, clauses: 1, findings: 0 },
+    ]);
+    // Liability weighs (1 + 2) * (1 + 2) = 9 against General's 1
+    expect(risk.score).toBe(7.6);
+  });
+
+  it("counts missing required clauses as findings in their category", () => {
+    const missing: MissingClause[] = [
+      { ruleId: 1, rule: 'text containing "confidential"', category: "Confidentiality", riskScore: 6, message: "No confidentiality clause found" },
+    ];
+    const risk = scoreDocumentRisk(clauses, missing);
+
+    expect(risk.categories[1]).toEqual({ category: "Confidentiality", score: 6.5, clauses: 0, findings: 1 });
+    expect(risk.score).toBe(7.3);
+  });
+
+  it("uses the model's category weights", () => {
+    const model = { bands: { medium: 4, high: 7 }, categoryWeights: {} };
+    // Liability now weighs (1 + 0) * (1 + 2) = 3
+    expect(scoreDocumentRisk(clauses, [], model).score).toBe(6.7);
+  });
+
+  it("scores a document with no clauses as zero", () => {
+    expect(scoreDocumentRisk([], [])).toEqual({ score: 0, categories: [] });
+  });
+});
@@ -0,0 +1,85 @@
+import type { CategoryRisk, Clause, MissingClause } from "@shared/schema";
+import { DEFAULT_RISK_MODEL, categoryWeight, type RiskModel } from "@shared/riskModel";
+
+// Points each finding in a category adds on top of its clauses' scores
+const FINDING_POINTS = 0.5;
+
+/**
+ * A contract's overall risk and what each category of its clauses contributes
+ */
+export interface DocumentRisk {
+  score: number;
+  categories: CategoryRisk[];
+}
+
+type ScoredClause = Pick<Clause, "category" | "risk_score" | "compliance_status" | "compliance_issues">;
+
+/**
+ * Score a whole contract from its analyzed clauses and missing required clauses
+ * Each category scores from its riskiest clause, its average clause and its number of findings;
+ * the contract score averages the categories, weighted by how much the category matters and
+ * how many findings it has, so one badly drafted liability clause is not diluted by boilerplate.
+ * @param clauses - The contract's analyzed clauses
+ * @param missingClauses - Required clauses the contract lacks, counted as findings in their category
+ * @param model - The category weights
+ * @returns The contract score (0-10, one decimal) and a score per category, riskiest first
+ */
+export function scoreDocumentRisk(
+  clauses: ScoredClause[],
+  missingClauses: MissingClause[] = [],
+  model: RiskModel = DEFAULT_RISK_MODEL
+): DocumentRisk {
+  const groups = new Map<string, { scores: number[]; clauses: number; findings: number }>();
+  const groupFor = (category: string | null | undefined) => {
+    const key = category || "General";
+    if (!groups.has(key)) {
+      groups.set(key, { scores: [], clauses: 0, findings: 0 });
+    }
+    return groups.get(key)!;
+  };
+
+  clauses.forEach(clause => {
+    const group = groupFor(clause.category);
+    group.scores.push(clause.risk_score);
+    group.clauses++;
+    if (clause.compliance_status === "Non-Compliant") {
+      const issues = Array.isArray(clause.compliance_issues) ? clause.compliance_issues.length : 0;
+      group.findings += Math.max(1, issues);
+    }
+  });
+
+  // A missing clause is as risky as the rule that requires it says
+  missingClauses.forEach(missing => {
+    const group = groupFor(missing.category);
+    group.scores.push(missing.riskScore);
+    group.findings++;
+  });
+
+  const categories: CategoryRisk[] = Array.from(groups.entries()).map(([category, group]) => {
+    const max = Math.max(...group.scores);
+    const mean = group.scores.reduce((sum, score) => sum + score, 0) / group.scores.length;
+    return {
+      category,
+      score: round(Math.min(10, 0.6 * max + 0.4 * mean + FINDING_POINTS * group.findings)),
+      clauses: group.clauses,
+      findings: group.findings,
+    };
+  });
+
+  let weighted = 0;
+  let totalWeight = 0;
+  categories.forEach(category => {
+    const weight = (1 + categoryWeight(category.category, model)) * (1 + category.findings);
+    weighted += weight * category.score;
+    totalWeight += weight;
+  });
+
+  return {
+    score: totalWeight > 0 ? round(weighted / totalWeight) : 0,
+    categories: categories.sort((a, b) => b.score - a.score),
+  };
+}
+
+function round(score: number): number {
+  return Math.round(score * 10) / 10;
+}
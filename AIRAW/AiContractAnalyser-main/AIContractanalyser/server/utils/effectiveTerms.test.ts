@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import type { Clause, ContractDocument, ContractSummary, DocumentRelation } from "@shared/schema";
+import { consolidateTerms, detectPrecedence, type TermsContext } from "./effectiveTerms";
+
+function context(
+  summaries: ContractSummary[],
+  relations: [string, DocumentRelation["relationType"], string, number?][],
+  clauses: Record<string, string[]> = {}
+): TermsContext {
+  return {
+    documents: new Map(summaries.map(summary => [
+      summary.documentId,
+      { id: summary.documentId, filename: `${summary.documentId}.pdf` } as ContractDocument,
+    ])),
+    relations: relations.map(([documentId, relationType, relatedDocumentId, sequence], i) => ({
+      id: i + 1,
+      documentId,
+      relationType,
+      relatedDocumentId,
+      sequence: sequence ?? null,
+      createdAt: new Date(),
+    })),
+    summaries: new Map(summaries.map(summary => [summary.documentId, summary])),
+    clauses: new Map(Object.entries(clauses).map(([documentId, texts]) => [
+      documentId,
+      texts.map(clause => ({ document_id: documentId, clause }) as Clause),
+    ])),
+  };
+}
+
+describe("consolidateTerms", () => {
+  it("applies amendments in sequence order, whatever order they were linked in", () => {
+    const terms = consolidateTerms("master", context(
+      [
+        { documentId: "master", title: "Services Agreement", termLength: "1 year", paymentTerms: ["Net 30"] },
+        { documentId: "second", termLength: "3 years" },
+        { documentId: "first", termLength: "2 years", paymentTerms: ["Net 45"] },
+      ],
+      [["second", "amendment-of", "master", 2], ["first", "amendment-of", "master", 1]]
+    ));
+
+    expect(terms.summary).toMatchObject({ documentId: "master", title: "Services Agreement", termLength: "3 years", paymentTerms: ["Net 45"] });
+    expect(terms.sources).toMatchObject({ title: "master", termLength: "second", paymentTerms: "first" });
+    expect(terms.applied.map(applied => applied.documentId)).toEqual(["master", "first", "second"]);
+  });
+
+  it("ignores placeholder values an amendment was given for fields it does not state", () => {
+    const terms = consolidateTerms("master", context(
+      [
+        { documentId: "master", termLength: "1 year", parties: { party1: "Acme Ltd", party2: "Globex plc" } },
+        { documentId: "amendment", termLength: "Not specified", parties: { party1: "Party A" }, defaultedFields: ["termLength", "parties"] },
+      ],
+      [["amendment", "amendment-of", "master"]]
+    ));
+
+    expect(terms.summary.termLength).toBe("1 year");
+    expect(terms.summary.parties).toEqual({ party1: "Acme Ltd", party2: "Globex plc" });
+  });
+
+  it("replaces placeholders in the agreement with an amendment's stated terms", () => {
+    const terms = consolidateTerms("master", context(
+      [
+        { documentId: "master", title: "Untitled Contract", defaultedFields: ["title"] },
+        { documentId: "amendment", title: "Supply Agreement" },
+      ],
+      [["amendment", "amendment-of", "master"]]
+    ));
+
+    expect(terms.summary.title).toBe("Supply Agreement");
+    expect(terms.summary.defaultedFields).toEqual([]);
+  });
+
+  it("merges fees by name and accumulates obligations", () => {
+    const terms = consolidateTerms("master", context(
+      [
+        { documentId: "master", fees: [{ name: "Licence", amount: "$100" }, { name: "Support", amount: "$20" }], keyObligations: ["Deliver reports"] },
+        { documentId: "amendment", fees: [{ name: "support ", amount: "$25" }], keyObligations: ["Maintain insurance"] },
+      ],
+      [["amendment", "amendment-of", "master"]]
+    ));
+
+    expect(terms.summary.fees).toEqual([{ name: "Licence", amount: "$100" }, { name: "support ", amount: "$25" }]);
+    expect(terms.summary.keyObligations).toEqual(["Deliver reports", "Maintain insurance"]);
+  });
+
+  it("consolidates from the document that supersedes another", () => {
+    const terms = consolidateTerms("old", context(
+      [
+        { documentId: "old", termLength: "1 year" },
+        { documentId: "new", termLength: "5 years" },
+      ],
+      [["new", "supersedes", "old"]]
+    ));
+
+    expect(terms.documentId).toBe("old");
+    expect(terms.summary.termLength).toBe("5 years");
+    expect(terms.superseded).toEqual(["old"]);
+  });
+
+  it("lets the master agreement prevail over a SOW when its precedence clause says so", () => {
+    const terms = consolidateTerms("sow", context(
+      [
+        { documentId: "master", paymentTerms: ["Net 30"] },
+        { documentId: "sow", paymentTerms: ["Net 60"] },
+      ],
+      [["sow", "sow-under", "master"]],
+      { master: ["In the event of a conflict with any Statement of Work, this Agreement shall prevail."] }
+    ));
+
+    expect(terms.precedence).toMatchObject({ prevails: "master", documentId: "master" });
+    expect(terms.summary.paymentTerms).toEqual(["Net 30"]);
+    expect(terms.summary.documentId).toBe("sow");
+  });
+
+  it("lets a SOW prevail over its master agreement by default", () => {
+    const terms = consolidateTerms("sow", context(
+      [
+        { documentId: "master", paymentTerms: ["Net 30"] },
+        { documentId: "sow", paymentTerms: ["Net 60"] },
+      ],
+      [["sow", "sow-under", "master"]]
+    ));
+
+    expect(terms.precedence).toEqual({ prevails: "sow" });
+    expect(terms.summary.paymentTerms).toEqual(["Net 60"]);
+  });
+});
+
+describe("detectPrecedence", () => {
+  const clause = (text: string) => [{ clause: text } as Clause];
+
+  it("reads the subject nearest the verb as the prevailing document", () => {
+    expect(detectPrecedence(clause("If this Agreement conflicts with a SOW, the SOW shall prevail."))?.prevails).toBe("sow");
+    expect(detectPrecedence(clause("If a SOW conflicts with this Agreement, this Agreement will take precedence."))?.prevails).toBe("master");
+  });
+
+  it("reads an ordered list as first listed wins", () => {
+    const text = "The following order of precedence applies: (a) any Statement of Work; (b) this Agreement.";
+    expect(detectPrecedence(clause(text))?.prevails).toBe("sow");
+  });
+
+  it("returns undefined when no clause addresses precedence", () => {
+    expect(detectPrecedence(clause("The Supplier shall deliver the Services."))).toBeUndefined();
+  });
+});
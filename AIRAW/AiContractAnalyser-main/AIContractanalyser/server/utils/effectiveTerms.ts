@@ -0,0 +1,335 @@
+import type { Clause, ContractDocument, ContractSummary, DocumentRelation } from "@shared/schema";
+
+type SummaryField = Exclude<keyof ContractSummary, "documentId" | "defaultedFields">;
+
+/**
+ * Everything known about the documents linked to the one being consolidated
+ */
+export interface TermsContext {
+  documents: Map<string, ContractDocument>;
+  relations: DocumentRelation[];
+  summaries: Map<string, ContractSummary>;
+  clauses: Map<string, Clause[]>;
+}
+
+/**
+ * Which of a master agreement and a statement of work wins where their terms conflict
+ */
+export interface PrecedenceRule {
+  prevails: "master" | "sow";
+  // The order-of-precedence clause the rule was read from, if any
+  clause?: string;
+  documentId?: string;
+}
+
+/**
+ * A document's terms with every applicable amendment, statement of work and
+ * superseding document taken into account
+ */
+export interface EffectiveTerms {
+  documentId: string;
+  summary: ContractSummary;
+  // The document each field's current value came from
+  sources: Partial<Record<SummaryField, string>>;
+  // Documents whose terms were applied, lowest precedence first
+  applied: { documentId: string; filename: string; role: "master" | "amendment" | "sow" | "document" }[];
+  // Documents left out because a later document replaces them
+  superseded: string[];
+  precedence?: PrecedenceRule;
+}
+
+// Stops malformed relation chains from looping forever
+const MAX_CHAIN_LENGTH = 50;
+
+// "shall prevail", "will take precedence", ... - the subject just before the verb wins
+const PREVAILS_PATTERN = /\b(?:shall|will)\s+(?:prevail|control|govern|take\s+precedence)\b/i;
+const PRECEDENCE_PATTERN = /order\s+of\s+precedence|\bprecedence\b|\bprevail/i;
+const MASTER_PATTERN = /\b(?:master\s+(?:\w+\s+)?agreement|msa|(?:this|the)\s+agreement)\b/gi;
+const SOW_PATTERN = /\b(?:statements?\s+of\s+work|sows?|work\s+orders?)\b/gi;
+
+/**
+ * Consolidate the terms in force for a document
+ * Superseded documents are replaced by the document that supersedes them, amendments are
+ * applied to the agreement they amend in sequence, and a statement of work is combined
+ * with its master agreement according to whichever order-of-precedence clause applies.
+ * @param documentId - The document to consolidate, which may be a master, SOW or amendment
+ * @param context - The linked documents with their summaries, clauses and relations
+ * @returns The effective terms
+ */
+export function consolidateTerms(documentId: string, context: TermsContext): EffectiveTerms {
+  const superseded = new Set<string>();
+  context.relations
+    .filter(relation => relation.relationType === "supersedes")
+    .forEach(relation => superseded.add(relation.relatedDocumentId));
+
+  // Amendments change the agreement they amend, so consolidate from that agreement
+  let agreementId = current(documentId, context);
+  for (let i = 0; i < MAX_CHAIN_LENGTH; i++) {
+    const amended = parentOf(agreementId, "amendment-of", context);
+    if (!amended) break;
+    agreementId = current(amended, context);
+  }
+
+  const master = parentOf(agreementId, "sow-under", context);
+  let terms: EffectiveTerms;
+
+  if (master) {
+    const masterId = current(master, context);
+    const masterTerms = termsWithAmendments(masterId, "master", context, superseded);
+    const sowTerms = termsWithAmendments(agreementId, "sow", context, superseded);
+
+    // An order-of-precedence clause in the SOW is the more specific statement, so look there first
+    const precedence =
+      findPrecedence(agreementId, context) ??
+      findPrecedence(masterId, context) ??
+      // Without one, the specific terms of the SOW govern its own work
+      { prevails: "sow" as const };
+
+    terms = precedence.prevails === "sow"
+      ? overlay(masterTerms, sowTerms)
+      : overlay(sowTerms, masterTerms);
+    // The consolidated terms describe the SOW's engagement, whichever document won each field
+    terms.summary.documentId = agreementId;
+    terms.precedence = precedence;
+  } else {
+    terms = termsWithAmendments(agreementId, "document", context, superseded);
+  }
+
+  terms.documentId = documentId;
+  terms.superseded = Array.from(superseded).filter(id => context.documents.has(id));
+  return terms;
+}
+
+/**
+ * Detect an order-of-precedence clause between a master agreement and its statements of work
+ * @param clauses - The clauses of one document
+ * @returns Which document prevails, or undefined if no clause settles it
+ */
+export function detectPrecedence(clauses: Clause[]): PrecedenceRule | undefined {
+  for (const clause of clauses) {
+    const text = clause.clause;
+    if (!PRECEDENCE_PATTERN.test(text)) continue;
+
+    const verb = text.match(PREVAILS_PATTERN);
+    if (verb && verb.index !== undefined) {
+      // "... in conflict with this Agreement, the SOW shall prevail": the nearer subject wins
+      const before = text.slice(0, verb.index);
+      const master = lastIndex(before, MASTER_PATTERN);
+      const sow = lastIndex(before, SOW_PATTERN);
+      if (master >= 0 || sow >= 0) {
+        return { prevails: sow > master ? "sow" : "master", clause: text };
+      }
+    }
+
+    // "The following order of precedence applies: (a) this Agreement; (b) any SOW": first listed wins
+    const master = firstIndex(text, MASTER_PATTERN);
+    const sow = firstIndex(text, SOW_PATTERN);
+    if (master >= 0 && sow >= 0) {
+      return { prevails: sow < master ? "sow" : "master", clause: text };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Follow "supersedes" links to the document currently in force
+ * @param documentId - A document ID
+ * @param context - The linked documents
+ * @returns The ID of the latest document replacing it, or the document itself
+ */
+function current(documentId: string, context: TermsContext): string {
+  let id = documentId;
+  const seen = new Set<string>([id]);
+  for (let i = 0; i < MAX_CHAIN_LENGTH; i++) {
+    const replacement = context.relations.find(
+      relation => relation.relationType === "supersedes" && relation.relatedDocumentId === id
+    );
+    if (!replacement || seen.has(replacement.documentId)) break;
+    id = replacement.documentId;
+    seen.add(id);
+  }
+  return id;
+}
+
+/**
+ * Find the document another one is linked under
+ * A superseding document takes the place of the one it replaces, so its links are inherited.
+ * @param documentId - The child document
+ * @param relationType - The kind of link
+ * @param context - The linked documents
+ * @returns The parent document ID, if linked
+ */
+function parentOf(documentId: string, relationType: DocumentRelation["relationType"], context: TermsContext): string | undefined {
+  let id: string | undefined = documentId;
+  const seen = new Set<string>();
+  while (id && !seen.has(id) && seen.size < MAX_CHAIN_LENGTH) {
+    seen.add(id);
+    const parent = context.relations.find(
+      relation => relation.relationType === relationType && relation.documentId === id
+    );
+    if (parent) {
+      return parent.relatedDocumentId;
+    }
+    const replacedId: string = id;
+    id = context.relations.find(
+      relation => relation.relationType === "supersedes" && relation.documentId === replacedId
+    )?.relatedDocumentId;
+  }
+  return undefined;
+}
+
+/**
+ * An agreement's terms with its amendments applied in sequence
+ * @param agreementId - The agreement
+ * @param role - How the agreement is listed among the applied documents
+ * @param context - The linked documents
+ * @param superseded - Documents replaced by others, which are skipped
+ * @returns The amended terms
+ */
+function termsWithAmendments(
+  agreementId: string,
+  role: "master" | "sow" | "document",
+  context: TermsContext,
+  superseded: Set<string>
+): EffectiveTerms {
+  let terms = ownTerms(agreementId, role, context);
+
+  // Summaries carry no real effective date, so the relation's sequence number sets the order,
+  // with amendments linked earlier first where numbers are missing or equal
+  const amendments = context.relations
+    .filter(relation => relation.relationType === "amendment-of" && relation.relatedDocumentId === agreementId)
+    .filter(relation => !superseded.has(relation.documentId) && context.documents.has(relation.documentId))
+    .sort((a, b) => (a.sequence ?? Infinity) - (b.sequence ?? Infinity) || a.id - b.id)
+    .map(relation => relation.documentId);
+
+  amendments.forEach(amendmentId => {
+    terms = overlay(terms, ownTerms(amendmentId, "amendment", context));
+  });
+  // Amendments do not change which agreement the terms belong to
+  terms.summary.documentId = agreementId;
+  return terms;
+}
+
+/**
+ * A single document's own summary, before anything else is applied
+ */
+function ownTerms(documentId: string, role: EffectiveTerms["applied"][number]["role"], context: TermsContext): EffectiveTerms {
+  const summary: ContractSummary = { ...(context.summaries.get(documentId) ?? { documentId }) };
+  const sources: EffectiveTerms["sources"] = {};
+  (Object.keys(summary) as (keyof ContractSummary)[]).forEach(field => {
+    if (field !== "documentId" && field !== "defaultedFields" && isStated(summary, field)) {
+      sources[field] = documentId;
+    }
+  });
+
+  return {
+    documentId,
+    summary,
+    sources,
+    applied: [{ documentId, filename: context.documents.get(documentId)?.filename ?? documentId, role }],
+    superseded: [],
+  };
+}
+
+/**
+ * Apply higher-precedence terms over lower-precedence ones
+ * Only fields the higher document actually states are applied, never its placeholders.
+ * Fees and rate card entries are replaced by name and added when new; other lists
+ * are replaced wholesale except termination rights and obligations, which accumulate, and
+ * missing required clauses, which drop out once either side contains them.
+ * The title, parties and effective date stay with the lower (earlier) document unless it only has placeholders.
+ * @param lower - Terms that give way
+ * @param higher - Terms that win
+ * @returns The combined terms
+ */
+function overlay(lower: EffectiveTerms, higher: EffectiveTerms): EffectiveTerms {
+  const summary: ContractSummary = { ...lower.summary };
+  const sources = { ...lower.sources };
+  const take = <F extends SummaryField>(field: F, value: ContractSummary[F]) => {
+    summary[field] = value;
+    // Keep the original source when the higher terms were themselves consolidated from amendments
+    sources[field] = higher.sources[field] ?? higher.summary.documentId;
+    summary.defaultedFields = summary.defaultedFields?.filter(defaulted => defaulted !== field);
+  };
+  const top = higher.summary;
+  // Placeholders on the lower side give way entirely rather than being merged with real terms
+  const own = <F extends SummaryField>(field: F) => (isStated(lower.summary, field) ? summary[field] : undefined);
+
+  (["title", "parties", "effectiveDate"] as const).forEach(field => {
+    if (!isStated(lower.summary, field) && isStated(top, field)) take(field, top[field]);
+  });
+  (["termLength", "confidentialityTerms", "paymentTerms"] as const).forEach(field => {
+    if (isStated(top, field)) take(field, top[field]);
+  });
+  if (isStated(top, "fees")) {
+    take("fees", mergeBy(own("fees") ?? [], top.fees!, fee => fee.name));
+  }
+  if (isStated(top, "rateCard")) {
+    take("rateCard", mergeBy(own("rateCard") ?? [], top.rateCard!, rate => rate.item));
+  }
+  (["terminationClauses", "keyObligations"] as const).forEach(field => {
+    if (isStated(top, field)) {
+      take(field, Array.from(new Set([...(own(field) ?? []), ...top[field]!])));
+    }
+  });
+  // A required clause is only missing from the combined terms when neither side provides it
+  if (summary.missingClauses && top.missingClauses) {
+    const stillMissing = summary.missingClauses.filter(finding => top.missingClauses!.some(other => other.ruleId === finding.ruleId));
+    if (stillMissing.length < summary.missingClauses.length) take("missingClauses", stillMissing);
+  }
+
+  return {
+    documentId: lower.documentId,
+    summary,
+    sources,
+    applied: [...lower.applied, ...higher.applied],
+    superseded: [],
+  };
+}
+
+/**
+ * Merge two lists, letting later entries replace earlier ones with the same key
+ */
+function mergeBy<T>(earlier: T[], later: T[], key: (item: T) => string): T[] {
+  const merged = new Map<string, T>();
+  earlier.forEach(item => merged.set(key(item).trim().toLowerCase(), item));
+  later.forEach(item => merged.set(key(item).trim().toLowerCase(), item));
+  return Array.from(merged.values());
+}
+
+/**
+ * Find an order-of-precedence clause in a document
+ */
+function findPrecedence(documentId: string, context: TermsContext): PrecedenceRule | undefined {
+  const rule = detectPrecedence(context.clauses.get(documentId) ?? []);
+  return rule && { ...rule, documentId };
+}
+
+/**
+ * Whether a summary field holds terms read from the contract rather than a placeholder
+ */
+function isStated(summary: ContractSummary, field: SummaryField): boolean {
+  return hasValue(summary[field]) && !summary.defaultedFields?.includes(field);
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === "object") return Object.values(value).some(hasValue);
+  return value !== undefined && value !== null && value !== "";
+}
+
+function firstIndex(text: string, pattern: RegExp): number {
+  pattern.lastIndex = 0;
+  const match = pattern.exec(text);
+  return match ? match.index : -1;
+}
+
+function lastIndex(text: string, pattern: RegExp): number {
+  let index = -1;
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    index = match.index;
+  }
+  return index;
+}
@@ -0,0 +1,77 @@
+import { JSDOM } from "jsdom";
+import { normalizeParagraphs, unpaginated, type ExtractedText, type TextExtractor } from "./types";
+
+// Elements that start a new paragraph in the extracted text
+const BLOCK_ELEMENTS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "DD", "DIV", "DL", "DT", "FIELDSET", "FIGCAPTION",
+  "FIGURE", "FOOTER", "FORM", "H1", "H2", "H3", "H4", "H5", "H6", "HEADER", "HR", "LI", "MAIN",
+  "OL", "P", "PRE", "SECTION", "TABLE", "TR", "UL",
+]);
+
+// Elements whose content is never contract text
+const SKIPPED_ELEMENTS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "SVG", "NAV", "BUTTON", "SELECT"]);
+
+/**
+ * Walk the DOM collecting visible text, breaking paragraphs at block elements
+ * @param node - The node to walk
+ * @returns The node's text
+ */
+function collectText(node: Node): string {
+  if (node.nodeType === node.TEXT_NODE) {
+    return (node.textContent || "").replace(/\s+/g, " ");
+  }
+  if (node.nodeType !== node.ELEMENT_NODE) {
+    return "";
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toUpperCase();
+  if (SKIPPED_ELEMENTS.has(tag) || element.getAttribute("hidden") !== null) {
+    return "";
+  }
+  if (tag === "BR") {
+    return "\n";
+  }
+  if (tag === "PRE") {
+    return `\n\n${element.textContent || ""}\n\n`;
+  }
+
+  let text = "";
+  element.childNodes.forEach(child => {
+    text += collectText(child);
+  });
+
+  if (tag === "TD" || tag === "TH") {
+    return `${text}\t`;
+  }
+  return BLOCK_ELEMENTS.has(tag) ? `\n\n${text}\n\n` : text;
+}
+
+/**
+ * Extract the visible text of an HTML page, such as click-through terms saved from a vendor site
+ * @param buffer - The HTML file buffer
+ * @returns Extracted text
+ */
+async function extractTextFromHtml(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    const { window } = new JSDOM(buffer.toString("utf8"));
+    const body = window.document.body;
+    const text = body ? collectText(body) : "";
+    window.close();
+
+    return unpaginated(normalizeParagraphs(text.replace(/ {2,}/g, " ")));
+  } catch (error) {
+    console.error("Error extracting text from HTML:", error);
+    throw new Error("Failed to extract text from HTML");
+  }
+}
+
+export const htmlExtractor: TextExtractor = {
+  type: "html",
+  mimetypes: ["text/html", "application/xhtml+xml"],
+  extensions: [".html", ".htm", ".xhtml"],
+  sniff: buffer => /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html)[\s>]/i.test(
+    buffer.subarray(0, 1024).toString("utf8").replace(/^\uFEFF/, "")
+  ),
+  extract: extractTextFromHtml,
+};
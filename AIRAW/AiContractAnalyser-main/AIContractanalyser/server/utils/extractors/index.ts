@@ -0,0 +1,107 @@
+import path from "path";
+import { pdfExtractor } from "./pdf";
+import { docExtractor, docxExtractor } from "./word";
+import { odtExtractor } from "./odt";
+import { rtfExtractor } from "./rtf";
+import { htmlExtractor } from "./html";
+import { markdownExtractor, txtExtractor } from "./text";
+import type { DocumentType, ExtractOptions, ExtractedText, TextExtractor } from "./types";
+
+export type { DocumentType, ExtractOptions, ExtractedText, TextExtractor } from "./types";
+
+// Registration order matters for sniffing: ODT must be tried before the generic zip check for DOCX
+const extractors = new Map<DocumentType, TextExtractor>();
+
+/**
+ * Register a text extractor, replacing any existing one for the same type
+ * @param extractor - The extractor to register
+ */
+export function registerExtractor(extractor: TextExtractor): void {
+  extractors.set(extractor.type, extractor);
+}
+
+[
+  pdfExtractor,
+  docExtractor,
+  odtExtractor,
+  docxExtractor,
+  rtfExtractor,
+  htmlExtractor,
+  markdownExtractor,
+  txtExtractor,
+].forEach(registerExtractor);
+
+/**
+ * Work out what kind of document was uploaded
+ * File signatures win over the declared mimetype, since browsers often mislabel uploads
+ * (e.g. .docx sent as application/msword, .md sent as application/octet-stream)
+ * @param buffer - The file buffer
+ * @param mimetype - The declared mimetype
+ * @param filename - The original filename, if known
+ * @returns The detected type, or undefined if no extractor handles the file
+ */
+export function detectDocumentType(
+  buffer: Buffer,
+  mimetype: string,
+  filename?: string
+): DocumentType | undefined {
+  const registered = Array.from(extractors.values());
+
+  const sniffed = registered.find(extractor => extractor.sniff?.(buffer));
+  if (sniffed) {
+    return sniffed.type;
+  }
+
+  const extension = filename ? path.extname(filename).toLowerCase() : "";
+  const byExtension = registered.find(extractor => extractor.extensions.includes(extension));
+  if (byExtension) {
+    return byExtension.type;
+  }
+
+  return registered.find(extractor => extractor.mimetypes.includes(mimetype))?.type;
+}
+
+/**
+ * Check whether an upload looks like a supported format before its content is available
+ * @param mimetype - The declared mimetype
+ * @param filename - The original filename
+ * @returns True if any extractor accepts the mimetype or extension
+ */
+export function isSupportedUpload(mimetype: string, filename: string): boolean {
+  const extension = path.extname(filename).toLowerCase();
+  return Array.from(extractors.values()).some(
+    extractor => extractor.mimetypes.includes(mimetype) || extractor.extensions.includes(extension)
+  );
+}
+
+/**
+ * List the file extensions of every registered format
+ * @returns Extensions such as ".pdf"
+ */
+export function supportedExtensions(): string[] {
+  return Array.from(extractors.values()).flatMap(extractor => extractor.extensions);
+}
+
+/**
+ * Extract text from a document using the extractor for its detected type
+ * @param buffer - The file buffer
+ * @param mimetype - The declared mimetype
+ * @param filename - The original filename, if known
+ * @param options - Whether OCR may be used
+ * @returns Extracted text with page boundaries where the format has pages
+ */
+export async function extractText(
+  buffer: Buffer,
+  mimetype: string,
+  filename?: string,
+  options?: ExtractOptions
+): Promise<ExtractedText> {
+  const type = detectDocumentType(buffer, mimetype, filename);
+  const extractor = type && extractors.get(type);
+  if (!extractor) {
+    throw new Error(`Unsupported document type: ${mimetype || filename || "unknown"}`);
+  }
+
+  console.log(`Detected document type: ${type}`);
+  return extractor.extract(buffer, options);
+}
@@ -0,0 +1,94 @@
+import JSZip from "jszip";
+import { JSDOM } from "jsdom";
+import { normalizeParagraphs, unpaginated, type ExtractedText, type TextExtractor } from "./types";
+
+const TEXT_NS = "urn:oasis:names:tc:opendocument:xmlns:text:1.0";
+const TABLE_NS = "urn:oasis:names:tc:opendocument:xmlns:table:1.0";
+const OFFICE_NS = "urn:oasis:names:tc:opendocument:xmlns:office:1.0";
+const ODT_MIMETYPE = "application/vnd.oasis.opendocument.text";
+
+/**
+ * Walk ODF content collecting text, one paragraph per text:p / text:h
+ * @param node - The node to walk
+ * @returns The node's text
+ */
+function collectOdfText(node: Node): string {
+  if (node.nodeType === node.TEXT_NODE) {
+    return node.textContent || "";
+  }
+  if (node.nodeType !== node.ELEMENT_NODE) {
+    return "";
+  }
+
+  const element = node as Element;
+  const { namespaceURI, localName } = element;
+
+  if (namespaceURI === OFFICE_NS && localName === "annotation") {
+    return "";
+  }
+  if (namespaceURI === TEXT_NS) {
+    switch (localName) {
+      case "tracked-changes":
+      case "note-citation":
+        return "";
+      case "s":
+        return " ".repeat(parseInt(element.getAttributeNS(TEXT_NS, "c") || "1", 10) || 1);
+      case "tab":
+        return "\t";
+      case "line-break":
+        return "\n";
+    }
+  }
+
+  let text = "";
+  element.childNodes.forEach(child => {
+    text += collectOdfText(child);
+  });
+
+  if (namespaceURI === TEXT_NS && (localName === "p" || localName === "h")) {
+    return `\n\n${text}\n\n`;
+  }
+  if (namespaceURI === TABLE_NS && localName === "table-cell") {
+    return `${text.trim()}\t`;
+  }
+  if (namespaceURI === TABLE_NS && localName === "table-row") {
+    return `${text}\n`;
+  }
+  return text;
+}
+
+/**
+ * Extract text from an OpenDocument text file
+ * @param buffer - The ODT file buffer
+ * @returns Extracted text
+ */
+async function extractTextFromOdt(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const content = zip.file("content.xml");
+    if (!content) {
+      throw new Error("ODT package has no content.xml");
+    }
+
+    const { window } = new JSDOM(await content.async("string"), { contentType: "text/xml" });
+    const body = window.document.getElementsByTagNameNS(OFFICE_NS, "text")[0];
+    const text = body ? collectOdfText(body) : "";
+    window.close();
+
+    return unpaginated(normalizeParagraphs(text));
+  } catch (error) {
+    console.error("Error extracting text from ODT:", error);
+    throw new Error("Failed to extract text from ODT");
+  }
+}
+
+export const odtExtractor: TextExtractor = {
+  type: "odt",
+  mimetypes: [ODT_MIMETYPE],
+  extensions: [".odt"],
+  // ODF packages store an uncompressed "mimetype" entry first, so the type is readable at a fixed offset
+  sniff: buffer =>
+    buffer.subarray(30, 38).toString("latin1") === "mimetype" &&
+    buffer.subarray(38, 38 + ODT_MIMETYPE.length).toString("latin1") === ODT_MIMETYPE,
+  extract: extractTextFromOdt,
+};
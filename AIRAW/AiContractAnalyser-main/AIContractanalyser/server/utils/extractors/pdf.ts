@@ -0,0 +1,47 @@
+import { extractPdfPages } from "../pdfExtractor";
+import { ocrPdfPages } from "../ocr";
+import { joinPages, type ExtractOptions, type ExtractedText, type TextExtractor } from "./types";
+
+/**
+ * Extract text from PDF, falling back to OCR for scanned documents
+ * @param buffer - The PDF file buffer
+ * @param options - Whether OCR may be used
+ * @returns Extracted text with page boundaries; empty for a scan when OCR is off
+ */
+async function extractTextFromPdf(buffer: Buffer, options: ExtractOptions = {}): Promise<ExtractedText> {
+  try {
+    const pages = await extractPdfPages(buffer);
+    console.log(`PDF has ${pages.length} pages`);
+
+    const extracted = joinPages(pages);
+    if (extracted.text.trim().length > 0 || options.ocr === false) {
+      return extracted;
+    }
+
+    // No text layer - this is an image-only scan, so recognize the page images instead
+    console.log("PDF contains no extractable text layer, running OCR");
+    const ocrPages = await ocrPdfPages(buffer);
+    const ocrText = joinPages(ocrPages.map(page => page.text));
+    ocrText.ocrWords = ocrPages.flatMap((page, i) =>
+      page.words.map(word => ({
+        ...word,
+        start: word.start + ocrText.pageStarts[i],
+        end: word.end + ocrText.pageStarts[i]
+      }))
+    );
+    console.log(`OCR recognized ${ocrText.ocrWords.length} words`);
+
+    return ocrText;
+  } catch (error) {
+    console.error("Error extracting text from PDF:", error);
+    throw new Error("Failed to extract text from PDF");
+  }
+}
+
+export const pdfExtractor: TextExtractor = {
+  type: "pdf",
+  mimetypes: ["application/pdf"],
+  extensions: [".pdf"],
+  sniff: buffer => buffer.subarray(0, 5).toString("latin1") === "%PDF-",
+  extract: extractTextFromPdf,
+};
@@ -0,0 +1,197 @@
+import { normalizeParagraphs, unpaginated, type ExtractedText, type TextExtractor } from "./types";
+
+// Destination groups that hold formatting tables, metadata or embedded objects rather than body text
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "fldinst", "themedata",
+  "colorschememapping", "datastore", "latentstyles", "listtable", "listoverridetable",
+  "rsidtbl", "generator", "xmlnstbl", "header", "headerl", "headerr", "headerf",
+  "footer", "footerl", "footerr", "footerf", "bkmkstart", "bkmkend", "filetbl", "revtbl",
+]);
+
+// Control words that stand for a piece of text
+const CONTROL_TEXT: Record<string, string> = {
+  par: "\n\n",
+  sect: "\n\n",
+  page: "\n\n",
+  line: "\n",
+  row: "\n",
+  tab: "\t",
+  cell: "\t",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  emspace: " ",
+  enspace: " ",
+  qmspace: " ",
+};
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+/**
+ * Decode bytes written as \'hh escapes in the document's ANSI code page
+ * @param bytes - The raw bytes
+ * @param codePage - The \ansicpg code page
+ * @returns Decoded text
+ */
+function decodeBytes(bytes: number[], codePage: number): string {
+  try {
+    return new TextDecoder(`windows-${codePage}`).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder("windows-1252").decode(new Uint8Array(bytes));
+  }
+}
+
+/**
+ * Convert RTF markup to plain text
+ * @param rtf - The RTF source
+ * @returns Plain text with paragraphs separated by blank lines
+ */
+function rtfToText(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let codePage = 1252;
+  let output = "";
+  let pendingBytes: number[] = [];
+  let charsToSkip = 0;
+  let groupStart = false;
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      output += decodeBytes(pendingBytes, codePage);
+      pendingBytes = [];
+    }
+  };
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) {
+      output += text;
+    }
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      i++;
+      continue;
+    }
+    if (char === "}") {
+      flushBytes();
+      state = stack.pop() || { skip: false, unicodeSkip: 1 };
+      groupStart = false;
+      i++;
+      continue;
+    }
+
+    const atGroupStart = groupStart;
+    groupStart = false;
+
+    if (char !== "\\") {
+      i++;
+      if (char === "\r" || char === "\n") {
+        continue;
+      }
+      if (charsToSkip > 0) {
+        charsToSkip--;
+        continue;
+      }
+      emit(char);
+      continue;
+    }
+
+    // Control symbol or control word
+    const next = rtf[i + 1];
+    if (next === undefined) {
+      break;
+    }
+
+    if (next === "'") {
+      const byte = parseInt(rtf.substr(i + 2, 2), 16);
+      i += 4;
+      if (charsToSkip > 0) {
+        charsToSkip--;
+      } else if (!state.skip && !isNaN(byte)) {
+        pendingBytes.push(byte);
+      }
+      continue;
+    }
+
+    if (!/[a-zA-Z]/.test(next)) {
+      i += 2;
+      if (next === "*") {
+        // Ignorable destination: skip the group unless we understand it, which we never need to
+        if (atGroupStart) {
+          state.skip = true;
+        }
+      } else if (next === "~") {
+        emit(" ");
+      } else if (next === "_") {
+        emit("-");
+      } else if (next === "\n" || next === "\r") {
+        emit("\n\n");
+      } else if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+      }
+      continue;
+    }
+
+    const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 64));
+    const word = match ? match[1] : "";
+    const param = match && match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+    i += 1 + (match ? match[0].length : 1);
+
+    if (atGroupStart && SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+
+    if (word === "ansicpg" && param !== undefined) {
+      codePage = param;
+    } else if (word === "uc" && param !== undefined) {
+      state.unicodeSkip = param;
+    } else if (word === "u" && param !== undefined) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      charsToSkip = state.unicodeSkip;
+    } else if (word in CONTROL_TEXT) {
+      emit(CONTROL_TEXT[word]);
+    }
+  }
+  flushBytes();
+
+  return output;
+}
+
+/**
+ * Extract text from an RTF document
+ * @param buffer - The RTF file buffer
+ * @returns Extracted text
+ */
+async function extractTextFromRtf(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    // RTF is 7-bit ASCII; anything outside that is escaped and decoded by the parser
+    return unpaginated(normalizeParagraphs(rtfToText(buffer.toString("latin1"))));
+  } catch (error) {
+    console.error("Error extracting text from RTF:", error);
+    throw new Error("Failed to extract text from RTF");
+  }
+}
+
+export const rtfExtractor: TextExtractor = {
+  type: "rtf",
+  mimetypes: ["application/rtf", "text/rtf", "application/x-rtf"],
+  extensions: [".rtf"],
+  sniff: buffer => buffer.subarray(0, 5).toString("latin1") === "{\\rtf",
+  extract: extractTextFromRtf,
+};
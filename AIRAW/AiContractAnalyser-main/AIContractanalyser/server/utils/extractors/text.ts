@@ -0,0 +1,61 @@
+import { normalizeParagraphs, unpaginated, type ExtractedText, type TextExtractor } from "./types";
+
+/**
+ * Decode a text file, dropping a UTF-8 byte order mark if present
+ * @param buffer - The file buffer
+ * @returns Decoded text
+ */
+function decodeText(buffer: Buffer): string {
+  return buffer.toString("utf8").replace(/^\uFEFF/, "");
+}
+
+/**
+ * Extract text from a plain text file
+ * @param buffer - The file buffer
+ * @returns Extracted text
+ */
+async function extractTextFromTxt(buffer: Buffer): Promise<ExtractedText> {
+  return unpaginated(normalizeParagraphs(decodeText(buffer)));
+}
+
+/**
+ * Extract text from Markdown, keeping headings and list numbering but dropping markup
+ * @param buffer - The Markdown file buffer
+ * @returns Extracted text
+ */
+async function extractTextFromMarkdown(buffer: Buffer): Promise<ExtractedText> {
+  const text = decodeText(buffer)
+    // Fenced code block markers (the content is kept)
+    .replace(/^\s*(```|~~~).*$/gm, "")
+    // Headings become their own paragraph
+    .replace(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/gm, "\n$1\n")
+    // Setext heading underlines and horizontal rules
+    .replace(/^\s{0,3}([=\-*_])(\s*\1){2,}\s*$/gm, "")
+    // Block quotes
+    .replace(/^\s{0,3}>\s?/gm, "")
+    // Bullet markers (numbered lists are kept since they often carry clause numbers)
+    .replace(/^(\s*)[*+-]\s+/gm, "$1")
+    // Images and links keep their visible text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    // Emphasis and inline code
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_](?!\s)(.+?)[*_](?=[^\w*]|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1");
+
+  return unpaginated(normalizeParagraphs(text));
+}
+
+export const txtExtractor: TextExtractor = {
+  type: "txt",
+  mimetypes: ["text/plain"],
+  extensions: [".txt", ".text"],
+  extract: extractTextFromTxt,
+};
+
+export const markdownExtractor: TextExtractor = {
+  type: "markdown",
+  mimetypes: ["text/markdown", "text/x-markdown"],
+  extensions: [".md", ".markdown"],
+  extract: extractTextFromMarkdown,
+};
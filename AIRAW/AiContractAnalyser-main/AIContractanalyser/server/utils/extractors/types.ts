@@ -0,0 +1,79 @@
+import type { OcrWord } from "../ocr";
+
+/**
+ * Document formats the analyzer can read
+ */
+export type DocumentType = "pdf" | "doc" | "docx" | "odt" | "rtf" | "html" | "markdown" | "txt";
+
+/**
+ * Document text with the offset at which each page starts, plus word
+ * confidences when the text came from OCR
+ */
+export interface ExtractedText {
+  text: string;
+  pageStarts: number[];
+  ocrWords?: OcrWord[];
+}
+
+/**
+ * How much work extraction may do
+ */
+export interface ExtractOptions {
+  // Recognize scanned pages with OCR when a PDF has no text layer; on by default
+  ocr?: boolean;
+}
+
+/**
+ * A text extractor for one document format
+ */
+export interface TextExtractor {
+  type: DocumentType;
+  mimetypes: string[];
+  extensions: string[];
+  // Recognizes the format from the file's leading bytes, for formats that have a signature
+  sniff?: (buffer: Buffer) => boolean;
+  extract: (buffer: Buffer, options?: ExtractOptions) => Promise<ExtractedText>;
+}
+
+/**
+ * Wrap text from a format without pages
+ * @param text - The extracted text
+ * @returns Extracted text with no page boundaries
+ */
+export function unpaginated(text: string): ExtractedText {
+  return { text, pageStarts: [] };
+}
+
+/**
+ * Join page texts into one document text, remembering where each page starts
+ * @param pages - Text of each page
+ * @returns Combined text with page start offsets
+ */
+export function joinPages(pages: string[]): ExtractedText {
+  // Pages are joined with a blank line so paragraph splitting never spans a page break
+  const pageStarts: number[] = [];
+  let text = "";
+  pages.forEach((pageText, i) => {
+    if (i > 0) {
+      text += "\n\n";
+    }
+    pageStarts.push(text.length);
+    text += pageText;
+  });
+
+  return { text, pageStarts };
+}
+
+/**
+ * Collapse runs of blank lines and trailing spaces left behind by markup removal
+ * @param text - Raw text
+ * @returns Text with paragraphs separated by exactly one blank line
+ */
+export function normalizeParagraphs(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+\n/g, "\n")
+    .replace(/\n[ \t\u00a0]+/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
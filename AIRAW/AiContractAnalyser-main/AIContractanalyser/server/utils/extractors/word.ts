@@ -0,0 +1,64 @@
+import mammoth from "mammoth";
+import WordExtractor from "word-extractor";
+import { unpaginated, type ExtractedText, type TextExtractor } from "./types";
+
+const COMPOUND_FILE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * Extract text from DOCX
+ * @param buffer - The DOCX file buffer
+ * @returns Extracted text
+ */
+async function extractTextFromDocx(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    // Using mammoth to extract text from DOCX
+    const result = await mammoth.extractRawText({ buffer });
+    return unpaginated(result.value);
+  } catch (error) {
+    console.error("Error extracting text from DOCX:", error);
+    throw new Error("Failed to extract text from DOCX");
+  }
+}
+
+/**
+ * Extract text from a Word 97-2003 binary DOC
+ * @param buffer - The DOC file buffer
+ * @returns Extracted text
+ */
+async function extractTextFromDoc(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    const document = await new WordExtractor().extract(buffer);
+
+    // Word stores one paragraph per line; separate them with blank lines like mammoth does for DOCX
+    return unpaginated(
+      document
+        .getBody()
+        .split(/\r?\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(paragraph => paragraph.length > 0)
+        .join("\n\n")
+    );
+  } catch (error) {
+    console.error("Error extracting text from DOC:", error);
+    throw new Error("Failed to extract text from DOC");
+  }
+}
+
+export const docExtractor: TextExtractor = {
+  type: "doc",
+  mimetypes: ["application/msword"],
+  extensions: [".doc"],
+  // OLE2 compound file, the container used by Word 97-2003
+  sniff: buffer => buffer.subarray(0, COMPOUND_FILE_SIGNATURE.length).equals(COMPOUND_FILE_SIGNATURE),
+  extract: extractTextFromDoc,
+};
+
+export const docxExtractor: TextExtractor = {
+  type: "docx",
+  mimetypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  extensions: [".docx"],
+  // A zip package with a word/ part; entry names are stored uncompressed so a byte search is enough
+  sniff: buffer => buffer.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE) && buffer.includes("word/"),
+  extract: extractTextFromDocx,
+};
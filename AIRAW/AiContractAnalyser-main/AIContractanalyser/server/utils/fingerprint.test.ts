@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { ContractDocument } from "@shared/schema";
+import { findDuplicate, fingerprintText, simhashDistance } from "./fingerprint";
+
+const contractText = Array.from({ length: 40 }, (_, i) =>
+  `${i + 1}. The Supplier shall deliver item ${i + 1} to the Customer's site number ${i * 7 % 13} within ${i + 10} days of each order.`
+).join("\n\n");
+const editedText = contractText.replace("within 25 days", "within 26 days");
+
+function stored(id: string, text: string | undefined, fields: Partial<ContractDocument> = {}): ContractDocument {
+  const fingerprint = text !== undefined ? fingerprintText(text) : undefined;
+  return {
+    id,
+    contentHash: `file-${id}`,
+    textHash: fingerprint?.textHash ?? null,
+    simhash: fingerprint?.simhash ?? null,
+    status: "analyzed",
+    ...fields,
+  } as ContractDocument;
+}
+
+describe("fingerprintText", () => {
+  it("ignores case, punctuation and whitespace", () => {
+    expect(fingerprintText("Net 30 days.\n\nTime is of the essence!").textHash)
+      .toBe(fingerprintText("net 30 days time  is of the essence").textHash);
+  });
+
+  it("gives a slightly edited text a nearby simhash and an unrelated text a distant one", () => {
+    const original = fingerprintText(contractText).simhash;
+    expect(simhashDistance(original, fingerprintText(editedText).simhash)).toBeLessThanOrEqual(3);
+    expect(simhashDistance(original, fingerprintText("The tenant shall pay rent monthly in advance to the landlord.").simhash)).toBeGreaterThan(3);
+  });
+});
+
+describe("simhashDistance", () => {
+  it("counts differing bits across all 64", () => {
+    expect(simhashDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(simhashDistance("8000000000000001", "0000000000000000")).toBe(2);
+    expect(simhashDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+  });
+});
+
+describe("findDuplicate", () => {
+  it("prefers the same file, then the same text, then a near-identical text", () => {
+    const documents = [stored("near", editedText), stored("text", contractText), stored("file", undefined, { contentHash: "upload" })];
+    const fingerprint = fingerprintText(contractText);
+
+    expect(findDuplicate(documents, "upload", fingerprint)).toMatchObject({ document: { id: "file" }, match: "exact", similarity: 1 });
+    expect(findDuplicate(documents, "other", fingerprint)).toMatchObject({ document: { id: "text" }, match: "text", similarity: 1 });
+    expect(findDuplicate(documents.slice(0, 1), "other", fingerprint)).toMatchObject({ document: { id: "near" }, match: "near" });
+  });
+
+  it("ignores failed analyses and unrelated text", () => {
+    const fingerprint = fingerprintText(contractText);
+    expect(findDuplicate([stored("failed", contractText, { status: "failed" })], "other", fingerprint)).toBeUndefined();
+    expect(findDuplicate([stored("lease", "The tenant shall pay rent monthly in advance.")], "other", fingerprint)).toBeUndefined();
+    expect(findDuplicate([stored("text", contractText)], "other")).toBeUndefined();
+  });
+});
@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import { normalizeForComparison } from "./textChunker";
+import type { ContractDocument } from "@shared/schema";
+
+// Simhashes this many bits apart (out of 64) are treated as the same contract with minor edits
+export const NEAR_DUPLICATE_DISTANCE = parseInt(process.env.NEAR_DUPLICATE_DISTANCE || "3", 10);
+
+// Words per shingle; three words keeps reordered boilerplate from looking identical
+const SHINGLE_SIZE = 3;
+
+/**
+ * Hashes identifying a document's text independently of its file format
+ */
+export interface TextFingerprint {
+  // SHA-256 of the normalized text, equal for the same text saved as PDF and DOCX
+  textHash: string;
+  // 64-bit simhash as 16 hex digits, close for texts that differ only slightly
+  simhash: string;
+}
+
+/**
+ * How an upload matched a document already in the workspace
+ */
+export interface DuplicateMatch {
+  document: ContractDocument;
+  // "exact" is the same file, "text" the same text in another file, "near" a near-identical text
+  match: "exact" | "text" | "near";
+  // Fraction of simhash bits in common (0-1)
+  similarity: number;
+}
+
+/**
+ * Fingerprint document text for duplicate detection
+ * @param text - The extracted document text
+ * @returns The normalized text hash and simhash
+ */
+export function fingerprintText(text: string): TextFingerprint {
+  const normalized = normalizeForComparison(text);
+  return {
+    textHash: createHash("sha256").update(normalized).digest("hex"),
+    simhash: simhash(normalized),
+  };
+}
+
+/**
+ * Number of bits that differ between two simhashes
+ * @param a - A simhash in hex
+ * @param b - Another simhash in hex
+ * @returns The Hamming distance (0-64)
+ */
+export function simhashDistance(a: string, b: string): number {
+  let distance = 0;
+  // Compare 32 bits at a time to stay within JavaScript's bitwise operators
+  for (let i = 0; i < 16; i += 8) {
+    let bits = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (bits) {
+      bits &= bits - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Find the document an upload duplicates, preferring the strongest kind of match
+ * @param documents - Documents already in the workspace
+ * @param contentHash - SHA-256 of the uploaded file
+ * @param fingerprint - Fingerprint of the uploaded file's text, if it could be extracted
+ * @returns The best match, or undefined if the upload is new
+ */
+export function findDuplicate(
+  documents: ContractDocument[],
+  contentHash: string,
+  fingerprint?: TextFingerprint
+): DuplicateMatch | undefined {
+  // A failed analysis is not worth reusing
+  const candidates = documents.filter(document => document.status !== "failed");
+
+  const exact = candidates.find(document => document.contentHash === contentHash);
+  if (exact) {
+    return { document: exact, match: "exact", similarity: 1 };
+  }
+  if (!fingerprint) {
+    return undefined;
+  }
+
+  const sameText = candidates.find(document => document.textHash === fingerprint.textHash);
+  if (sameText) {
+    return { document: sameText, match: "text", similarity: 1 };
+  }
+
+  let nearest: DuplicateMatch | undefined;
+  let nearestDistance = NEAR_DUPLICATE_DISTANCE + 1;
+  candidates.forEach(document => {
+    if (!document.simhash) {
+      return;
+    }
+    const distance = simhashDistance(document.simhash, fingerprint.simhash);
+    if (distance < nearestDistance) {
+      nearestDistance = distance;
+      nearest = { document, match: "near", similarity: 1 - distance / 64 };
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Compute a 64-bit simhash over word shingles
+ * @param normalized - Text already normalized for comparison
+ * @returns The simhash as 16 hex digits
+ */
+function simhash(normalized: string): string {
+  const words = normalized.split(" ").filter(Boolean);
+  const weights = new Array<number>(64).fill(0);
+
+  const shingleCount = Math.max(words.length - SHINGLE_SIZE + 1, words.length > 0 ? 1 : 0);
+  for (let i = 0; i < shingleCount; i++) {
+    const digest = createHash("md5").update(words.slice(i, i + SHINGLE_SIZE).join(" ")).digest();
+    const high = digest.readUInt32BE(0);
+    const low = digest.readUInt32BE(4);
+    for (let bit = 0; bit < 32; bit++) {
+      weights[bit] += (high >>> (31 - bit)) & 1 ? 1 : -1;
+      weights[bit + 32] += (low >>> (31 - bit)) & 1 ? 1 : -1;
+    }
+  }
+
+  let high = 0;
+  let low = 0;
+  for (let bit = 0; bit < 32; bit++) {
+    high = (high << 1) | (weights[bit] > 0 ? 1 : 0);
+    low = (low << 1) | (weights[bit + 32] > 0 ? 1 : 0);
+  }
+  return (high >>> 0).toString(16).padStart(8, "0") + (low >>> 0).toString(16).padStart(8, "0");
+}
@@ -0,0 +1,130 @@
+import { createRequire } from "module";
+import path from "path";
+import { createCanvas } from "@napi-rs/canvas";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { createWorker, type Page } from "tesseract.js";
+
+// Render at roughly 216 DPI, which keeps small contract print legible for Tesseract
+const RENDER_SCALE = 3;
+
+/**
+ * A recognized word and where it sits in the page text
+ */
+export interface OcrWord {
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+/**
+ * OCR output for a single page
+ */
+export interface OcrPage {
+  text: string;
+  words: OcrWord[];
+}
+
+/**
+ * Resolve the bundled English traineddata so OCR never reaches out to a CDN
+ * @returns Directory containing eng.traineddata.gz
+ */
+function resolveLangPath(): string {
+  if (process.env.OCR_LANG_PATH) {
+    return process.env.OCR_LANG_PATH;
+  }
+
+  const require = createRequire(import.meta.url);
+  return path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0");
+}
+
+/**
+ * Run OCR over every page of a PDF on the local CPU
+ * @param buffer - The PDF file buffer
+ * @returns Recognized text and word confidences for each page
+ */
+export async function ocrPdfPages(buffer: Buffer): Promise<OcrPage[]> {
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    useSystemFonts: true,
+    isEvalSupported: false,
+  }).promise;
+  const worker = await createWorker("eng", undefined, {
+    langPath: resolveLangPath(),
+    cacheMethod: "none",
+    gzip: true,
+  });
+
+  try {
+    const pages: OcrPage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      console.log(`Running OCR on page ${pageNumber}/${pdf.numPages}`);
+      const image = await renderPage(pdf, pageNumber);
+      const { data } = await worker.recognize(image);
+      pages.push(layoutOcrPage(data));
+    }
+
+    return pages;
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Rasterize a PDF page to PNG
+ * @param pdf - The loaded PDF document
+ * @param pageNumber - 1-based page number
+ * @returns PNG image buffer
+ */
+async function renderPage(
+  pdf: Awaited<ReturnType<typeof getDocument>["promise"]>,
+  pageNumber: number
+): Promise<Buffer> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = canvas.getContext("2d");
+
+  // Scans are often transparent where no ink is, so paint white paper underneath
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({
+    canvasContext: context as unknown as CanvasRenderingContext2D,
+    viewport,
+  }).promise;
+  page.cleanup();
+
+  return canvas.toBuffer("image/png");
+}
+
+/**
+ * Build page text from Tesseract's paragraph/line/word tree, recording word offsets
+ * @param data - The Tesseract page result
+ * @returns Page text with a confidence entry for each word
+ */
+function layoutOcrPage(data: Page): OcrPage {
+  const words: OcrWord[] = [];
+  let text = "";
+
+  data.paragraphs.forEach((paragraph, p) => {
+    if (p > 0) {
+      text += "\n\n";
+    }
+    paragraph.lines.forEach((line, l) => {
+      if (l > 0) {
+        text += "\n";
+      }
+      line.words.forEach((word, w) => {
+        if (w > 0) {
+          text += " ";
+        }
+        words.push({ start: text.length, end: text.length + word.text.length, confidence: word.confidence });
+        text += word.text;
+      });
+    });
+  });
+
+  return { text, words };
+}
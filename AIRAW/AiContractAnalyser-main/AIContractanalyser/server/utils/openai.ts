@@ -1,5 +1,17 @@
 import OpenAI from 'openai';
-import { ComplianceRule } from '@shared/schema';
+import { ComplianceIssue, ComplianceRule } from '@shared/schema';
+import { DEFAULT_RISK_MODEL, riskLevel, type RiskModel } from '@shared/riskModel';
+import {
+  chunkText,
+  measureCoverage,
+  mergeChunkClauses,
+  normalizeForComparison,
+  MAX_CHUNKS,
+  type TextChunk,
+  type TextCoverage
+} from './textChunker';
+import { describeRule, matchRule } from './ruleMatcher';
+import { checkThreshold, formatLimit, thresholdIssue } from './thresholdRules';
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 const MODEL = 'gpt-4o';
@@ -9,10 +21,45 @@ const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
 /**
  * Use OpenAI to extract clauses from a contract document
+ * Long documents are sent in overlapping chunks and the results merged, so clauses
+ * past the model's input size are still extracted
  * @param text - The document text content
- * @returns Array of identified clauses
+ * @returns Identified clauses and how much of the text was analyzed
  */
-export async function extractClausesWithAI(text: string): Promise<string[]> {
+export async function extractClausesWithAI(text: string): Promise<{ clauses: string[]; coverage: TextCoverage }> {
+  const chunks = chunkText(text);
+  const processed = chunks.slice(0, MAX_CHUNKS);
+  if (processed.length < chunks.length) {
+    console.warn(`Document needs ${chunks.length} chunks; only the first ${MAX_CHUNKS} will be analyzed`);
+  }
+
+  const chunkClauses: string[][] = [];
+  const analyzed: TextChunk[] = [];
+  for (let i = 0; i < processed.length; i++) {
+    console.log(`Extracting clauses from chunk ${i + 1}/${processed.length} (characters ${processed[i].start}-${processed[i].end})`);
+    const { clauses, failed } = await extractClausesFromChunk(processed[i], i, processed.length);
+    chunkClauses.push(clauses);
+    if (!failed) {
+      analyzed.push(processed[i]);
+    }
+  }
+
+  const clauses = mergeChunkClauses(processed, chunkClauses);
+  // Chunks that fell back to paragraph splitting still contribute clauses, but were not analyzed by the model
+  const coverage = measureCoverage(analyzed, text.length, chunks.length, processed.length - analyzed.length);
+  console.log(`Merged ${chunkClauses.flat().length} chunk clauses into ${clauses.length}, coverage ${Math.round(coverage.ratio * 100)}%`);
+
+  return { clauses, coverage };
+}
+
+/**
+ * Extract clauses from one chunk of a contract
+ * @param chunk - The chunk to analyze
+ * @param index - Zero-based chunk number
+ * @param total - Number of chunks being analyzed
+ * @returns Clauses found in the chunk, and whether the model failed so they were split without it
+ */
+async function extractClausesFromChunk(chunk: TextChunk, index: number, total: number): Promise<{ clauses: string[]; failed: boolean }> {
   try {
     const response = await openai.chat.completions.create({
       model: MODEL,
@@ -22,11 +69,13 @@ export async function extractClausesWithAI(text: string): Promise<string[]> {
           content: `You are an expert contract analyst that can identify distinct clauses in legal documents. 
           Analyze the provided contract text and extract individual clauses. 
           Each clause should be complete and self-contained, focusing on a single legal provision or concept.
-          Return them as a JSON array of strings, with each string being a complete clause.`
+          Return them as a JSON array of strings, with each string being a complete clause.${total > 1 ? `
+          The text is part ${index + 1} of ${total} of a longer contract, so it may begin or end partway through a clause.
+          Copy clause text exactly as written; neighbouring parts overlap and duplicates are removed afterwards.` : ''}`
         },
         {
           role: 'user',
-          content: text.length > 15000 ? text.substring(0, 15000) + '...' : text
+          content: chunk.text
         }
       ],
       response_format: { type: 'json_object' }
@@ -34,15 +83,15 @@ export async function extractClausesWithAI(text: string): Promise<string[]> {
 
     const content = response.choices[0].message.content;
     if (!content) {
-      return [];
+      return { clauses: [], failed: false };
     }
     
     const result = JSON.parse(content);
-    return result.clauses || [];
+    return { clauses: result.clauses || [], failed: false };
   } catch (error) {
-    console.error('Error extracting clauses with AI:', error);
+    console.error(`Error extracting clauses with AI from chunk ${index + 1}:`, error);
     // Fall back to basic extraction
-    return text.split(/(?:\r?\n){2,}/).filter(clause => clause.trim().length > 50);
+    return { clauses: chunk.text.split(/(?:\r?\n){2,}/).filter(clause => clause.trim().length > 50), failed: true };
   }
 }
 
@@ -61,13 +110,30 @@ export async function analyzeClauseWithAI(
   risk_score: number;
   category: string;
   recommendations: { title: string; description: string }[];
-  compliance_issues: { issue: string; rule?: string; description: string }[];
+  compliance_issues: ComplianceIssue[];
 }> {
   try {
-    // Format rules for the prompt
-    const rulesText = rules.map(rule => 
-      `Rule ${rule.id}: Keywords "${rule.keyword}" are ${rule.allowed ? 'allowed' : 'not allowed'}. Risk score: ${rule.riskScore || 5}. Category: ${rule.category || 'General'}. ${rule.description || ''}`
-    ).join('\n');
+    // Threshold breaches are found by extracting the value, so they are reported as-is rather than by the model
+    const thresholdIssues: ComplianceIssue[] = [];
+
+    // Format rules for the prompt, with where the deterministic matcher found each one
+    const rulesText = rules.map(rule => {
+      const match = matchRule(rule, clause);
+      const found = match.matched
+        ? `MATCHED${match.spans.length > 0 ? `: ${match.spans.slice(0, 3).map(span => `"${span.text}"`).join(', ')}` : ''}`
+        : 'not matched';
+      if (rule.ruleType === 'threshold') {
+        const threshold = match.matched ? checkThreshold(rule, clause, match.spans) : undefined;
+        if (threshold && !threshold.passed) {
+          thresholdIssues.push(thresholdIssue(rule, threshold));
+        }
+        const outcome = threshold
+          ? `states ${threshold.value} ("${threshold.quantity.text}"), which ${threshold.passed ? 'meets' : 'BREAKS'} the limit`
+          : match.matched ? 'no value stated' : 'not matched';
+        return `Rule ${rule.id}: ${describeRule(rule)} must be ${formatLimit(rule)} (${outcome}). Risk score: ${rule.riskScore || 5}. Category: ${rule.category || 'General'}. ${rule.description || ''}`;
+      }
+      return `Rule ${rule.id}: ${describeRule(rule)} is ${rule.allowed ? 'allowed' : 'not allowed'} (${found}). Risk score: ${rule.riskScore || 5}. Category: ${rule.category || 'General'}. ${rule.description || ''}`;
+    }).join('\n');
 
     const response = await openai.chat.completions.create({
       model: MODEL,
@@ -82,6 +148,11 @@ export async function analyzeClauseWithAI(
           4. recommendations: List of recommendation objects with "title" and "description" fields
           5. compliance_issues: List of issue objects with "issue", "rule" (optional), and "description" fields
           
+          Each rule says whether an exact matcher found it in the clause. Treat that as authoritative:
+          a matched rule that is not allowed makes the clause Non-Compliant, and an unmatched rule does not apply.
+          A threshold rule whose value BREAKS its limit makes the clause Non-Compliant; do not list it in
+          compliance_issues, since those issues are added separately with the value and limit.
+          
           Respond with JSON only.`
         },
         {
@@ -99,11 +170,11 @@ export async function analyzeClauseWithAI(
     
     const result = JSON.parse(content);
     return {
-      compliance_status: result.compliance_status || 'Review Needed',
+      compliance_status: thresholdIssues.length > 0 ? 'Non-Compliant' : result.compliance_status || 'Review Needed',
       risk_score: result.risk_score || 5,
       category: result.category || (section || 'General'),
       recommendations: result.recommendations || [],
-      compliance_issues: result.compliance_issues || []
+      compliance_issues: [...thresholdIssues, ...(result.compliance_issues || [])]
     };
   } catch (error) {
     console.error('Error analyzing clause with AI:', error);
@@ -126,18 +197,21 @@ export async function analyzeClauseWithAI(
  * @param documentId - The ID of the document
  * @param contractSummary - The existing contract summary data
  * @param clauses - The extracted clauses from the document
+ * @param riskModel - The bands that decide which clauses count as high risk
  * @returns Array of bullet points summarizing the contract
  */
 export async function generateBulletSummaryWithAI(
   documentId: string,
   contractSummary: any,
-  clauses: any[]
+  clauses: any[],
+  riskModel: RiskModel = DEFAULT_RISK_MODEL
 ): Promise<string[]> {
+  const missingClauses: string[] = (contractSummary?.missingClauses || []).map((finding: any) => finding.message);
   try {
     // Extract key information from the contract summary
     const summaryText = JSON.stringify(contractSummary, null, 2);
     const clauseCount = clauses.length;
-    const highRiskCount = clauses.filter(c => c.risk_score >= 7).length;
+    const highRiskCount = clauses.filter(c => riskLevel(c.risk_score, riskModel) === 'high').length;
     const nonCompliantCount = clauses.filter(c => c.compliance_status === 'Non-Compliant').length;
 
     const response = await openai.chat.completions.create({
@@ -152,14 +226,15 @@ export async function generateBulletSummaryWithAI(
           3. Major obligations and rights
           4. Risk and compliance assessment
           5. Termination conditions
-          6. Any other critical contract elements
+          6. Required clauses the contract is missing, one bullet point each
+          7. Any other critical contract elements
           
           Format each point as a complete sentence ending with a period. Be concise and direct.
           Respond with a JSON object containing an array of strings named "bulletPoints".`
         },
         {
           role: 'user',
-          content: `Contract Summary: ${summaryText}\n\nDocument Statistics:\n- Total Clauses: ${clauseCount}\n- High Risk Clauses: ${highRiskCount}\n- Non-Compliant Clauses: ${nonCompliantCount}`
+          content: `Contract Summary: ${summaryText}\n\nDocument Statistics:\n- Total Clauses: ${clauseCount}\n- High Risk Clauses: ${highRiskCount}\n- Non-Compliant Clauses: ${nonCompliantCount}\n- Missing Required Clauses: ${missingClauses.length > 0 ? missingClauses.join('; ') : 'None'}`
         }
       ],
       response_format: { type: 'json_object' }
@@ -180,13 +255,15 @@ export async function generateBulletSummaryWithAI(
       `Effective date: ${contractSummary?.effectiveDate || 'Not specified'}`,
       `Term length: ${contractSummary?.termLength || 'Not specified'}`,
       `Contains ${clauses.length} clauses for analysis`,
-      `Risk assessment needed for ${clauses.filter(c => c.compliance_status === 'Review Needed').length} clauses`
+      `Risk assessment needed for ${clauses.filter(c => c.compliance_status === 'Review Needed').length} clauses`,
+      ...missingClauses.map(message => `Missing required clause: ${message}`)
     ];
   }
 }
 
 /**
  * Extract all financial information from a contract using AI
+ * Long documents are sent in overlapping chunks and the results merged
  * @param text - The document text content
  * @returns Extracted financial details
  */
@@ -194,6 +271,39 @@ export async function extractFinancialsWithAI(text: string): Promise<{
   fees: Array<{name: string, amount: string, frequency?: string, description?: string, category?: string}>;
   paymentTerms: string[];
   rateCard: Array<{item: string, rate: string, unit?: string}>;
+}> {
+  const chunks = chunkText(text).slice(0, MAX_CHUNKS);
+  const financials = {
+    fees: [] as Array<{name: string, amount: string, frequency?: string, description?: string, category?: string}>,
+    paymentTerms: [] as string[],
+    rateCard: [] as Array<{item: string, rate: string, unit?: string}>
+  };
+
+  for (let i = 0; i < chunks.length; i++) {
+    console.log(`Extracting financials from chunk ${i + 1}/${chunks.length}`);
+    const result = await extractFinancialsFromChunk(chunks[i].text);
+    financials.fees.push(...result.fees);
+    financials.paymentTerms.push(...result.paymentTerms);
+    financials.rateCard.push(...result.rateCard);
+  }
+
+  // Overlapping chunks report the same terms twice
+  return {
+    fees: uniqueBy(financials.fees, fee => `${fee.name}|${fee.amount}`),
+    paymentTerms: uniqueBy(financials.paymentTerms, term => term),
+    rateCard: uniqueBy(financials.rateCard, rate => `${rate.item}|${rate.rate}`)
+  };
+}
+
+/**
+ * Extract financial information from one chunk of a contract
+ * @param text - The chunk text
+ * @returns Extracted financial details, empty if the request fails
+ */
+async function extractFinancialsFromChunk(text: string): Promise<{
+  fees: Array<{name: string, amount: string, frequency?: string, description?: string, category?: string}>;
+  paymentTerms: string[];
+  rateCard: Array<{item: string, rate: string, unit?: string}>;
 }> {
   try {
     const response = await openai.chat.completions.create({
@@ -212,7 +322,7 @@ export async function extractFinancialsWithAI(text: string): Promise<{
         },
         {
           role: 'user',
-          content: text.length > 15000 ? text.substring(0, 15000) + '...' : text
+          content: text
         }
       ],
       response_format: { type: 'json_object' }
@@ -238,4 +348,22 @@ export async function extractFinancialsWithAI(text: string): Promise<{
       rateCard: []
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Remove items whose normalized key has already been seen
+ * @param items - The items
+ * @param key - Builds the comparison key for an item
+ * @returns The first occurrence of each distinct item
+ */
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const normalized = normalizeForComparison(key(item));
+    if (seen.has(normalized)) {
+      return false;
+    }
+    seen.add(normalized);
+    return true;
+  });
+}
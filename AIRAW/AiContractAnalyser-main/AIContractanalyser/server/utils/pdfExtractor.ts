@@ -0,0 +1,119 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+interface TextLine {
+  y: number;
+  height: number;
+  items: TextItem[];
+}
+
+/**
+ * Extract the text layer of a PDF, one string per page
+ * @param buffer - The PDF file buffer
+ * @returns Text of each page in reading order, with line and paragraph breaks preserved
+ */
+export async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    useSystemFonts: true,
+    disableFontFace: true,
+    isEvalSupported: false,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter(
+        (item): item is TextItem => "str" in item && item.str.length > 0
+      );
+
+      pages.push(layoutPageText(items));
+      page.cleanup();
+    }
+
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Rebuild page text from positioned text items
+ * @param items - The text items of a single page
+ * @returns Page text with lines top-to-bottom and blank lines between paragraphs
+ */
+function layoutPageText(items: TextItem[]): string {
+  if (items.length === 0) {
+    return "";
+  }
+
+  // PDF space has its origin at the bottom left, so read from the highest y down
+  const sorted = [...items].sort((a, b) => {
+    const dy = b.transform[5] - a.transform[5];
+    return Math.abs(dy) > 0.5 ? dy : a.transform[4] - b.transform[4];
+  });
+
+  // Group items sitting on the same baseline into lines
+  const lines: TextLine[] = [];
+  for (const item of sorted) {
+    const y = item.transform[5];
+    const height = item.height || Math.hypot(item.transform[2], item.transform[3]) || 10;
+    const current = lines[lines.length - 1];
+
+    if (current && Math.abs(current.y - y) <= Math.min(current.height, height) * 0.5) {
+      current.items.push(item);
+      current.height = Math.max(current.height, height);
+    } else {
+      lines.push({ y, height, items: [item] });
+    }
+  }
+
+  // Typical distance between consecutive lines, used to spot paragraph gaps
+  const gaps = lines
+    .slice(1)
+    .map((line, i) => lines[i].y - line.y)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  const lineSpacing = gaps.length > 0 ? gaps[Math.floor((gaps.length - 1) / 2)] : 0;
+
+  let text = "";
+  lines.forEach((line, i) => {
+    if (i > 0) {
+      const gap = lines[i - 1].y - line.y;
+      text += lineSpacing > 0 && gap > lineSpacing * 1.5 ? "\n\n" : "\n";
+    }
+    text += joinLineItems(line);
+  });
+
+  return text.replace(/[ \t]+\n/g, "\n").trim();
+}
+
+/**
+ * Join the items of one line left-to-right, inserting spaces at visible gaps
+ * @param line - The grouped line
+ * @returns The line text
+ */
+function joinLineItems(line: TextLine): string {
+  const items = [...line.items].sort((a, b) => a.transform[4] - b.transform[4]);
+  let text = "";
+  let previousEnd: number | null = null;
+
+  for (const item of items) {
+    const x = item.transform[4];
+    if (
+      previousEnd !== null &&
+      x - previousEnd > line.height * 0.15 &&
+      !text.endsWith(" ") &&
+      !item.str.startsWith(" ")
+    ) {
+      text += " ";
+    }
+    text += item.str;
+    previousEnd = x + item.width;
+  }
+
+  return text;
+}
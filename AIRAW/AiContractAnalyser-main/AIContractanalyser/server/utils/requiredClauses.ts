@@ -0,0 +1,53 @@
+import type { Clause, ComplianceRule, MissingClause } from "@shared/schema";
+import { describeRule, matchRule } from "./ruleMatcher";
+import { clauseSearchText } from "./searchIndex";
+
+/**
+ * Split rules into those checked against each clause and the document-level "must contain" rules
+ * @param rules - All compliance rules
+ * @returns The clause rules and the document rules
+ */
+export function partitionRules(rules: ComplianceRule[]): { clauseRules: ComplianceRule[]; documentRules: ComplianceRule[] } {
+  return {
+    clauseRules: rules.filter(rule => rule.scope !== "document"),
+    documentRules: rules.filter(rule => rule.scope === "document"),
+  };
+}
+
+/**
+ * Check a contract's analyzed clauses against the document-level "must contain" rules
+ * A requirement is met when any clause, heading included, matches the rule's pattern.
+ * @param rules - Compliance rules; clause rules are ignored
+ * @param clauses - Every analyzed clause of the contract
+ * @returns A finding for each requirement no clause meets
+ */
+export function findMissingClauses(rules: ComplianceRule[], clauses: Clause[]): MissingClause[] {
+  const texts = clauses.map(clauseSearchText);
+
+  return partitionRules(rules).documentRules
+    // A rule still being written in the editor has no pattern yet
+    .filter(rule => rule.keyword.trim() !== "")
+    .filter(rule => !texts.some(text => matchRule(rule, text).matched))
+    .map(rule => ({
+      ruleId: rule.id,
+      rule: describeRule(rule),
+      category: rule.category || undefined,
+      riskScore: rule.riskScore ?? 5,
+      message: missingClauseMessage(rule),
+    }));
+}
+
+/**
+ * The finding shown when a required clause is missing
+ * The rule's description is used when set, so reviewers can word it themselves.
+ */
+function missingClauseMessage(rule: ComplianceRule): string {
+  const description = rule.description?.trim();
+  if (description) {
+    return description;
+  }
+  if (rule.category) {
+    return `No ${rule.category.toLowerCase()} clause found`;
+  }
+  return `No clause with ${describeRule(rule)} found`;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { ComplianceRule } from "@shared/schema";
+import { DEFAULT_RISK_MODEL } from "@shared/riskModel";
+import { scoreClause, type RuleFinding } from "./riskScoring";
+
+function finding(keyword: string, riskScore: number | null, isViolation = true): RuleFinding {
+  return { rule: { keyword, riskScore } as ComplianceRule, isViolation };
+}
+
+describe("scoreClause", () => {
+  it("scores plain wording in an unweighted category as compliant", () => {
+    expect(scoreClause("The Supplier shall deliver the goods.", "General", [])).toEqual({
+      score: 0,
+      status: "Compliant",
+      factors: [],
+    });
+  });
+
+  it("counts the most severe broken rule in full and one point for each further one", () => {
+    const assessment = scoreClause("Fees are payable monthly.", "General", [
+      finding("late payment", 4),
+      finding("penalty", 6),
+      finding("net 30", 8, false),
+    ]);
+
+    expect(assessment.status).toBe("Non-Compliant");
+    expect(assessment.score).toBe(7);
+    expect(assessment.factors).toEqual([
+      { kind: "rule", label: 'Breaks rule "penalty"', points: 6 },
+      { kind: "rule", label: 'Breaks rule "late payment"', points: 1 },
+    ]);
+  });
+
+  it("adds the category weight and risky wording, and subtracts softening wording", () => {
+    const assessment = scoreClause(
+      "The Supplier accepts unlimited liability, which it may waive at its sole discretion, acting reasonably.",
+      "Liability",
+      []
+    );
+
+    expect(assessment.factors.map(factor => [factor.label, factor.points])).toEqual([
+      ["Liability clause", 2],
+      ['Unlimited liability: "unlimited liability"', 3],
+      ['Sole discretion: "sole discretion"', 2],
+      ['Waiver of rights: "waive"', 1],
+      ['Reasonableness standard: "reasonably"', -1],
+    ]);
+    expect(assessment.score).toBe(7);
+    expect(assessment.status).toBe("Review Needed");
+  });
+
+  it("keeps the score within 0-10", () => {
+    expect(scoreClause("Obligations are mutual and capped at the fees paid.", "General", []).score).toBe(0);
+    expect(scoreClause("Unlimited liability, liquidated damages, without notice.", "Liability", [finding("liability", 10)]).score).toBe(10);
+  });
+
+  it("uses the model's category weights and bands", () => {
+    const model = { bands: { medium: 2, high: 5 }, categoryWeights: { "Payment Terms": 3 } };
+    const assessment = scoreClause("Invoices are payable within 30 days.", "Payment Terms", [], model);
+    expect(assessment.score).toBe(3);
+    expect(assessment.status).toBe("Review Needed");
+    expect(scoreClause("Invoices are payable within 30 days.", "Payment Terms", [], DEFAULT_RISK_MODEL).status).toBe("Compliant");
+  });
+
+  it("describes a broken threshold with the value found and the limit", () => {
+    const assessment = scoreClause("Payment is due within 60 days.", "General", [
+      { ...finding("payment days", 5), threshold: { value: "60 days", limit: "at most 45 days" } as RuleFinding["threshold"] },
+    ]);
+    expect(assessment.factors[0].label).toBe('Outside the limit of "payment days" (60 days; at most 45 days)');
+  });
+});
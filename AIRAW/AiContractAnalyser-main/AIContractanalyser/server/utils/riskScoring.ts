@@ -0,0 +1,96 @@
+import type { ComplianceRule, RiskFactor } from "@shared/schema";
+import { DEFAULT_RISK_MODEL, categoryWeight, riskLevel, type RiskModel } from "@shared/riskModel";
+import type { ThresholdCheck } from "./thresholdRules";
+
+/**
+ * Wording that makes a clause riskier, or with negative points safer, whatever the rules say
+ */
+export const RISK_INDICATORS: { label: string; pattern: RegExp; points: number }[] = [
+  { label: "Unlimited liability", pattern: /\bunlimited\s+liability\b|\bwithout\s+limit(?:ation)?\b/i, points: 3 },
+  { label: "Liquidated damages", pattern: /\bliquidated\s+damages\b/i, points: 2 },
+  { label: "Sole discretion", pattern: /\bsole(?:\s+and\s+absolute)?\s+discretion\b/i, points: 2 },
+  { label: "Without notice", pattern: /\bwithout\s+(?:prior\s+|advance\s+)?notice\b/i, points: 1 },
+  { label: "At any time", pattern: /\bat\s+any\s+time\b/i, points: 1 },
+  { label: "Irrevocable", pattern: /\birrevocabl[ey]\b/i, points: 1 },
+  { label: "Perpetual", pattern: /\bperpetual(?:ly)?\b/i, points: 1 },
+  { label: "Waiver of rights", pattern: /\bwaives?\b/i, points: 1 },
+  { label: "Automatic renewal", pattern: /\bautomatic(?:ally)?\s+renew/i, points: 1 },
+  { label: "Exclusivity", pattern: /\bexclusive(?:ly)?\b/i, points: 1 },
+  { label: "Mutual obligation", pattern: /\bmutual(?:ly)?\b/i, points: -1 },
+  { label: "Reasonableness standard", pattern: /\breasonabl[ey]\b/i, points: -1 },
+  { label: "Capped amount", pattern: /\bshall\s+not\s+exceed\b|\bcapped\s+at\b|\blimited\s+to\b/i, points: -1 },
+];
+
+/**
+ * A rule that matched the clause, and whether the clause breaks it
+ */
+export interface RuleFinding {
+  rule: ComplianceRule;
+  isViolation: boolean;
+  threshold?: ThresholdCheck;
+}
+
+/**
+ * A clause's risk score, the status it implies and the factors that add up to it
+ */
+export interface RiskAssessment {
+  score: number;
+  status: "Compliant" | "Non-Compliant" | "Review Needed";
+  factors: RiskFactor[];
+}
+
+/**
+ * Score a clause from the rules it breaks, its category and risky wording
+ * The score is the sum of the factors' points, kept within 0-10, so the same clause always scores the same.
+ * @param clauseText - The clause text
+ * @param category - The clause's category
+ * @param findings - The rules that matched the clause
+ * @param model - Category weights, and the band from which a clause needs review
+ * @returns The score, status and the factors behind them
+ */
+export function scoreClause(
+  clauseText: string,
+  category: string,
+  findings: RuleFinding[],
+  model: RiskModel = DEFAULT_RISK_MODEL
+): RiskAssessment {
+  const factors: RiskFactor[] = [];
+
+  // The most severe broken rule counts in full; each further one adds a point
+  const violations = findings
+    .filter(finding => finding.isViolation)
+    .sort((a, b) => (b.rule.riskScore ?? 5) - (a.rule.riskScore ?? 5));
+  violations.forEach((violation, i) => {
+    factors.push({
+      kind: "rule",
+      label: violation.threshold
+        ? `Outside the limit of "${violation.rule.keyword}" (${violation.threshold.value}; ${violation.threshold.limit})`
+        : `Breaks rule "${violation.rule.keyword}"`,
+      points: i === 0 ? violation.rule.riskScore ?? 5 : 1,
+    });
+  });
+
+  const weight = categoryWeight(category, model);
+  if (weight !== 0) {
+    factors.push({ kind: "category", label: `${category} clause`, points: weight });
+  }
+
+  RISK_INDICATORS.forEach(indicator => {
+    const match = clauseText.match(indicator.pattern);
+    if (match) {
+      factors.push({ kind: "indicator", label: `${indicator.label}: "${match[0]}"`, points: indicator.points });
+    }
+  });
+
+  const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+  const score = Math.max(0, Math.min(10, total));
+
+  let status: RiskAssessment["status"] = "Compliant";
+  if (violations.length > 0) {
+    status = "Non-Compliant";
+  } else if (riskLevel(score, model) !== "low") {
+    status = "Review Needed";
+  }
+
+  return { score, status, factors };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { matchRule, validateRule } from "./ruleMatcher";
+
+describe("matchRule", () => {
+  it("matches keywords as plain substrings", () => {
+    const match = matchRule({ keyword: "liabilit", ruleType: "keyword" }, "Limitation of Liability");
+    expect(match.matched).toBe(true);
+    expect(match.spans).toEqual([{ start: 14, end: 22, text: "Liabilit" }]);
+  });
+
+  it("matches whole words only, with trailing wildcards", () => {
+    expect(matchRule({ keyword: "liability", ruleType: "whole_word" }, "No non-liability clause").matched).toBe(false);
+    expect(matchRule({ keyword: "liability", ruleType: "whole_word" }, "Total liability is capped").matched).toBe(true);
+    expect(matchRule({ keyword: "indemnif*", ruleType: "whole_word" }, "The Supplier shall indemnify").matched).toBe(true);
+  });
+
+  it("matches regular expressions case-insensitively", () => {
+    const match = matchRule({ keyword: "\\bnet\\s+\\d+\\s+days\\b", ruleType: "regex" }, "Payment is due NET 30 days after invoice");
+    expect(match.spans.map(span => span.text)).toEqual(["NET 30 days"]);
+  });
+
+  it("matches terms within the given distance in either order", () => {
+    const rule = { keyword: 'indemnif* NEAR/3 "gross negligence"', ruleType: "proximity" };
+    expect(matchRule(rule, "Gross negligence of the Supplier, which shall indemnify").matched).toBe(false);
+    expect(matchRule(rule, "in cases of gross negligence the Supplier shall indemnify").matched).toBe(true);
+    expect(matchRule(rule, "The Supplier shall indemnify for its gross negligence").matched).toBe(true);
+  });
+
+  it("evaluates boolean expressions", () => {
+    const rule = { keyword: "termination AND (convenience OR insolvency) AND NOT mutual", ruleType: "boolean" };
+    expect(matchRule(rule, "Termination for convenience by the Client").matched).toBe(true);
+    expect(matchRule(rule, "Mutual termination for convenience").matched).toBe(false);
+    expect(matchRule(rule, "Termination for cause").matched).toBe(false);
+  });
+
+  it("matches nothing for an empty pattern or a pattern that no longer validates", () => {
+    expect(matchRule({ keyword: "  ", ruleType: "keyword" }, "anything").matched).toBe(false);
+    expect(matchRule({ keyword: "(a+)+$", ruleType: "regex" }, "aaaa").matched).toBe(false);
+  });
+});
+
+describe("validateRule", () => {
+  it.each([
+    "\\bnet\\s+\\d+\\s+days\\b",
+    "(?:limit(?:ed|ation))? of liability",
+    "indemnif(?:y|ication)",
+    "foo|bar",
+    "(ab){2,}",
+    "[(|)]+",
+  ])("accepts the regular expression %s", pattern => {
+    expect(validateRule("regex", pattern)).toBeUndefined();
+  });
+
+  it.each([
+    ["(a+)+$", /itself repeats/],
+    ["(a|a)+$", /alternatives/],
+    ["(a|aa)+$", /alternatives/],
+    ["(\\w|\\d)+$", /alternatives/],
+    ["(?:(a|b)c)*", /alternatives/],
+    ["(a)\\1", /Back-references/],
+    ["(?<y>a)\\k<y>", /Back-references/],
+  ])("rejects the regular expression %s, which can backtrack catastrophically", (pattern, message) => {
+    expect(validateRule("regex", pattern)).toMatch(message);
+  });
+
+  it("rejects invalid and empty-matching regular expressions", () => {
+    expect(validateRule("regex", "(unclosed")).toBeDefined();
+    expect(validateRule("regex", "a*")).toMatch(/matches empty text/);
+  });
+
+  it("checks expression syntax for proximity and boolean rules", () => {
+    expect(validateRule("proximity", "indemnif* AND negligence")).toMatch(/proximity rule takes the form/);
+    expect(validateRule("proximity", "indemnif* NEAR negligence")).toMatch(/needs a distance/);
+    expect(validateRule("boolean", "(termination OR expiry")).toMatch(/Missing "\)"/);
+    expect(validateRule("boolean", "termination OR expiry")).toBeUndefined();
+  });
+
+  it("leaves unfinished rules alone", () => {
+    expect(validateRule("regex", "")).toBeUndefined();
+  });
+});
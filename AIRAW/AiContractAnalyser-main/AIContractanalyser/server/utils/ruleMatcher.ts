@@ -0,0 +1,482 @@
+import type { ComplianceRule, ComplianceRuleType } from "@shared/schema";
+
+// Longest pattern accepted, to keep regular expressions and expressions cheap to evaluate
+const MAX_PATTERN_LENGTH = 500;
+
+// Words, keeping hyphenated and possessive forms whole so "liability" does not match "non-liability"
+const WORD_PATTERN = /[0-9A-Za-zÀ-ɏ]+(?:['’-][0-9A-Za-zÀ-ɏ]+)*/g;
+// The same, allowing a trailing * to match any word starting with the prefix
+const PATTERN_WORD_PATTERN = /[0-9A-Za-zÀ-ɏ]+(?:['’-][0-9A-Za-zÀ-ɏ]+)*\*?/g;
+
+/**
+ * A stretch of clause text a rule matched
+ */
+export interface MatchSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * The outcome of checking one rule against one clause
+ */
+export interface RuleMatch {
+  matched: boolean;
+  // What the rule matched; empty when it matched only through NOT
+  spans: MatchSpan[];
+}
+
+// Parsed proximity and boolean expressions
+type ExpressionNode =
+  | { kind: "term"; words: string[] }
+  | { kind: "near"; left: ExpressionNode; right: ExpressionNode; distance: number }
+  | { kind: "and" | "or"; children: ExpressionNode[] }
+  | { kind: "not"; child: ExpressionNode };
+
+type ExpressionToken =
+  | { kind: "open" | "close" | "and" | "or" | "not"; position: number }
+  | { kind: "near"; distance: number; position: number }
+  | { kind: "word" | "phrase"; text: string; position: number };
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A run of clause words, by index, that an expression matched
+interface WordRange {
+  first: number;
+  last: number;
+}
+
+/**
+ * Check a compliance rule against a clause
+ * @param rule - The rule, whose keyword holds the pattern for its type
+ * @param text - The clause text
+ * @returns Whether the rule matched and where
+ */
+export function matchRule(rule: Pick<ComplianceRule, "keyword" | "ruleType">, text: string): RuleMatch {
+  const pattern = rule.keyword.trim();
+  // A rule that has not been filled in yet matches nothing
+  if (!pattern) {
+    return { matched: false, spans: [] };
+  }
+
+  try {
+    switch (rule.ruleType as ComplianceRuleType) {
+      case "whole_word":
+        return matchExpression({ kind: "term", words: patternWords(pattern.replace(/"/g, "")) }, text);
+      case "regex":
+        return matchRegex(compileRegex(pattern, "gi"), text);
+      case "proximity":
+      case "boolean":
+      // A threshold rule's pattern is an expression picking out the clauses whose value it checks
+      case "threshold":
+        return matchExpression(parseExpression(pattern), text);
+      case "keyword":
+      default:
+        return matchRegex(new RegExp(escapeRegex(pattern), "gi"), text);
+    }
+  } catch (error: any) {
+    // Patterns are validated when saved, so this only happens for rules stored before validation
+    console.warn(`Skipping compliance rule "${rule.keyword}": ${error.message}`);
+    return { matched: false, spans: [] };
+  }
+}
+
+/**
+ * Check that a rule's pattern is valid for its type
+ * @param ruleType - The rule type
+ * @param pattern - The keyword, regular expression or expression
+ * @returns A description of the problem, or undefined if the pattern is valid
+ */
+export function validateRule(ruleType: ComplianceRuleType, pattern: string): string | undefined {
+  const trimmed = pattern.trim();
+  if (!trimmed) {
+    // Rules start out empty in the editor
+    return undefined;
+  }
+  if (trimmed.length > MAX_PATTERN_LENGTH) {
+    return `Patterns can be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+
+  try {
+    switch (ruleType) {
+      case "whole_word":
+        if (patternWords(trimmed.replace(/"/g, "")).length === 0) {
+          return "A whole-word rule needs at least one word";
+        }
+        return undefined;
+      case "regex": {
+        const regex = compileRegex(trimmed, "i");
+        if (regex.test("")) {
+          return "The regular expression matches empty text, so it would match every clause";
+        }
+        return undefined;
+      }
+      case "proximity": {
+        const node = parseExpression(trimmed);
+        if (node.kind !== "near") {
+          return 'A proximity rule takes the form: indemnif* NEAR/5 "gross negligence"';
+        }
+        return undefined;
+      }
+      case "boolean":
+      case "threshold":
+        parseExpression(trimmed);
+        return undefined;
+      default:
+        return undefined;
+    }
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Describe a rule in words, for prompts and messages
+ * @param rule - The rule
+ * @returns A short description of what the rule looks for
+ */
+export function describeRule(rule: Pick<ComplianceRule, "keyword" | "ruleType">): string {
+  switch (rule.ruleType as ComplianceRuleType) {
+    case "whole_word":
+      return `the whole word or phrase "${rule.keyword}"`;
+    case "regex":
+      return `text matching the regular expression /${rule.keyword}/i`;
+    case "proximity":
+      return `terms near each other: ${rule.keyword}`;
+    case "boolean":
+      return `the expression: ${rule.keyword}`;
+    case "threshold":
+      return `a value in clauses matching: ${rule.keyword}`;
+    default:
+      return `text containing "${rule.keyword}"`;
+  }
+}
+
+/**
+ * Compile a user-supplied regular expression, refusing the forms that can backtrack for exponential time
+ * Rules run against every clause on the analysis thread, so one pattern such as (a+)+$ could hang it.
+ * @param pattern - The regular expression source
+ * @param flags - RegExp flags
+ * @returns The compiled expression
+ */
+function compileRegex(pattern: string, flags: string): RegExp {
+  const regex = new RegExp(pattern, flags);
+  const problem = backtrackingRisk(pattern);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return regex;
+}
+
+/**
+ * Find back-references, and repeated groups that contain a repetition or alternatives, the constructs
+ * behind catastrophic backtracking; alternatives that overlap, as in (a|aa)+, backtrack like nested repetition
+ * @param pattern - A syntactically valid regular expression source
+ * @returns A description of the problem, or undefined if the pattern is safe to run
+ */
+function backtrackingRisk(pattern: string): string | undefined {
+  // What each open group, innermost last, contains
+  const groups: { repetition: boolean; alternation: boolean }[] = [{ repetition: false, alternation: false }];
+  let i = 0;
+
+  // A repetition starting at i: *, + or {n,m}; ? only makes an item optional
+  const repetitionAt = (at: number): number => {
+    if (pattern[at] === "*" || pattern[at] === "+") return 1;
+    const bounds = pattern.slice(at).match(/^\{\d+(?:,\d*)?\}/);
+    return bounds ? bounds[0].length : 0;
+  };
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "\\") {
+      if (/[1-9]/.test(pattern[i + 1] ?? "") || pattern.startsWith("k<", i + 1)) {
+        return "Back-references are not supported in regular expression rules";
+      }
+      i += 2;
+    } else if (char === "[") {
+      // Skip the character class, whose contents are literal
+      i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        i += pattern[i] === "\\" ? 2 : 1;
+      }
+      i++;
+    } else if (char === "(") {
+      groups.push({ repetition: false, alternation: false });
+      i++;
+      // Skip the group's (?:, (?=, (?<name> ... prefix so its ? is not read as a quantifier
+      const prefix = pattern.slice(i).match(/^\?(?:<[A-Za-z_$][\w$]*>|<[=!]|[:=!])/);
+      if (prefix) i += prefix[0].length;
+    } else if (char === ")") {
+      const group = groups.pop() ?? { repetition: false, alternation: false };
+      i++;
+      const repetition = repetitionAt(i);
+      if (repetition > 0 && group.repetition) {
+        return "Repeating a group that itself repeats, such as (a+)+, can take too long to match; simplify the expression";
+      }
+      if (repetition > 0 && group.alternation) {
+        return "Repeating a group with alternatives, such as (a|b)+, can take too long to match; use a character class such as [ab]+ instead";
+      }
+      const parent = groups[groups.length - 1];
+      parent.repetition = parent.repetition || group.repetition || repetition > 0;
+      parent.alternation = parent.alternation || group.alternation;
+      i += repetition;
+    } else if (char === "|") {
+      groups[groups.length - 1].alternation = true;
+      i++;
+    } else {
+      const repetition = repetitionAt(i);
+      if (repetition > 0) {
+        groups[groups.length - 1].repetition = true;
+        i += repetition;
+      } else {
+        i++;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect every non-empty match of a global regular expression
+ */
+function matchRegex(regex: RegExp, text: string): RuleMatch {
+  const spans: MatchSpan[] = [];
+  for (const match of Array.from(text.matchAll(regex))) {
+    if (match[0].length > 0) {
+      spans.push({ start: match.index!, end: match.index! + match[0].length, text: match[0] });
+    }
+  }
+  return { matched: spans.length > 0, spans };
+}
+
+/**
+ * Evaluate a parsed expression against a clause
+ */
+function matchExpression(node: ExpressionNode, text: string): RuleMatch {
+  const words: Word[] = Array.from(text.matchAll(WORD_PATTERN)).map(match => ({
+    text: normalizeWord(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+  const { matched, ranges } = evaluate(node, words);
+  const spans = ranges
+    .sort((a, b) => a.first - b.first)
+    .map(range => ({
+      start: words[range.first].start,
+      end: words[range.last].end,
+      text: text.slice(words[range.first].start, words[range.last].end),
+    }));
+  return { matched, spans };
+}
+
+function evaluate(node: ExpressionNode, words: Word[]): { matched: boolean; ranges: WordRange[] } {
+  switch (node.kind) {
+    case "term":
+    case "near": {
+      const ranges = occurrences(node, words);
+      return { matched: ranges.length > 0, ranges };
+    }
+    case "and": {
+      const results = node.children.map(child => evaluate(child, words));
+      const matched = results.every(result => result.matched);
+      return { matched, ranges: matched ? results.flatMap(result => result.ranges) : [] };
+    }
+    case "or": {
+      const results = node.children.map(child => evaluate(child, words)).filter(result => result.matched);
+      return { matched: results.length > 0, ranges: results.flatMap(result => result.ranges) };
+    }
+    case "not":
+      return { matched: !evaluate(node.child, words).matched, ranges: [] };
+  }
+}
+
+/**
+ * Where a term or proximity expression occurs, as word ranges
+ */
+function occurrences(node: ExpressionNode, words: Word[]): WordRange[] {
+  if (node.kind === "term") {
+    const ranges: WordRange[] = [];
+    for (let i = 0; i + node.words.length <= words.length; i++) {
+      if (node.words.every((word, offset) => wordMatches(word, words[i + offset].text))) {
+        ranges.push({ first: i, last: i + node.words.length - 1 });
+      }
+    }
+    return ranges;
+  }
+
+  if (node.kind === "near") {
+    const left = occurrences(node.left, words);
+    const right = occurrences(node.right, words);
+    const ranges: WordRange[] = [];
+    left.forEach(a => {
+      right.forEach(b => {
+        // Words strictly between the two, in either order
+        const gap = a.last < b.first ? b.first - a.last - 1 : a.first - b.last - 1;
+        if (gap >= 0 && gap <= node.distance) {
+          ranges.push({ first: Math.min(a.first, b.first), last: Math.max(a.last, b.last) });
+        }
+      });
+    });
+    return ranges;
+  }
+
+  return [];
+}
+
+function wordMatches(patternWord: string, word: string): boolean {
+  return patternWord.endsWith("*") ? word.startsWith(patternWord.slice(0, -1)) : word === patternWord;
+}
+
+/**
+ * Parse a proximity or boolean expression
+ * Operators are upper case: AND, OR, NOT and NEAR/n (within n words, either order), with
+ * parentheses for grouping. Adjacent words form a phrase, as do "quoted words", and a
+ * trailing * matches any ending.
+ * @param pattern - The expression
+ * @returns The expression tree
+ */
+function parseExpression(pattern: string): ExpressionNode {
+  const tokens = tokenizeExpression(pattern);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: ExpressionToken | undefined) =>
+    token ? `at position ${token.position + 1}` : "at the end of the expression";
+
+  const parseOr = (): ExpressionNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === "or") {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: "or", children };
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    const children = [parseNot()];
+    while (peek()?.kind === "and") {
+      index++;
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { kind: "and", children };
+  };
+
+  const parseNot = (): ExpressionNode => {
+    if (peek()?.kind === "not") {
+      index++;
+      return { kind: "not", child: parseNot() };
+    }
+    return parseNear();
+  };
+
+  const parseNear = (): ExpressionNode => {
+    let node = parsePrimary();
+    while (peek()?.kind === "near") {
+      const operator = tokens[index++] as Extract<ExpressionToken, { kind: "near" }>;
+      const right = parsePrimary();
+      if (node.kind === "and" || node.kind === "or" || node.kind === "not" ||
+          right.kind === "and" || right.kind === "or" || right.kind === "not") {
+        throw new Error(`NEAR ${describe(operator)} can only join words, phrases and other NEAR expressions`);
+      }
+      node = { kind: "near", left: node, right, distance: operator.distance };
+    }
+    return node;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (token?.kind === "open") {
+      index++;
+      const node = parseOr();
+      if (peek()?.kind !== "close") {
+        throw new Error(`Missing ")" ${describe(peek())} to close the "(" at position ${token.position + 1}`);
+      }
+      index++;
+      return node;
+    }
+
+    // Adjacent words and quoted phrases make up one phrase
+    const words: string[] = [];
+    const start = token;
+    while (peek()?.kind === "word" || peek()?.kind === "phrase") {
+      const term = tokens[index++] as Extract<ExpressionToken, { kind: "word" | "phrase" }>;
+      words.push(...patternWords(term.text));
+    }
+    if (!start || (start.kind !== "word" && start.kind !== "phrase")) {
+      throw new Error(`Expected a word or phrase ${describe(start)}`);
+    }
+    if (words.length === 0) {
+      throw new Error(`The term ${describe(start)} has no words to match`);
+    }
+    return { kind: "term", words };
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw new Error(token.kind === "close"
+      ? `Unexpected ")" ${describe(token)}`
+      : `Expected AND, OR or NEAR/n ${describe(token)}`);
+  }
+  return node;
+}
+
+function tokenizeExpression(pattern: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "open" : "close", position: i });
+      i++;
+    } else if (char === '"') {
+      const end = pattern.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new Error(`Unclosed quote at position ${i + 1}`);
+      }
+      tokens.push({ kind: "phrase", text: pattern.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else {
+      const match = pattern.slice(i).match(/^[^\s()"]+/)!;
+      const word = match[0];
+      const near = word.match(/^NEAR(?:\/(\d+))?$/);
+      if (near) {
+        if (!near[1]) {
+          throw new Error(`NEAR at position ${i + 1} needs a distance, e.g. NEAR/5`);
+        }
+        tokens.push({ kind: "near", distance: parseInt(near[1]), position: i });
+      } else if (word === "AND" || word === "OR" || word === "NOT") {
+        tokens.push({ kind: word.toLowerCase() as "and" | "or" | "not", position: i });
+      } else {
+        tokens.push({ kind: "word", text: word, position: i });
+      }
+      i += word.length;
+    }
+  }
+  if (tokens.length === 0) {
+    throw new Error("The expression is empty");
+  }
+  return tokens;
+}
+
+/**
+ * Split a pattern term into normalized words, keeping trailing wildcards
+ */
+function patternWords(text: string): string[] {
+  return (text.match(PATTERN_WORD_PATTERN) ?? []).map(normalizeWord);
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/’/g, "'");
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { ComplianceRule, Ruleset } from "@shared/schema";
+import { exportRules, parseRuleFile, planRuleImport, ruleFileFormatFromName } from "./ruleTransfer";
+
+const rulesets = [{ id: 7, name: "NDA Playbook" } as Ruleset];
+
+function storedRule(rule: Partial<ComplianceRule> & Pick<ComplianceRule, "id" | "keyword">): ComplianceRule {
+  return {
+    ruleType: "keyword",
+    scope: "clause",
+    allowed: false,
+    riskScore: 5,
+    category: null,
+    description: null,
+    thresholdUnit: null,
+    thresholdOperator: null,
+    thresholdValue: null,
+    rulesetId: null,
+    ...rule,
+  } as ComplianceRule;
+}
+
+describe("ruleFileFormatFromName", () => {
+  it("recognises rule file extensions", () => {
+    expect(ruleFileFormatFromName("rules.YML")).toBe("yaml");
+    expect(ruleFileFormatFromName("export.csv")).toBe("csv");
+    expect(ruleFileFormatFromName("rules.txt")).toBeUndefined();
+  });
+});
+
+describe("parseRuleFile", () => {
+  it("reads JSON lists and objects with a rules list", () => {
+    expect(parseRuleFile('[{"keyword":"penalty"}]', "json")).toEqual([{ keyword: "penalty" }]);
+    expect(parseRuleFile("rules:\n  - keyword: penalty\n    allowed: false\n", "yaml")).toEqual([{ keyword: "penalty", allowed: false }]);
+  });
+
+  it("reads CSV with quoted cells, a byte order mark and blank lines", () => {
+    const csv = '\uFEFFkeyword,allowed,description\n"late ""payment"" fee",no,"Charged, monthly"\n\n';
+    expect(parseRuleFile(csv, "csv")).toEqual([{ keyword: 'late "payment" fee', allowed: "no", description: "Charged, monthly" }]);
+  });
+
+  it("explains files it cannot read", () => {
+    expect(() => parseRuleFile("{", "json")).toThrow(/Could not read JSON/);
+    expect(() => parseRuleFile('{"keyword":"penalty"}', "json")).toThrow(/Expected a list of rules/);
+    expect(() => parseRuleFile("name,allowed\nx,yes", "csv")).toThrow(/"keyword" column/);
+  });
+});
+
+describe("planRuleImport", () => {
+  const existing = [
+    storedRule({ id: 1, keyword: "Penalty", riskScore: 6 }),
+    storedRule({ id: 2, keyword: "Confidential", rulesetId: 7, allowed: true }),
+  ];
+
+  it("plans creates, updates and unchanged rows without saving anything", () => {
+    const plan = planRuleImport(parseRuleFile([
+      "keyword,ruleType,allowed,riskScore,ruleset",
+      "penalty,,no,8,",
+      "confidential,keyword,yes,,NDA Playbook",
+      "indemnif* NEAR/5 negligence,proximity,no,7,",
+    ].join("\n"), "csv"), existing, rulesets);
+
+    expect(plan.counts).toEqual({ create: 1, update: 1, unchanged: 1, conflict: 0, invalid: 0 });
+    expect(plan.entries[0]).toMatchObject({ action: "update", ruleId: 1, changes: ["riskScore"] });
+    expect(plan.entries[0].rule).toMatchObject({ keyword: "penalty", riskScore: 8, allowed: false });
+    expect(plan.entries[1]).toMatchObject({ action: "unchanged", ruleId: 2 });
+    expect(plan.entries[2]).toMatchObject({ action: "create", rule: { ruleType: "proximity", scope: "clause", allowed: false, riskScore: 7 } });
+  });
+
+  it("reports unknown rulesets, repeated rows and invalid rules", () => {
+    const plan = planRuleImport([
+      { keyword: "penalty", ruleset: "Lease Playbook" },
+      { keyword: "exclusivity", allowed: "no" },
+      { keyword: "Exclusivity", allowed: "no" },
+      { keyword: "(a+)+$", ruleType: "regex", allowed: "no" },
+      { keyword: "payment NEAR/5 days", ruleType: "threshold", allowed: "no" },
+      { keyword: "penalty", allowed: "maybe" },
+    ], existing, rulesets);
+
+    expect(plan.entries.map(entry => entry.action)).toEqual(["conflict", "create", "conflict", "invalid", "invalid", "invalid"]);
+    expect(plan.entries[0].message).toMatch(/"Lease Playbook" does not exist/);
+    expect(plan.entries[2].message).toBe("Same rule as row 2");
+    expect(plan.entries[3].message).toMatch(/Invalid rule pattern/);
+    expect(plan.entries[4].message).toMatch(/Invalid rule threshold/);
+  });
+
+  it("reports a row that matches several stored rules", () => {
+    const duplicates = [storedRule({ id: 3, keyword: "Exclusivity" }), storedRule({ id: 4, keyword: "exclusivity" })];
+    const [entry] = planRuleImport([{ keyword: "exclusivity", allowed: false }], duplicates, rulesets).entries;
+    expect(entry).toMatchObject({ action: "conflict", message: expect.stringMatching(/IDs 3, 4/) });
+  });
+});
+
+describe("exportRules", () => {
+  const rules = [
+    storedRule({ id: 1, keyword: "late, \"payment\"", category: "Payment Terms" }),
+    storedRule({ id: 2, keyword: "confidential", rulesetId: 7, allowed: true }),
+  ];
+
+  it.each(["json", "yaml", "csv"] as const)("writes %s that imports back unchanged", format => {
+    const plan = planRuleImport(parseRuleFile(exportRules(rules, rulesets, format), format), rules, rulesets);
+    expect(plan.counts).toEqual({ create: 0, update: 0, unchanged: 2, conflict: 0, invalid: 0 });
+  });
+
+  it("names rulesets rather than using their IDs", () => {
+    expect(JSON.parse(exportRules(rules, rulesets, "json"))[1].ruleset).toBe("NDA Playbook");
+  });
+});
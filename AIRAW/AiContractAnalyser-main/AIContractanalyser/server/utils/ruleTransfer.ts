@@ -0,0 +1,358 @@
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import {
+  insertComplianceRuleSchema,
+  type ComplianceRule,
+  type ComplianceRuleType,
+  type InsertComplianceRule,
+  type Ruleset
+} from "@shared/schema";
+import { validateRule } from "./ruleMatcher";
+import { validateThreshold } from "./thresholdRules";
+
+export const ruleFileFormats = ["json", "yaml", "csv"] as const;
+export type RuleFileFormat = typeof ruleFileFormats[number];
+
+export const RULE_FILE_MIMETYPES: Record<RuleFileFormat, string> = {
+  json: "application/json",
+  yaml: "application/yaml",
+  csv: "text/csv",
+};
+
+// Columns in the order they are exported; rulesets are referred to by name so files move between instances
+const RULE_FIELDS = [
+  "keyword",
+  "ruleType",
+  "scope",
+  "allowed",
+  "riskScore",
+  "category",
+  "description",
+  "thresholdUnit",
+  "thresholdOperator",
+  "thresholdValue",
+  "ruleset",
+] as const;
+
+// Fields compared to decide whether an imported rule changes the stored one
+const COMPARED_FIELDS = ["allowed", "riskScore", "category", "description", "thresholdUnit", "thresholdOperator", "thresholdValue"] as const;
+
+/**
+ * What importing one row of a rule file would do
+ */
+export interface RuleImportEntry {
+  row: number; // 1-based, counting data rows only
+  action: "create" | "update" | "unchanged" | "conflict" | "invalid";
+  keyword: string;
+  ruleset: string | null;
+  ruleId?: number; // The stored rule an update or unchanged row matched
+  changes?: string[]; // Fields an update changes
+  message?: string; // Why the row is a conflict or invalid
+  rule?: InsertComplianceRule; // What would be saved, for creates and updates
+}
+
+export interface RuleImportPlan {
+  entries: RuleImportEntry[];
+  counts: Record<RuleImportEntry["action"], number>;
+}
+
+type RuleRecord = Record<(typeof RULE_FIELDS)[number], unknown>;
+
+/**
+ * Work out a rule file's format from its name
+ * @param filename - The uploaded file name
+ * @returns The format, or undefined if the extension is not recognised
+ */
+export function ruleFileFormatFromName(filename: string): RuleFileFormat | undefined {
+  const extension = filename.toLowerCase().split(".").pop();
+  switch (extension) {
+    case "json":
+      return "json";
+    case "yaml":
+    case "yml":
+      return "yaml";
+    case "csv":
+      return "csv";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Write rules to a file that can be imported into another instance
+ * @param rules - The rules to export
+ * @param rulesets - Every ruleset, to name the rules' rulesets
+ * @param format - The file format
+ * @returns The file contents
+ */
+export function exportRules(rules: ComplianceRule[], rulesets: Ruleset[], format: RuleFileFormat): string {
+  const records: RuleRecord[] = rules.map(rule => ({
+    keyword: rule.keyword,
+    ruleType: rule.ruleType,
+    scope: rule.scope,
+    allowed: rule.allowed,
+    riskScore: rule.riskScore,
+    category: rule.category,
+    description: rule.description,
+    thresholdUnit: rule.thresholdUnit,
+    thresholdOperator: rule.thresholdOperator,
+    thresholdValue: rule.thresholdValue,
+    ruleset: rulesets.find(ruleset => ruleset.id === rule.rulesetId)?.name ?? null,
+  }));
+
+  switch (format) {
+    case "json":
+      return JSON.stringify(records, null, 2);
+    case "yaml":
+      return stringifyYaml(records);
+    case "csv":
+      return toCsv([
+        [...RULE_FIELDS],
+        ...records.map(record => RULE_FIELDS.map(field => record[field] === null || record[field] === undefined ? "" : String(record[field]))),
+      ]);
+  }
+}
+
+/**
+ * Read the rows of a rule file
+ * JSON and YAML files hold a list of rules, or an object with a "rules" list; CSV files have a header row.
+ * @param content - The file contents
+ * @param format - The file format
+ * @returns One object per rule, not yet validated
+ * @throws Error if the file cannot be read
+ */
+export function parseRuleFile(content: string, format: RuleFileFormat): Record<string, unknown>[] {
+  if (format === "csv") {
+    const [header, ...rows] = parseCsv(content).filter(row => row.some(cell => cell.trim() !== ""));
+    if (!header) {
+      return [];
+    }
+    const columns = header.map(column => column.trim());
+    if (!columns.includes("keyword")) {
+      throw new Error('CSV files need a header row with at least a "keyword" column');
+    }
+    return rows.map(row => Object.fromEntries(
+      columns.map((column, index) => [column, row[index] ?? ""])
+    ));
+  }
+
+  let data: unknown;
+  try {
+    data = format === "json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error: any) {
+    throw new Error(`Could not read ${format.toUpperCase()}: ${error.message}`);
+  }
+
+  const list = Array.isArray(data) ? data : (data as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a list of rules, or an object with a "rules" list');
+  }
+  return list.map(item => (item && typeof item === "object" && !Array.isArray(item) ? item : {}) as Record<string, unknown>);
+}
+
+/**
+ * Work out what importing rule rows would do, without saving anything
+ * A row updates the stored rule with the same pattern, type, scope and ruleset; other rows create rules.
+ * Fields a row leaves out keep their stored values on update.
+ * @param rows - Rows read by parseRuleFile
+ * @param existingRules - Every stored rule
+ * @param rulesets - Every ruleset, to resolve ruleset names
+ * @returns What would happen to each row
+ */
+export function planRuleImport(rows: Record<string, unknown>[], existingRules: ComplianceRule[], rulesets: Ruleset[]): RuleImportPlan {
+  const seen = new Map<string, number>();
+
+  const entries = rows.map((row, index): RuleImportEntry => {
+    const rowNumber = index + 1;
+    const keyword = typeof row.keyword === "string" ? row.keyword : String(row.keyword ?? "");
+    const rulesetName = blank(row.ruleset) ? null : String(row.ruleset).trim();
+    const entry = { row: rowNumber, keyword, ruleset: rulesetName };
+
+    let rulesetId: number | null = null;
+    if (rulesetName !== null) {
+      const ruleset = rulesets.find(candidate => candidate.name.toLowerCase() === rulesetName.toLowerCase());
+      if (!ruleset) {
+        return { ...entry, action: "conflict", message: `Ruleset "${rulesetName}" does not exist here; create it before importing` };
+      }
+      rulesetId = ruleset.id;
+    }
+
+    const validationResult = insertComplianceRuleSchema.safeParse({ ...coerceRow(row), rulesetId });
+    if (!validationResult.success) {
+      return {
+        ...entry,
+        action: "invalid",
+        message: validationResult.error.issues.map(issue => `${issue.path.join(".") || "rule"}: ${issue.message}`).join("; "),
+      };
+    }
+    const incoming = validationResult.data;
+    const ruleType = incoming.ruleType ?? "keyword";
+    const scope = incoming.scope ?? "clause";
+
+    const patternError = validateRule(ruleType, incoming.keyword);
+    if (patternError) {
+      return { ...entry, action: "invalid", message: `Invalid rule pattern: ${patternError}` };
+    }
+
+    const key = ruleKey(incoming.keyword, ruleType, scope, rulesetId);
+    if (seen.has(key)) {
+      return { ...entry, action: "conflict", message: `Same rule as row ${seen.get(key)}` };
+    }
+    seen.set(key, rowNumber);
+
+    const matches = existingRules.filter(rule =>
+      ruleKey(rule.keyword, rule.ruleType as ComplianceRuleType, rule.scope, rule.rulesetId) === key
+    );
+    if (matches.length > 1) {
+      return {
+        ...entry,
+        action: "conflict",
+        message: `Matches ${matches.length} existing rules (IDs ${matches.map(rule => rule.id).join(", ")}); remove the duplicates first`,
+      };
+    }
+
+    const [existing] = matches;
+    // Leave out fields the row did not set, so an update keeps what is stored
+    const provided = Object.fromEntries(
+      Object.entries(incoming).filter(([, value]) => value !== undefined)
+    ) as Partial<InsertComplianceRule>;
+    const rule: InsertComplianceRule = existing ? {
+      keyword: existing.keyword,
+      ruleType: existing.ruleType as ComplianceRuleType,
+      scope: existing.scope as InsertComplianceRule["scope"],
+      allowed: existing.allowed,
+      riskScore: existing.riskScore,
+      category: existing.category,
+      description: existing.description,
+      thresholdUnit: existing.thresholdUnit as InsertComplianceRule["thresholdUnit"],
+      thresholdOperator: existing.thresholdOperator as InsertComplianceRule["thresholdOperator"],
+      thresholdValue: existing.thresholdValue,
+      rulesetId,
+      ...provided,
+    } : { ...incoming, ruleType, scope };
+
+    const thresholdError = ruleType === "threshold" ? validateThreshold({
+      thresholdUnit: rule.thresholdUnit ?? null,
+      thresholdOperator: rule.thresholdOperator ?? null,
+      thresholdValue: rule.thresholdValue ?? null,
+    }) : undefined;
+    if (thresholdError) {
+      return { ...entry, action: "invalid", message: `Invalid rule threshold: ${thresholdError}` };
+    }
+
+    if (!existing) {
+      return { ...entry, action: "create", rule };
+    }
+
+    const changes = COMPARED_FIELDS.filter(field => (rule[field] ?? null) !== (existing[field] ?? null));
+    return changes.length > 0
+      ? { ...entry, action: "update", ruleId: existing.id, changes, rule }
+      : { ...entry, action: "unchanged", ruleId: existing.id };
+  });
+
+  const counts = { create: 0, update: 0, unchanged: 0, conflict: 0, invalid: 0 };
+  entries.forEach(entry => counts[entry.action]++);
+  return { entries, counts };
+}
+
+/**
+ * Identify a rule across instances, where IDs differ
+ */
+function ruleKey(keyword: string, ruleType: string, scope: string, rulesetId: number | null): string {
+  return [rulesetId ?? "", scope, ruleType, keyword.trim().toLowerCase()].join("\u0000");
+}
+
+/**
+ * Convert spreadsheet text to the types the rule schema expects
+ * Empty cells clear the category, description and threshold; anything that cannot be converted is left for the schema to reject.
+ */
+function coerceRow(row: Record<string, unknown>): Record<string, unknown> {
+  const coerced: Record<string, unknown> = {};
+  RULE_FIELDS.filter(field => field !== "ruleset" && field in row).forEach(field => {
+    const value = typeof row[field] === "string" ? (row[field] as string).trim() : row[field];
+    switch (field) {
+      case "keyword":
+        coerced.keyword = row.keyword;
+        break;
+      // Blank type, scope, status and risk fall back to the defaults, or the stored values on update
+      case "ruleType":
+      case "scope":
+        coerced[field] = blank(value) ? undefined : value;
+        break;
+      case "allowed":
+        coerced.allowed = blank(value) ? undefined : parseBoolean(value);
+        break;
+      case "riskScore":
+        coerced.riskScore = blank(value) ? undefined : typeof value === "string" ? Number(value) : value;
+        break;
+      case "thresholdValue":
+        coerced.thresholdValue = blank(value) ? null : typeof value === "string" ? Number(value) : value;
+        break;
+      default:
+        coerced[field] = blank(value) ? null : value;
+    }
+  });
+  return coerced;
+}
+
+function blank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function parseBoolean(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  const normalized = value.toLowerCase();
+  if (["true", "yes", "y", "1", "allowed"].includes(normalized)) return true;
+  if (["false", "no", "n", "0", "not allowed"].includes(normalized)) return false;
+  return value;
+}
+
+/**
+ * Split CSV text into rows of cells, following RFC 4180 quoting
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function toCsv(rows: string[][]): string {
+  const escape = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return rows.map(row => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,265 @@
+import type { Clause, ContractSummary, SearchQuery, SnippetSegment } from "@shared/schema";
+
+// Markers ts_headline wraps around matches; control characters never occur in extracted text
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+// Characters of context kept on either side of the first match in a snippet
+const SNIPPET_CONTEXT = 80;
+const SNIPPET_LENGTH = 240;
+
+// Words too common to index, roughly Postgres's English stop list
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "into", "is", "it",
+  "its", "of", "on", "or", "such", "that", "the", "their", "then", "there", "these", "this", "to", "was",
+  "were", "will", "with",
+]);
+
+/**
+ * A parsed search query: every group must match one of its phrases, and no excluded phrase may match
+ */
+export interface ParsedQuery {
+  groups: string[][][];
+  excluded: string[][];
+}
+
+/**
+ * Reduce a word to a crude stem so "terminates", "terminated" and "termination" find each other
+ * @param word - A lowercase word
+ * @returns The stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/(?:ions?|ing|ed|es|s)$/, "")
+    .replace(/e$/, "");
+}
+
+/**
+ * Split text into indexable stems, in order
+ * @param text - The text
+ * @returns Stems, with stop words left out
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Parse a web-search style query: words are ANDed, "quoted phrases" must appear together,
+ * OR offers alternatives and a leading - excludes a word or phrase
+ * @param query - The query as typed
+ * @returns The parsed query
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const groups: string[][][] = [];
+  const excluded: string[][] = [];
+  let joinNext = false;
+
+  const parts = query.match(/-?"[^"]*"|\S+/g) ?? [];
+  parts.forEach(part => {
+    if (part.toLowerCase() === "or") {
+      joinNext = groups.length > 0;
+      return;
+    }
+
+    const negated = part.startsWith("-");
+    const phrase = tokenize(negated ? part.slice(1) : part);
+    if (phrase.length === 0) return;
+
+    if (negated) {
+      excluded.push(phrase);
+    } else if (joinNext) {
+      groups[groups.length - 1].push(phrase);
+    } else {
+      groups.push([phrase]);
+    }
+    joinNext = false;
+  });
+
+  return { groups, excluded };
+}
+
+/**
+ * Inverted index from stems to the documents and positions they occur at
+ */
+export class InvertedIndex<K> {
+  private postings = new Map<string, Map<K, number[]>>();
+  private lengths = new Map<K, number>();
+
+  add(key: K, text: string): void {
+    this.remove(key);
+    const stems = tokenize(text);
+    stems.forEach((term, position) => {
+      let entries = this.postings.get(term);
+      if (!entries) {
+        entries = new Map();
+        this.postings.set(term, entries);
+      }
+      const positions = entries.get(key) ?? [];
+      positions.push(position);
+      entries.set(key, positions);
+    });
+    this.lengths.set(key, stems.length);
+  }
+
+  remove(key: K): void {
+    if (!this.lengths.delete(key)) return;
+    this.postings.forEach((entries, term) => {
+      entries.delete(key);
+      if (entries.size === 0) this.postings.delete(term);
+    });
+  }
+
+  /**
+   * Find the documents matching a query
+   * @param query - The parsed query
+   * @returns Matching keys with a relevance score, best first
+   */
+  search(query: ParsedQuery): { key: K; rank: number }[] {
+    if (query.groups.length === 0) return [];
+
+    let matches: Map<K, number> | undefined;
+    for (const group of query.groups) {
+      const groupMatches = new Map<K, number>();
+      group.forEach(phrase => {
+        this.phraseCounts(phrase).forEach((count, key) => {
+          groupMatches.set(key, (groupMatches.get(key) ?? 0) + count);
+        });
+      });
+
+      if (!matches) {
+        matches = groupMatches;
+      } else {
+        const previous: Map<K, number> = matches;
+        matches = new Map();
+        groupMatches.forEach((count, key) => {
+          if (previous.has(key)) matches!.set(key, previous.get(key)! + count);
+        });
+      }
+      if (matches.size === 0) return [];
+    }
+
+    query.excluded.forEach(phrase => {
+      this.phraseCounts(phrase).forEach((_, key) => matches!.delete(key));
+    });
+
+    // Term frequency damped by length, so a long clause does not win on size alone
+    return Array.from(matches!.entries())
+      .map(([key, count]) => ({ key, rank: count / Math.log2(2 + (this.lengths.get(key) ?? 0)) }))
+      .sort((a, b) => b.rank - a.rank);
+  }
+
+  /**
+   * Count the occurrences of a phrase in each document containing it
+   */
+  private phraseCounts(phrase: string[]): Map<K, number> {
+    const counts = new Map<K, number>();
+    const first = this.postings.get(phrase[0]);
+    if (!first) return counts;
+
+    first.forEach((positions, key) => {
+      const count = positions.filter(start =>
+        phrase.every((term, offset) => offset === 0 || this.postings.get(term)?.get(key)?.includes(start + offset))
+      ).length;
+      if (count > 0) counts.set(key, count);
+    });
+    return counts;
+  }
+}
+
+/**
+ * Cut a snippet around the first match and highlight every matching word
+ * @param text - The full text
+ * @param query - The parsed query
+ * @returns Snippet segments
+ */
+export function highlightSnippet(text: string, query: ParsedQuery): SnippetSegment[] {
+  const terms = new Set(query.groups.flat(2));
+  const words = Array.from(text.matchAll(/[A-Za-z0-9]+/g))
+    .filter(match => terms.has(stem(match[0].toLowerCase())));
+
+  const firstMatch = words[0]?.index ?? 0;
+  let start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  // Cut at word boundaries
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(" ", end) > start ? text.lastIndexOf(" ", end) : end;
+
+  const segments: SnippetSegment[] = [];
+  const push = (segmentText: string, highlight: boolean) => {
+    if (segmentText) segments.push({ text: segmentText, highlight });
+  };
+
+  push(start > 0 ? "… " : "", false);
+  let cursor = start;
+  words.forEach(match => {
+    const from = match.index!;
+    const to = from + match[0].length;
+    if (from < start || to > end) return;
+    push(text.slice(cursor, from), false);
+    push(text.slice(from, to), true);
+    cursor = to;
+  });
+  push(text.slice(cursor, end), false);
+  push(end < text.length ? " …" : "", false);
+  return segments;
+}
+
+/**
+ * Convert a ts_headline result, with matches wrapped in the highlight markers, into segments
+ * @param headline - The headline text
+ * @returns Snippet segments
+ */
+export function headlineToSnippet(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  headline.split(HIGHLIGHT_START).forEach((part, i) => {
+    const [highlighted, rest] = i === 0 ? ["", part] : splitOnce(part, HIGHLIGHT_END);
+    if (highlighted) segments.push({ text: highlighted, highlight: true });
+    if (rest) segments.push({ text: rest, highlight: false });
+  });
+  return segments;
+}
+
+/**
+ * The searchable text of a contract summary
+ * @param summary - The summary
+ * @returns Its text fields joined together
+ */
+export function summarySearchText(summary: ContractSummary): string {
+  return [
+    summary.title,
+    summary.termLength,
+    summary.confidentialityTerms,
+    ...(summary.paymentTerms ?? []),
+    ...(summary.terminationClauses ?? []),
+    ...(summary.keyObligations ?? []),
+    ...(summary.fees ?? []).map(fee => [fee.name, fee.amount, fee.frequency, fee.category, fee.description].filter(Boolean).join(" ")),
+    ...(summary.rateCard ?? []).map(rate => [rate.item, rate.rate, rate.unit].filter(Boolean).join(" ")),
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * The searchable text of a clause, matching what the database index covers
+ * @param clause - The clause
+ * @returns Its heading, section and text joined together
+ */
+export function clauseSearchText(clause: Clause): string {
+  return [clause.heading, clause.section, clause.clause].filter(Boolean).join(" ");
+}
+
+/**
+ * Whether a search narrows results by a property only clauses have
+ * Summaries carry no category, risk or compliance status, so such searches leave them out.
+ * @param query - The search query
+ * @returns True if a clause-only filter is set
+ */
+export function hasClauseFilters(query: SearchQuery): boolean {
+  return !!query.category || query.minRisk !== undefined || query.maxRisk !== undefined || !!query.complianceStatus;
+}
+
+function splitOnce(text: string, separator: string): [string, string] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, ""] : [text.slice(0, index), text.slice(index + separator.length)];
+}
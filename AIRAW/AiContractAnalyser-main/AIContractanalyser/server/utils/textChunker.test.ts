@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { chunkText, measureCoverage, mergeChunkClauses, type TextChunk } from "./textChunker";
+
+// Numbered clauses of about 100 characters each
+const contract = Array.from({ length: 30 }, (_, i) =>
+  `${i + 1}. Obligation ${i + 1}. The Supplier shall perform obligation number ${i + 1} in full and on time.`
+).join("\n\n");
+
+describe("chunkText", () => {
+  it("returns short text as a single chunk", () => {
+    expect(chunkText("Short contract.", 100, 10)).toEqual([{ text: "Short contract.", start: 0, end: 15 }]);
+  });
+
+  it("splits long text into overlapping chunks that start at a section", () => {
+    const chunks = chunkText(contract, 1000, 300);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(contract.length);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.text).toBe(contract.slice(chunk.start, chunk.end));
+      expect(chunk.text.length).toBeLessThanOrEqual(1000);
+      if (i > 0) {
+        // Each chunk repeats the end of the previous one, beginning at a clause number
+        expect(chunk.start).toBeLessThan(chunks[i - 1].end);
+        expect(chunk.text).toMatch(/^\d+\. Obligation/);
+      }
+    });
+  });
+});
+
+describe("measureCoverage", () => {
+  it("counts overlapping chunks once", () => {
+    const chunks: TextChunk[] = [
+      { text: "", start: 0, end: 60 },
+      { text: "", start: 40, end: 100 },
+    ];
+    expect(measureCoverage(chunks, 200, 2)).toEqual({
+      analyzedChars: 100,
+      totalChars: 200,
+      ratio: 0.5,
+      chunks: 2,
+      skippedChunks: 0,
+      failedChunks: 0,
+    });
+  });
+
+  it("separates chunks the model failed on from chunks past the limit", () => {
+    const coverage = measureCoverage([{ text: "", start: 0, end: 50 }], 200, 4, 1);
+    expect(coverage.ratio).toBe(0.25);
+    expect(coverage.failedChunks).toBe(1);
+    expect(coverage.skippedChunks).toBe(2);
+  });
+
+  it("treats empty text as fully covered", () => {
+    expect(measureCoverage([], 0, 0).ratio).toBe(1);
+  });
+});
+
+describe("mergeChunkClauses", () => {
+  const text = [
+    "1. Time is of the essence.",
+    "2. Payment is due within thirty days of each invoice.",
+    "3. Notices must be sent to the registered address.",
+    "4. Time is of the essence.",
+  ].join("\n\n");
+  const secondStart = text.indexOf("2. Payment");
+  const firstEnd = text.indexOf("3. Notices");
+  const chunks: TextChunk[] = [
+    { text: text.slice(0, firstEnd), start: 0, end: firstEnd },
+    { text: text.slice(secondStart), start: secondStart, end: text.length },
+  ];
+
+  it("keeps one copy of a clause found on both sides of a seam", () => {
+    const merged = mergeChunkClauses(chunks, [
+      ["1. Time is of the essence.", "2. Payment is due within thirty days of each invoice."],
+      ["2. Payment is due within thirty days of each invoice.", "3. Notices must be sent to the registered address.", "4. Time is of the essence."],
+    ]);
+    expect(merged).toEqual(text.split("\n\n"));
+  });
+
+  it("keeps the complete copy of a clause cut off at the end of a chunk", () => {
+    const merged = mergeChunkClauses(chunks, [
+      ["1. Time is of the essence.", "2. Payment is due within"],
+      ["2. Payment is due within thirty days of each invoice."],
+    ]);
+    expect(merged).toEqual(["1. Time is of the essence.", "2. Payment is due within thirty days of each invoice."]);
+  });
+
+  it("keeps a sentence the contract repeats outside the overlap", () => {
+    const merged = mergeChunkClauses(chunks, [["Time is of the essence."], ["Time is of the essence."]]);
+    expect(merged).toEqual(["Time is of the essence.", "Time is of the essence."]);
+  });
+
+  it("keeps clauses that were not copied word for word", () => {
+    const merged = mergeChunkClauses(chunks, [["Payment within thirty days"], ["Payment within thirty days"]]);
+    expect(merged).toHaveLength(2);
+  });
+});
@@ -0,0 +1,251 @@
+import { segmentClauses } from "./clauseSegmenter";
+
+// Sized to keep each request well inside the model's context alongside the prompt and the JSON reply
+export const DEFAULT_CHUNK_SIZE = 12000;
+export const DEFAULT_CHUNK_OVERLAP = 1500;
+// Upper bound on model calls per document, so a 500-page data room upload cannot run away with cost
+export const MAX_CHUNKS = parseInt(process.env.AI_MAX_CHUNKS || "40", 10);
+
+/**
+ * A slice of the document text sent to the model in one request
+ */
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * How much of a document was analyzed
+ */
+export interface TextCoverage {
+  analyzedChars: number;
+  totalChars: number;
+  // Fraction of the text (0-1) that was analyzed
+  ratio: number;
+  chunks: number;
+  // Chunks past the per-document limit, which were not sent at all
+  skippedChunks: number;
+  // Chunks the model failed on, which were only split into paragraphs and do not count as analyzed
+  failedChunks: number;
+}
+
+/**
+ * Split text into overlapping chunks, cutting at section starts where possible so a
+ * clause is rarely split across two requests
+ * @param text - The document text
+ * @param maxChars - Maximum characters per chunk
+ * @param overlap - Characters each chunk repeats from the end of the previous one
+ * @returns Chunks in document order
+ */
+export function chunkText(
+  text: string,
+  maxChars: number = DEFAULT_CHUNK_SIZE,
+  overlap: number = DEFAULT_CHUNK_OVERLAP
+): TextChunk[] {
+  if (text.length <= maxChars) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  const sectionStarts = segmentClauses(text)
+    .filter(segment => segment.section)
+    .map(segment => segment.offset);
+  const paragraphStarts = Array.from(text.matchAll(/\n\s*\n/g)).map(match => (match.index ?? 0) + match[0].length);
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    const limit = start + maxChars;
+    if (limit >= text.length) {
+      chunks.push({ text: text.slice(start), start, end: text.length });
+      break;
+    }
+
+    // Cut at the last section start in the back half of the window, else the last paragraph, else the last space
+    const minEnd = start + Math.floor(maxChars / 2);
+    const inWindow = (offset: number) => offset > minEnd && offset <= limit;
+    const end =
+      lastMatching(sectionStarts, inWindow) ??
+      lastMatching(paragraphStarts, inWindow) ??
+      lastWhitespace(text, minEnd, limit) ??
+      limit;
+
+    chunks.push({ text: text.slice(start, end), start, end });
+
+    // Begin the next chunk at the earliest section or paragraph start inside the overlap
+    const overlapStart = Math.max(end - overlap, start + 1);
+    const inOverlap = (offset: number) => offset >= overlapStart && offset < end;
+    start =
+      firstMatching(sectionStarts, inOverlap) ??
+      firstMatching(paragraphStarts, inOverlap) ??
+      firstWordStart(text, overlapStart, end) ??
+      overlapStart;
+  }
+
+  return chunks;
+}
+
+/**
+ * Measure how much of the text a set of processed chunks covers
+ * @param chunks - Chunks that were processed successfully
+ * @param totalChars - Length of the whole text
+ * @param totalChunks - Number of chunks the text was split into
+ * @param failedChunks - Number of chunks that were sent but could not be processed
+ * @returns Coverage summary
+ */
+export function measureCoverage(chunks: TextChunk[], totalChars: number, totalChunks: number, failedChunks: number = 0): TextCoverage {
+  // Chunks overlap, so count the union of their ranges
+  let analyzedChars = 0;
+  let coveredUpTo = 0;
+  [...chunks].sort((a, b) => a.start - b.start).forEach(chunk => {
+    const from = Math.max(chunk.start, coveredUpTo);
+    if (chunk.end > from) {
+      analyzedChars += chunk.end - from;
+      coveredUpTo = chunk.end;
+    }
+  });
+
+  return {
+    analyzedChars,
+    totalChars,
+    ratio: totalChars > 0 ? Math.round((analyzedChars / totalChars) * 1000) / 1000 : 1,
+    chunks: totalChunks,
+    skippedChunks: totalChunks - chunks.length - failedChunks,
+    failedChunks,
+  };
+}
+
+/**
+ * Merge clauses extracted from overlapping chunks, dropping the copies found in both
+ * chunks at a seam and the partial clauses cut off at a chunk boundary
+ * Only clauses lying in the text two neighbouring chunks share are compared, so a sentence
+ * the contract itself repeats further on is kept.
+ * @param chunks - The chunks, in document order
+ * @param chunkClauses - Clauses from each chunk
+ * @returns Unique clauses in document order
+ */
+export function mergeChunkClauses(chunks: TextChunk[], chunkClauses: string[][]): string[] {
+  // Positions are document offsets, or -1 where the model did not copy the clause word for word
+  const merged: { text: string; normalized: string; chunk: number; start: number; end: number }[] = [];
+
+  chunkClauses.forEach((clauses, chunk) => {
+    const previous = chunks[chunk - 1];
+    // Clauses come back in document order, so a repeated sentence is looked for after the last clause found
+    let searchFrom = 0;
+    clauses.forEach(text => {
+      const normalized = normalizeForComparison(text);
+      if (!normalized) {
+        return;
+      }
+      const located = locateClause(chunks[chunk].text, text, searchFrom) ?? locateClause(chunks[chunk].text, text, 0);
+      if (located) {
+        searchFrom = located.end;
+      }
+      const start = located ? chunks[chunk].start + located.start : -1;
+      const end = located ? chunks[chunk].start + located.end : -1;
+
+      // Only a clause starting in the overlap with the previous chunk can be a copy of one found there
+      const inOverlap = previous !== undefined && start >= 0 && start < previous.end;
+      const seamCopy = inOverlap
+        ? merged.findIndex(existing =>
+            existing.chunk === chunk - 1 &&
+            existing.start >= 0 && existing.start < end && start < existing.end &&
+            (existing.normalized.includes(normalized) || normalized.includes(existing.normalized))
+          )
+        : -1;
+      if (seamCopy < 0) {
+        merged.push({ text, normalized, chunk, start, end });
+      } else if (normalized.length > merged[seamCopy].normalized.length) {
+        // The earlier chunk only saw the start of this clause; keep the complete copy
+        merged[seamCopy] = { text, normalized, chunk, start, end };
+      }
+    });
+  });
+
+  return merged.map(clause => clause.text);
+}
+
+/**
+ * Find where a clause sits in its chunk, allowing for differences in whitespace
+ * @param chunkText - The chunk text
+ * @param clause - A clause the model copied from it
+ * @param from - Offset in the chunk to search from
+ * @returns The clause's offsets in the chunk, or undefined if it was not copied word for word
+ */
+function locateClause(chunkText: string, clause: string, from: number): { start: number; end: number } | undefined {
+  const words = clause.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return undefined;
+  }
+  const pattern = new RegExp(words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("\\s+"), "g");
+  pattern.lastIndex = from;
+  const match = pattern.exec(chunkText);
+  return match ? { start: match.index, end: match.index + match[0].length } : undefined;
+}
+
+/**
+ * Normalize text for duplicate detection across chunk seams
+ * @param text - The text to normalize
+ * @returns Lowercased text with punctuation and whitespace runs collapsed
+ */
+export function normalizeForComparison(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Find the last offset matching a predicate
+ * @param offsets - Ascending offsets
+ * @param predicate - The condition
+ * @returns The offset, or undefined if none match
+ */
+function lastMatching(offsets: number[], predicate: (offset: number) => boolean): number | undefined {
+  for (let i = offsets.length - 1; i >= 0; i--) {
+    if (predicate(offsets[i])) {
+      return offsets[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the first offset matching a predicate
+ * @param offsets - Ascending offsets
+ * @param predicate - The condition
+ * @returns The offset, or undefined if none match
+ */
+function firstMatching(offsets: number[], predicate: (offset: number) => boolean): number | undefined {
+  return offsets.find(predicate);
+}
+
+/**
+ * Find the start of the first whole word in a range
+ * @param text - The text
+ * @param from - Range start
+ * @param to - Range end
+ * @returns The position, or undefined if the range has no whitespace
+ */
+function firstWordStart(text: string, from: number, to: number): number | undefined {
+  for (let i = from; i < to - 1; i++) {
+    if (/\s/.test(text[i])) {
+      return i + 1;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the position just after the last whitespace character in a range
+ * @param text - The text
+ * @param from - Range start
+ * @param to - Range end
+ * @returns The position, or undefined if the range has no whitespace
+ */
+function lastWhitespace(text: string, from: number, to: number): number | undefined {
+  for (let i = to - 1; i > Math.max(from, 0); i--) {
+    if (/\s/.test(text[i])) {
+      return i + 1;
+    }
+  }
+  return undefined;
+}
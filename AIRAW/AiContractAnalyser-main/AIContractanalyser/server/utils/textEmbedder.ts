@@ -0,0 +1,55 @@
+import { pipeline, type FeatureExtractionPipeline } from "@huggingface/transformers";
+
+// A small sentence-embedding model that runs on CPU; downloaded on first use and cached locally
+export const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || "Xenova/all-MiniLM-L6-v2";
+
+// Texts embedded per model call, to bound memory on long contracts
+const BATCH_SIZE = 16;
+
+let extractor: Promise<FeatureExtractionPipeline> | undefined;
+
+/**
+ * Load the embedding model once and share it between callers
+ * @returns The feature extraction pipeline
+ */
+function getExtractor(): Promise<FeatureExtractionPipeline> {
+  if (!extractor) {
+    console.log(`Loading embedding model ${EMBEDDING_MODEL}...`);
+    extractor = pipeline("feature-extraction", EMBEDDING_MODEL, { dtype: "q8" }).catch(error => {
+      // Let the next call try again, e.g. once the model can be downloaded
+      extractor = undefined;
+      throw error;
+    });
+  }
+  return extractor;
+}
+
+/**
+ * Compute sentence embeddings
+ * @param texts - Texts to embed
+ * @returns One unit-length vector per text, in order
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const model = await getExtractor();
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const output = await model(texts.slice(i, i + BATCH_SIZE), { pooling: "mean", normalize: true });
+    vectors.push(...(output.tolist() as number[][]));
+  }
+  return vectors;
+}
+
+/**
+ * Cosine similarity of two unit-length vectors
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns Similarity from -1 to 1
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { matchRule } from "./ruleMatcher";
+import { checkThreshold, extractQuantities, formatLimit, thresholdIssue, validateThreshold } from "./thresholdRules";
+
+const paymentRule = {
+  keyword: "payment NEAR/4 days",
+  description: null,
+  thresholdUnit: "days",
+  thresholdOperator: "<=",
+  thresholdValue: 45,
+};
+
+describe("extractQuantities", () => {
+  it("reads periods in digits, words or both, converted to the unit", () => {
+    const text = "Net 30, sixty (60) days, three months, forty-five business days and one year";
+    expect(extractQuantities(text, "days").map(quantity => quantity.value)).toEqual([30, 60, 90, 45, 365]);
+    expect(extractQuantities("one year", "months").map(quantity => quantity.value)).toEqual([12]);
+  });
+
+  it("reads percentages and amounts with scales", () => {
+    expect(extractQuantities("a fee of 1.5% or 2 per cent", "percent").map(quantity => quantity.value)).toEqual([1.5, 2]);
+    expect(extractQuantities("capped at $2.5 million or USD 1,500,000", "amount").map(quantity => quantity.value)).toEqual([2.5e6, 1.5e6]);
+  });
+});
+
+describe("checkThreshold", () => {
+  it("judges the value nearest to where the rule matched", () => {
+    const text = "The term is 365 days from the date of signature. Payment is due within 60 days of invoice.";
+    const { spans } = matchRule({ keyword: paymentRule.keyword, ruleType: "threshold" }, text);
+    const check = checkThreshold(paymentRule, text, spans);
+
+    expect(check).toMatchObject({ passed: false, value: "60 days", limit: "at most 45 days" });
+    expect(thresholdIssue(paymentRule, check!)).toEqual({
+      issue: '60 days found ("60 days"), limit is at most 45 days',
+      rule: "payment NEAR/4 days",
+      description: "The period must be at most 45 days, but this clause states 60 days.",
+      value: "60 days",
+      limit: "at most 45 days",
+    });
+  });
+
+  it("passes values within the limit, allowing for converted periods", () => {
+    const rule = { ...paymentRule, thresholdUnit: "months", thresholdOperator: "=", thresholdValue: 12 };
+    expect(checkThreshold(rule, "The initial term is one year.", [])?.passed).toBe(true);
+  });
+
+  it("returns undefined when the clause states no value or the rule is incomplete", () => {
+    expect(checkThreshold(paymentRule, "Payment is due promptly.", [])).toBeUndefined();
+    expect(checkThreshold({ ...paymentRule, thresholdValue: null }, "Payment within 60 days.", [])).toBeUndefined();
+  });
+});
+
+describe("validateThreshold", () => {
+  it("requires a unit, comparison and non-negative limit", () => {
+    expect(validateThreshold({ thresholdUnit: "days", thresholdOperator: null, thresholdValue: 30 })).toMatch(/need a unit/);
+    expect(validateThreshold({ thresholdUnit: "days", thresholdOperator: ">=", thresholdValue: -1 })).toMatch(/cannot be negative/);
+    expect(validateThreshold({ thresholdUnit: "percent", thresholdOperator: "<", thresholdValue: 0 })).toBeUndefined();
+    expect(formatLimit({ thresholdUnit: "amount", thresholdOperator: "<", thresholdValue: 1000000 })).toBe("less than 1,000,000");
+  });
+});
@@ -0,0 +1,239 @@
+import type { ComplianceIssue, ComplianceRule, ThresholdOperator, ThresholdUnit } from "@shared/schema";
+import type { MatchSpan } from "./ruleMatcher";
+
+type ThresholdRule = Pick<ComplianceRule, "keyword" | "description" | "thresholdUnit" | "thresholdOperator" | "thresholdValue">;
+
+/**
+ * A value stated in a clause, converted to a threshold unit
+ */
+export interface Quantity {
+  value: number;
+  unit: ThresholdUnit;
+  // The wording it was read from, e.g. "sixty (60) days"
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * The outcome of checking a threshold rule's limit against a clause
+ */
+export interface ThresholdCheck {
+  quantity: Quantity;
+  passed: boolean;
+  // The value and limit in words, for issues and prompts
+  value: string;
+  limit: string;
+}
+
+const ONES: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+// Longest names first so "seventeen" is not read as "seven"
+const byLength = (words: string[]) => words.sort((a, b) => b.length - a.length).join("|");
+const WORD_NUMBER = `(?:(?:${byLength(Object.keys(TENS))})(?:[\\s-]+(?:${byLength(Object.keys(ONES).filter(word => ONES[word] > 0 && ONES[word] < 10))}))?|(?:one|a)\\s+hundred|${byLength(Object.keys(ONES))})`;
+const DIGITS = `(?:\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)`;
+// Contracts often give both, as in "sixty (60)"
+const NUMBER = `(?:\\b${WORD_NUMBER}\\b(?:\\s*\\(\\s*${DIGITS}\\s*\\))?|${DIGITS})`;
+
+const PERIOD_QUALIFIER = `(?:business\\s+|calendar\\s+|working\\s+)?`;
+const PERIODS: Record<string, { days: number; months: number }> = {
+  day: { days: 1, months: 1 / 30 },
+  week: { days: 7, months: 7 / 30 },
+  month: { days: 30, months: 1 },
+  year: { days: 365, months: 12 },
+};
+const SCALES: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, bn: 1e9, billion: 1e9,
+};
+const SCALE = `(?:\\s?(k|mm|m|bn|thousand|million|billion)\\b)?`;
+
+// Patterns that read each unit; the first capture is the number
+const QUANTITY_PATTERNS: Record<ThresholdUnit, { pattern: RegExp; read: (match: RegExpMatchArray, unit: ThresholdUnit) => number }[]> = (() => {
+  const period = (match: RegExpMatchArray, unit: ThresholdUnit) =>
+    parseNumber(match[1]) * PERIODS[(match[2] ?? "day").toLowerCase()][unit === "months" ? "months" : "days"];
+  const periodPatterns = [
+    { pattern: new RegExp(`(${NUMBER})\\s*-?\\s*${PERIOD_QUALIFIER}(day|week|month|year)s?\\b`, "gi"), read: period },
+    // "net 45" means payment within 45 days
+    { pattern: new RegExp(`\\bnet\\s+(${NUMBER})(?!\\s*-?\\s*${PERIOD_QUALIFIER}(?:day|week|month|year|%|percent))`, "gi"), read: period },
+  ];
+  const amount = (match: RegExpMatchArray) => parseNumber(match[1]) * (match[2] ? SCALES[match[2].toLowerCase()] : 1);
+
+  return {
+    days: periodPatterns,
+    months: periodPatterns,
+    percent: [
+      { pattern: new RegExp(`(${NUMBER})\\s*(?:%|per\\s?cent\\b)`, "gi"), read: match => parseNumber(match[1]) },
+    ],
+    amount: [
+      { pattern: new RegExp(`(?:US\\$|\\$|€|£|\\b(?:USD|EUR|GBP)\\s?)\\s?(${DIGITS})${SCALE}`, "gi"), read: amount },
+      { pattern: new RegExp(`(${NUMBER})${SCALE}\\s?(?:dollars|euros|pounds|USD|EUR|GBP)\\b`, "gi"), read: amount },
+    ],
+  };
+})();
+
+const OPERATOR_LABELS: Record<ThresholdOperator, string> = {
+  "<": "less than",
+  "<=": "at most",
+  ">": "more than",
+  ">=": "at least",
+  "=": "exactly",
+};
+
+const UNIT_LABELS: Record<ThresholdUnit, string> = {
+  days: "The period",
+  months: "The period",
+  percent: "The percentage",
+  amount: "The amount",
+};
+
+/**
+ * Find every value of a unit stated in a clause
+ * Periods are converted, so "three months" reads as 90 days and "one year" as 12 months.
+ * Amounts in different currencies are compared as written, without conversion.
+ * @param text - The clause text
+ * @param unit - The unit to read
+ * @returns The values, in the order they appear
+ */
+export function extractQuantities(text: string, unit: ThresholdUnit): Quantity[] {
+  const quantities: Quantity[] = [];
+  QUANTITY_PATTERNS[unit].forEach(({ pattern, read }) => {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const value = read(match, unit);
+      const start = match.index!;
+      // Amount patterns can overlap, e.g. "$5 million dollars"
+      if (!isNaN(value) && !quantities.some(quantity => start < quantity.end && quantity.start < start + match[0].length)) {
+        quantities.push({ value, unit, text: match[0].trim(), start, end: start + match[0].length });
+      }
+    }
+  });
+  return quantities.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Compare the value a clause states against a threshold rule's limit
+ * The value nearest to where the rule's expression matched is used, so a clause
+ * with several periods is judged by the one the rule is about.
+ * @param rule - The threshold rule
+ * @param text - The clause text, already matched by the rule's expression
+ * @param spans - Where the expression matched
+ * @returns The outcome, or undefined if the clause states no value or the rule is incomplete
+ */
+export function checkThreshold(rule: ThresholdRule, text: string, spans: MatchSpan[]): ThresholdCheck | undefined {
+  const unit = rule.thresholdUnit as ThresholdUnit | null;
+  const operator = rule.thresholdOperator as ThresholdOperator | null;
+  if (!unit || !operator || rule.thresholdValue === null || rule.thresholdValue === undefined) {
+    return undefined;
+  }
+
+  const distance = (quantity: Quantity) => spans.length === 0 ? 0 : Math.min(...spans.map(span =>
+    Math.max(0, span.start - quantity.end, quantity.start - span.end)
+  ));
+  const [quantity] = extractQuantities(text, unit).sort((a, b) => distance(a) - distance(b));
+  if (!quantity) {
+    return undefined;
+  }
+
+  return {
+    quantity,
+    passed: compare(quantity.value, operator, rule.thresholdValue),
+    value: formatQuantity(quantity.value, unit),
+    limit: formatLimit(rule),
+  };
+}
+
+/**
+ * Describe a threshold rule's limit, e.g. "at most 45 days"
+ */
+export function formatLimit(rule: Pick<ComplianceRule, "thresholdUnit" | "thresholdOperator" | "thresholdValue">): string {
+  if (!rule.thresholdUnit || !rule.thresholdOperator || rule.thresholdValue === null || rule.thresholdValue === undefined) {
+    return "no limit set";
+  }
+  return `${OPERATOR_LABELS[rule.thresholdOperator as ThresholdOperator]} ${formatQuantity(rule.thresholdValue, rule.thresholdUnit as ThresholdUnit)}`;
+}
+
+/**
+ * Write a value in its unit, e.g. "60 days" or "150%"
+ */
+export function formatQuantity(value: number, unit: ThresholdUnit): string {
+  const rounded = Math.round(value * 100) / 100;
+  switch (unit) {
+    case "days":
+      return `${rounded} day${rounded === 1 ? "" : "s"}`;
+    case "months":
+      return `${rounded} month${rounded === 1 ? "" : "s"}`;
+    case "percent":
+      return `${rounded}%`;
+    case "amount":
+      return rounded.toLocaleString("en-US");
+  }
+}
+
+/**
+ * Check that a threshold rule has everything it needs to be evaluated
+ * @returns A description of the problem, or undefined if the threshold is complete
+ */
+export function validateThreshold(rule: Pick<ComplianceRule, "thresholdUnit" | "thresholdOperator" | "thresholdValue">): string | undefined {
+  if (!rule.thresholdUnit || !rule.thresholdOperator || rule.thresholdValue === null || rule.thresholdValue === undefined) {
+    return "Threshold rules need a unit, a comparison and a limit";
+  }
+  if (rule.thresholdValue < 0) {
+    return "The limit cannot be negative";
+  }
+  return undefined;
+}
+
+/**
+ * The compliance issue for a clause whose value breaks a threshold rule
+ * @param rule - The threshold rule
+ * @param check - The failed check
+ * @returns The issue, with the value found and the limit
+ */
+export function thresholdIssue(rule: ThresholdRule, check: ThresholdCheck): ComplianceIssue {
+  return {
+    issue: `${check.value} found ("${check.quantity.text}"), limit is ${check.limit}`,
+    rule: rule.keyword,
+    description: rule.description || `${UNIT_LABELS[check.quantity.unit]} must be ${check.limit}, but this clause states ${check.value}.`,
+    value: check.value,
+    limit: check.limit,
+  };
+}
+
+function compare(value: number, operator: ThresholdOperator, limit: number): boolean {
+  // Allow for rounding in converted periods, e.g. 12 months read from "one year" in days
+  const epsilon = 1e-9;
+  switch (operator) {
+    case "<":
+      return value < limit - epsilon;
+    case "<=":
+      return value <= limit + epsilon;
+    case ">":
+      return value > limit + epsilon;
+    case ">=":
+      return value >= limit - epsilon;
+    case "=":
+      return Math.abs(value - limit) <= epsilon;
+  }
+}
+
+/**
+ * Read a number written in digits, words or both, e.g. "1,500", "forty-five" or "sixty (60)"
+ */
+function parseNumber(text: string): number {
+  const digits = text.match(new RegExp(`\\(\\s*(${DIGITS})\\s*\\)`)) ?? text.match(new RegExp(`^${DIGITS}$`));
+  if (digits) {
+    return parseFloat(digits[digits.length - 1].replace(/,/g, ""));
+  }
+
+  const words = text.toLowerCase().trim().split(/[\s-]+/);
+  if (words[words.length - 1] === "hundred") {
+    return 100;
+  }
+  return words.reduce((total, word) => total + (TENS[word] ?? ONES[word] ?? NaN), 0);
+}
@@ -0,0 +1,78 @@
+import { z } from "zod";
+
+/**
+ * How risk scores (0-10) are bucketed and weighted
+ * Shared by the server, which scores clauses and contracts, and the client, which colours and filters them.
+ * Kept apart from schema.ts so the client can import it without the database layer.
+ */
+export interface RiskModel {
+  // Lowest score of each band; anything below the medium band is low risk
+  bands: { medium: number; high: number };
+  // Points a clause gets for its category, and how much the category counts towards a contract's score;
+  // categories not listed weigh nothing extra
+  categoryWeights: Record<string, number>;
+}
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export const RISK_LEVELS: RiskLevel[] = ["high", "medium", "low"];
+
+export const DEFAULT_RISK_MODEL: RiskModel = {
+  bands: { medium: 4, high: 7 },
+  categoryWeights: {
+    "Liability": 2,
+    "Indemnification": 2,
+    "IP Rights": 1,
+    "Termination": 1,
+    "Confidentiality": 1,
+    "Payment Terms": 1,
+  },
+};
+
+export const riskModelSchema = z.object({
+  bands: z.object({
+    medium: z.number().int().min(1).max(9),
+    high: z.number().int().min(2).max(10),
+  }).refine(bands => bands.medium < bands.high, { message: "The high band must start above the medium band" }),
+  categoryWeights: z.record(z.string().trim().min(1), z.number().int().min(-5).max(5)),
+});
+
+/**
+ * The band a score falls in
+ * @param score - A clause or contract risk score (0-10)
+ * @param model - The risk model to bucket by
+ * @returns "high", "medium" or "low"
+ */
+export function riskLevel(score: number, model: RiskModel = DEFAULT_RISK_MODEL): RiskLevel {
+  if (score >= model.bands.high) return "high";
+  if (score >= model.bands.medium) return "medium";
+  return "low";
+}
+
+/**
+ * The whole scores in a band, for range filters
+ * @param level - The band
+ * @param model - The risk model to bucket by
+ * @returns The lowest and highest whole score in the band
+ */
+export function riskRange(level: RiskLevel, model: RiskModel = DEFAULT_RISK_MODEL): { min: number; max: number } {
+  if (level === "high") return { min: model.bands.high, max: 10 };
+  if (level === "medium") return { min: model.bands.medium, max: model.bands.high - 1 };
+  return { min: 0, max: model.bands.medium - 1 };
+}
+
+/**
+ * A band's name with its scores, e.g. "High risk (7-10)"
+ */
+export function riskLabel(level: RiskLevel, model: RiskModel = DEFAULT_RISK_MODEL): string {
+  const { min, max } = riskRange(level, model);
+  const name = level.charAt(0).toUpperCase() + level.slice(1);
+  return `${name} risk (${min === max ? min : `${min}-${max}`})`;
+}
+
+/**
+ * How much a clause category weighs in the model
+ */
+export function categoryWeight(category: string | null | undefined, model: RiskModel = DEFAULT_RISK_MODEL): number {
+  return (category && model.categoryWeights[category]) || 0;
+}
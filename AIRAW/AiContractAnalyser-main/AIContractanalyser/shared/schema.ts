@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,26 +9,145 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// How a compliance rule's keyword is matched against clause text
+export const complianceRuleTypes = ["keyword", "whole_word", "regex", "proximity", "boolean", "threshold"] as const;
+
+// What a threshold rule reads from a clause, and how it compares the value to its limit
+export const thresholdUnits = ["days", "months", "percent", "amount"] as const;
+export const thresholdOperators = ["<", "<=", ">", ">=", "="] as const;
+
+// Clause rules are checked against each clause; document rules are "must contain" rules that a
+// contract fails when none of its clauses match, checked once all clauses are analyzed
+export const complianceRuleScopes = ["clause", "document"] as const;
+
 export const complianceRules = pgTable("compliance_rules", {
   id: serial("id").primaryKey(),
-  keyword: text("keyword").notNull(),
+  keyword: text("keyword").notNull(), // The keyword, regular expression or expression, depending on the rule type
+  ruleType: text("rule_type").notNull().default("keyword"),
+  scope: text("scope").notNull().default("clause"),
   allowed: boolean("allowed").notNull().default(true),
   riskScore: integer("risk_score").default(5), // Default risk score of 5 (medium)
   category: text("category"),
   description: text("description"),
+  // Threshold rules only: the keyword picks the clauses, and the value found in them must satisfy
+  // "value <operator> limit", e.g. payment terms in days <= 45
+  thresholdUnit: text("threshold_unit"),
+  thresholdOperator: text("threshold_operator"),
+  thresholdValue: real("threshold_value"),
+  rulesetId: integer("ruleset_id"), // The ruleset the rule belongs to; null applies it to every contract
 });
 
+// Contract types that can be detected from a contract's text and used to pick a ruleset
+export const contractTypes = ["NDA", "MSA", "SOW", "SaaS", "DPA", "Employment", "Lease", "License"] as const;
+
+// A named playbook of compliance rules, optionally extending a base ruleset
+export const rulesets = pgTable("rulesets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  baseRulesetId: integer("base_ruleset_id"), // Ruleset whose rules this one inherits
+  contractTypes: text("contract_types").array().notNull().default(sql`'{}'::text[]`), // Detected types this ruleset is picked for
+  version: integer("version").notNull().default(1), // Bumped whenever the ruleset, its rules or its base change
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const documents = pgTable("documents", {
+  id: text("id").primaryKey(),
+  filename: text("filename").notNull(),
+  mimetype: text("mimetype").notNull(),
+  size: integer("size").notNull(),
+  contentHash: text("content_hash").notNull(), // SHA-256 of the uploaded file
+  textHash: text("text_hash"), // SHA-256 of the normalized extracted text
+  simhash: text("simhash"), // 64-bit simhash of the extracted text, for near-duplicate detection
+  storageKey: text("storage_key"), // Where the original file is kept in the blob store
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+  status: text("status").notNull().default("processing"), // "processing", "analyzed" or "failed"
+  pageCount: integer("page_count"), // Null for formats without pages
+  error: text("error"), // Why analysis failed, when status is "failed"
+  versionOf: text("version_of"), // ID of the first version, when this upload is a later version of a contract
+  version: integer("version").notNull().default(1),
+  rulesetId: integer("ruleset_id"), // Ruleset chosen at upload; null to pick one by contract type
+  contractType: text("contract_type"), // Contract type detected during analysis
+  appliedRulesetId: integer("applied_ruleset_id"), // Ruleset the last analysis used, null for shared rules only
+  appliedRulesetVersion: integer("applied_ruleset_version"), // Its version at the time
+  riskScore: real("risk_score"), // Overall contract risk (0-10), null until analyzed
+  riskCategories: jsonb("risk_categories"), // Risk per clause category, as CategoryRisk objects
+});
+
+// How one document relates to another: an amendment of the agreement it changes, a statement of
+// work under its master agreement, or a replacement for the document it supersedes
+export const documentRelationTypes = ["amendment-of", "sow-under", "supersedes"] as const;
+
+export const documentRelations = pgTable("document_relations", {
+  id: serial("id").primaryKey(),
+  documentId: text("document_id").notNull(), // The amendment, SOW or superseding document
+  relatedDocumentId: text("related_document_id").notNull(), // The document it amends, sits under or supersedes
+  relationType: text("relation_type").notNull(),
+  sequence: integer("sequence"), // Amendments: the order they apply in, e.g. 2 for Amendment No. 2
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// "full" extracts and analyzes the uploaded file; "rules" re-checks the stored clauses against the current rules
+export const analysisJobKinds = ["full", "rules"] as const;
+
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: serial("id").primaryKey(),
+  documentId: text("document_id").notNull(),
+  kind: text("kind").notNull().default("full"),
+  status: text("status").notNull().default("queued"), // "queued", "extracting", "analyzing", "summarizing", "done" or "failed"
+  progress: integer("progress").notNull().default(0), // Clauses analyzed so far, while status is "analyzing"
+  total: integer("total").notNull().default(0), // Clauses to analyze
+  error: text("error"), // Why the job failed, when status is "failed"
+  result: jsonb("result"), // Outcome details for the client, e.g. text coverage
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+/**
+ * Full-text search vector over a clause's heading, section number and text
+ * Searches must build the vector with this same expression for the GIN index to be used.
+ */
+export function clauseSearchVector(table: { clause: AnyPgColumn; heading: AnyPgColumn; section: AnyPgColumn }) {
+  return sql`to_tsvector('english', coalesce(${table.heading}, '') || ' ' || coalesce(${table.section}, '') || ' ' || ${table.clause})`;
+}
+
 export const clauses = pgTable("clauses", {
   id: serial("id").primaryKey(),
   clause: text("clause").notNull(),
-  section: text("section"),
+  section: text("section"), // Section number as written in the document, e.g. "4.2(a)" or "Schedule 2"
+  heading: text("heading"),
+  parent_section: text("parent_section"), // Section number of the enclosing section, for the outline
   page: integer("page"),
   category: text("category"),
   risk_score: integer("risk_score").notNull(),
   compliance_status: text("compliance_status").notNull(),
   document_id: text("document_id").notNull(),
   completed: boolean("completed").default(false),
-});
+  ocr_confidence: integer("ocr_confidence"), // Average OCR word confidence (0-100), null for text-layer documents
+  library_clause_id: integer("library_clause_id"), // Closest approved clause in the library, if any is close enough
+  library_similarity: real("library_similarity"), // Word overlap with that library clause (0-1)
+  library_diff: jsonb("library_diff"), // Word-level diff from the library text to this clause
+  compliance_issues: jsonb("compliance_issues"), // Rules the clause breaks, as ComplianceIssue objects
+  risk_factors: jsonb("risk_factors"), // What the risk score is made of, as RiskFactor objects; null when scored by AI
+}, (table) => [
+  index("clauses_search_idx").using("gin", clauseSearchVector(table)),
+]);
+
+/**
+ * Full-text search vector over a summary's text fields, including every string inside its JSON lists
+ * Searches must build the vector with this same expression for the GIN index to be used.
+ */
+export function summarySearchVector(table: {
+  title: AnyPgColumn; termLength: AnyPgColumn; confidentialityTerms: AnyPgColumn;
+  paymentTerms: AnyPgColumn; terminationClauses: AnyPgColumn; keyObligations: AnyPgColumn;
+  fees: AnyPgColumn; rateCard: AnyPgColumn;
+}) {
+  const strings = (column: AnyPgColumn) => sql`jsonb_to_tsvector('english', coalesce(${column}, '[]'::jsonb), '["string"]')`;
+  return sql`(to_tsvector('english', coalesce(${table.title}, '') || ' ' || coalesce(${table.termLength}, '') || ' ' || coalesce(${table.confidentialityTerms}, ''))
+    || ${strings(table.paymentTerms)} || ${strings(table.terminationClauses)} || ${strings(table.keyObligations)}
+    || ${strings(table.fees)} || ${strings(table.rateCard)})`;
+}
 
 export const contractSummaries = pgTable("contract_summaries", {
   id: serial("id").primaryKey(),
@@ -42,6 +162,36 @@ export const contractSummaries = pgTable("contract_summaries", {
   keyObligations: jsonb("key_obligations"),
   confidentialityTerms: text("confidentiality_terms"),
   terminationClauses: jsonb("termination_clauses"),
+  missingClauses: jsonb("missing_clauses"), // Findings for required clauses the contract lacks
+  defaultedFields: jsonb("defaulted_fields"), // Fields holding placeholders because the contract does not state them
+}, (table) => [
+  index("contract_summaries_search_idx").using("gin", summarySearchVector(table)),
+]);
+
+// Approved standard language, per category, that extracted clauses are measured against
+export const libraryClauses = pgTable("library_clauses", {
+  id: serial("id").primaryKey(),
+  category: text("category").notNull(), // Matches clause categories, e.g. "Liability" or "Confidentiality"
+  title: text("title").notNull(),
+  text: text("text").notNull(),
+  notes: text("notes"), // Guidance for reviewers, e.g. when a deviation is acceptable
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Sentence embedding of each clause, for finding clauses that say the same thing in different words
+export const clauseEmbeddings = pgTable("clause_embeddings", {
+  clauseId: integer("clause_id").primaryKey(),
+  model: text("model").notNull(), // Embeddings from different models are not comparable
+  vector: real("vector").array().notNull(), // Unit length, so the dot product is the cosine similarity
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Workspace-wide settings, one JSON value per key, e.g. the risk model under "risk-model"
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -51,16 +201,71 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export const insertComplianceRuleSchema = createInsertSchema(complianceRules).pick({
   keyword: true,
+  ruleType: true,
+  scope: true,
   allowed: true,
   riskScore: true,
   category: true,
   description: true,
+  thresholdUnit: true,
+  thresholdOperator: true,
+  thresholdValue: true,
+}).extend({
+  ruleType: z.enum(complianceRuleTypes).optional(),
+  scope: z.enum(complianceRuleScopes).optional(),
+  thresholdUnit: z.enum(thresholdUnits).nullish(),
+  thresholdOperator: z.enum(thresholdOperators).nullish(),
+  thresholdValue: z.number().finite().nullish(),
+  rulesetId: z.number().int().nullish(),
+});
+
+export const insertRulesetSchema = createInsertSchema(rulesets).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  baseRulesetId: z.number().int().nullish(),
+  contractTypes: z.array(z.enum(contractTypes)).optional(),
+});
+
+export const insertDocumentSchema = createInsertSchema(documents).omit({
+  uploadedAt: true,
+});
+
+export const insertDocumentRelationSchema = createInsertSchema(documentRelations).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  relationType: z.enum(documentRelationTypes),
+  sequence: z.number().int().positive().nullish(),
+});
+
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const insertClauseSchema = createInsertSchema(clauses).omit({
   id: true,
 });
 
+export const insertLibraryClauseSchema = createInsertSchema(libraryClauses).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  category: z.string().trim().min(1),
+  title: z.string().trim().min(1),
+  text: z.string().trim().min(1),
+});
+
+export const insertClauseEmbeddingSchema = createInsertSchema(clauseEmbeddings).omit({
+  createdAt: true,
+});
+
 export const insertContractSummarySchema = createInsertSchema(contractSummaries).omit({
   id: true,
 });
@@ -70,13 +275,110 @@ export type User = typeof users.$inferSelect;
 
 export type InsertComplianceRule = z.infer<typeof insertComplianceRuleSchema>;
 export type ComplianceRule = typeof complianceRules.$inferSelect;
+export type ComplianceRuleType = typeof complianceRuleTypes[number];
+export type ComplianceRuleScope = typeof complianceRuleScopes[number];
+export type InsertRuleset = z.infer<typeof insertRulesetSchema>;
+export type Ruleset = typeof rulesets.$inferSelect;
+export type ContractType = typeof contractTypes[number];
+
+export type ThresholdUnit = typeof thresholdUnits[number];
+export type ThresholdOperator = typeof thresholdOperators[number];
+
+export type InsertContractDocument = z.infer<typeof insertDocumentSchema>;
+export type ContractDocument = typeof documents.$inferSelect;
+
+export type DocumentRelationType = typeof documentRelationTypes[number];
+export type InsertDocumentRelation = z.infer<typeof insertDocumentRelationSchema>;
+export type DocumentRelation = typeof documentRelations.$inferSelect;
+
+export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+// "cancelled" is only ever sent to progress streams: a job is cancelled by deleting its document, which deletes the job
+export type AnalysisJobStatus = "queued" | "extracting" | "analyzing" | "summarizing" | "done" | "failed" | "cancelled";
+export type AnalysisJobKind = typeof analysisJobKinds[number];
 
 export type InsertClause = z.infer<typeof insertClauseSchema>;
 export type Clause = typeof clauses.$inferSelect;
 
+// A rule a clause breaks, as stored in clauses.compliance_issues
+export interface ComplianceIssue {
+  issue: string;
+  rule?: string;
+  description: string;
+  value?: string; // Threshold rules: the value found in the clause, e.g. "60 days"
+  limit?: string; // Threshold rules: what the rule allows, e.g. "at most 45 days"
+}
+
+// How risky one category of a contract's clauses is, as stored in documents.risk_categories
+export interface CategoryRisk {
+  category: string;
+  score: number; // 0-10
+  clauses: number;
+  findings: number; // Compliance issues and missing required clauses
+}
+
+// One contribution to a clause's risk score, as stored in clauses.risk_factors
+export interface RiskFactor {
+  kind: "rule" | "category" | "indicator";
+  label: string; // e.g. 'Breaks rule "unlimited liability"'
+  points: number; // Negative for wording that lowers the risk
+}
+
+export type InsertLibraryClause = z.infer<typeof insertLibraryClauseSchema>;
+export type LibraryClause = typeof libraryClauses.$inferSelect;
+
+export type InsertClauseEmbedding = z.infer<typeof insertClauseEmbeddingSchema>;
+export type ClauseEmbedding = typeof clauseEmbeddings.$inferSelect;
+
+export type Setting = typeof settings.$inferSelect;
+
+// A clause ranked by how close its meaning is to another
+export interface SimilarClause {
+  clause: Clause;
+  similarity: number;
+}
+
 export type InsertContractSummary = z.infer<typeof insertContractSummarySchema>;
 export type ContractSummaryDB = typeof contractSummaries.$inferSelect;
 
+// A document-level finding: a required clause the contract does not contain
+export const missingClauseSchema = z.object({
+  ruleId: z.number(),
+  rule: z.string(), // What the rule looks for, e.g. 'whole word "governing law"'
+  category: z.string().optional(),
+  riskScore: z.number(),
+  message: z.string(), // e.g. "No cap on liability found"
+});
+
+export type MissingClause = z.infer<typeof missingClauseSchema>;
+
+/**
+ * How one clause's analysis changed when it was re-checked against the current rules
+ */
+export interface ClauseChange {
+  clauseId: number;
+  section: string | null;
+  heading: string | null;
+  before: { compliance_status: string; risk_score: number; category: string | null };
+  after: { compliance_status: string; risk_score: number; category: string | null };
+  addedIssues: string[];
+  resolvedIssues: string[];
+}
+
+/**
+ * What re-checking a document against the current rules changed, stored as the job result
+ */
+export interface ReanalysisReport {
+  clauseCount: number;
+  changedCount: number; // Clauses whose status, risk, category or issues changed
+  transitions: Record<string, number>; // Status changes, e.g. { "Compliant → Non-Compliant": 2 }
+  clauses: ClauseChange[];
+  missingAdded: MissingClause[]; // Required clauses now reported missing
+  missingResolved: MissingClause[]; // Required clauses no longer reported missing
+  rulesetBefore: { id: number; version: number } | null;
+  rulesetAfter: { id: number; version: number } | null;
+}
+
 // Contract summary schema
 export const contractSummarySchema = z.object({
   documentId: z.string(),
@@ -103,6 +405,46 @@ export const contractSummarySchema = z.object({
   keyObligations: z.array(z.string()).optional(),
   confidentialityTerms: z.string().optional(),
   terminationClauses: z.array(z.string()).optional(),
+  missingClauses: z.array(missingClauseSchema).optional(),
+  // Fields filled with placeholders rather than read from the contract, e.g. "termLength"
+  defaultedFields: z.array(z.string()).optional(),
 });
 
 export type ContractSummary = z.infer<typeof contractSummarySchema>;
+
+// Full-text search request; category, risk and compliance filters narrow the clause results
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1),
+  category: z.string().optional(),
+  minRisk: z.coerce.number().int().min(0).max(10).optional(),
+  maxRisk: z.coerce.number().int().min(0).max(10).optional(),
+  complianceStatus: z.string().optional(),
+  documentId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+// A run of snippet text, highlighted where it matched the query
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface ClauseSearchHit {
+  clause: Clause;
+  rank: number;
+  snippet: SnippetSegment[];
+}
+
+export interface SummarySearchHit {
+  documentId: string;
+  title: string | null;
+  rank: number;
+  snippet: SnippetSegment[];
+}
+
+export interface SearchResults {
+  clauses: ClauseSearchHit[];
+  summaries: SummarySearchHit[];
+}